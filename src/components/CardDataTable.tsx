@@ -2,25 +2,150 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
-import { Download, Trash2, Edit2, Check, X, Mail } from "lucide-react";
+import { CardReviewDialog } from "@/components/CardReviewDialog";
+import { CardRawTextDialog } from "@/components/CardRawTextDialog";
+import { ContactList, ContactListEditor } from "@/components/ContactList";
+import { PostalAddressEditor } from "@/components/PostalAddressEditor";
+import { PersonNameEditor } from "@/components/PersonNameEditor";
+import { SocialProfileEditor, SocialProfileList } from "@/components/SocialProfileList";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Download, Trash2, Edit2, Check, X, Mail, Link2, Unlink, ScanSearch, FileText, RefreshCw, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import Papa from "papaparse";
-import JSZip from "jszip";
+import { cn } from "@/lib/utils";
 import { saveAs } from "file-saver";
 import type { CardData } from "@/utils/ocrProcessor";
+import { buildCardsZip, buildVcf } from "@/utils/cardExport";
+import { canReparse } from "@/utils/cardReparse";
+import {
+  CONTACT_FIELDS,
+  CONTACT_LIST_KEYS,
+  getContactList,
+  isContactField,
+  setContactList,
+  type ContactField,
+  type ContactValue,
+} from "@/utils/contactValues";
+import {
+  DEFAULT_PHONE_SETTINGS,
+  formatPhoneNumber,
+  inferPhoneCountry,
+  normalizeCardPhones,
+  resolveDefaultCountry,
+  type PhoneSettings,
+} from "@/utils/phoneNumbers";
+import { POSTAL_ADDRESS_LABELS, POSTAL_ADDRESS_PARTS, getAddressParts, setAddressParts } from "@/utils/postalAddress";
+import { PERSON_NAME_LABELS, PERSON_NAME_PARTS, getNameParts } from "@/utils/personName";
+import { fieldCorrections, type CorrectedField } from "@/utils/ocrCorrection";
+import { normalizeSocialProfiles } from "@/utils/socialProfiles";
+import { CARD_FIELDS, hasUncertainFields, isLowConfidence, type CardField } from "@/utils/fieldConfidence";
 
 interface CardDataTableProps {
   cards: CardData[];
   onUpdateCard: (id: string, updates: Partial<CardData>) => void;
   onDeleteCard: (id: string) => void;
+  onPairCards?: (frontId: string, backId: string) => void;
+  onUnpairCard?: (id: string) => void;
+  onReparseCards?: (ids: string[]) => Promise<void>; // Parse the kept OCR text again
+  phoneSettings?: PhoneSettings;
 }
 
-export const CardDataTable = ({ cards, onUpdateCard, onDeleteCard }: CardDataTableProps) => {
+export const CardDataTable = ({
+  cards,
+  onUpdateCard,
+  onDeleteCard,
+  onPairCards,
+  onUnpairCard,
+  onReparseCards,
+  phoneSettings = DEFAULT_PHONE_SETTINGS,
+}: CardDataTableProps) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editData, setEditData] = useState<CardData | null>(null);
   const [isSendingEmail, setIsSendingEmail] = useState(false);
+  // In selection order, so the first selected row becomes the front when pairing
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showUncertainOnly, setShowUncertainOnly] = useState(false);
+  const [reviewId, setReviewId] = useState<string | null>(null);
+  const [rawTextId, setRawTextId] = useState<string | null>(null);
+  const [isReparsingAll, setIsReparsingAll] = useState(false);
   const { toast } = useToast();
 
+  const visibleCards = showUncertainOnly ? cards.filter(hasUncertainFields) : cards;
+  const uncertainCount = cards.filter(hasUncertainFields).length;
+  const reviewCard = reviewId ? cards.find((card) => card.id === reviewId) : undefined;
+  const rawTextCard = rawTextId ? cards.find((card) => card.id === rawTextId) : undefined;
+  const reparseableIds = cards.filter(canReparse).map((card) => card.id);
+
+  const handleReparseAll = async () => {
+    if (!onReparseCards) return;
+    setIsReparsingAll(true);
+    try {
+      await onReparseCards(reparseableIds);
+    } finally {
+      setIsReparsingAll(false);
+    }
+  };
+
+  // Highlight fields that OCR was unsure about
+  const confidenceClass = (card: CardData, field: CardField) =>
+    isLowConfidence(card, field) ? "bg-yellow-100 dark:bg-yellow-900/30" : undefined;
+
+  const confidenceTitle = (card: CardData, field: CardField) => {
+    if (card.qrFields?.includes(field)) return "Read from the QR code";
+    const confidence = card.confidence?.[field];
+    return confidence === undefined ? undefined : `OCR confidence: ${confidence}%`;
+  };
+
+  // The name and address with their parts on separate lines, for the hover text
+  const partLines = <T extends string>(parts: Record<T, string>, order: T[], labels: Record<T, string>) =>
+    order.filter((part) => parts[part]).map((part) => `${labels[part]}: ${parts[part]}`);
+
+  const nameTitle = (card: CardData) =>
+    card.name ? partLines(getNameParts(card), PERSON_NAME_PARTS, PERSON_NAME_LABELS).join("\n") : undefined;
+
+  const addressTitle = (card: CardData) =>
+    card.address
+      ? [card.address, ...partLines(getAddressParts(card), POSTAL_ADDRESS_PARTS, POSTAL_ADDRESS_LABELS)].join("\n")
+      : undefined;
+
+  // Marks values that were decoded from a QR code rather than read by OCR
+  const qrBadge = (card: CardData, field: CardField) =>
+    card.qrFields?.includes(field) && (
+      <span className="ml-1 rounded bg-primary/10 px-1 text-[10px] font-semibold text-primary align-middle">QR</span>
+    );
+
+  // Misread characters fixed before parsing, listed on hover so they can be checked
+  const correctedBadge = (card: CardData, field: CorrectedField) => {
+    const corrections = card.qrFields?.includes(field) ? [] : fieldCorrections(card, field);
+    return (
+      corrections.length > 0 && (
+        <span
+          className="ml-1 rounded bg-muted px-1 text-[10px] font-semibold text-muted-foreground align-middle"
+          title={corrections.map((correction) => `${correction.original} → ${correction.corrected}`).join("\n")}
+        >
+          auto-corrected
+        </span>
+      )
+    );
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((selectedId) => selectedId !== id)));
+  };
+
+  // Only two single-sided cards can be paired
+  const selectedCards = selectedIds
+    .map((id) => cards.find((card) => card.id === id))
+    .filter((card): card is CardData => !!card);
+  const canPair = selectedCards.length === 2 && selectedCards.every((card) => !card.sides);
+
+  const handlePairSelected = () => {
+    if (!onPairCards || !canPair) return;
+    onPairCards(selectedCards[0].id, selectedCards[1].id);
+    setSelectedIds([]);
+  };
+
   const startEdit = (card: CardData) => {
     setEditingId(card.id);
     setEditData({ ...card });
@@ -33,7 +158,49 @@ export const CardDataTable = ({ cards, onUpdateCard, onDeleteCard }: CardDataTab
 
   const saveEdit = () => {
     if (editingId && editData) {
-      onUpdateCard(editingId, editData);
+      // Drop empty list entries and put each list's first value into its single field
+      const edited: CardData = { ...editData };
+      CONTACT_FIELDS.forEach((field) => Object.assign(edited, setContactList(field, getContactList(editData, field))));
+      // Edited address parts replace the one-line address, which is built from them
+      const original = cards.find((card) => card.id === editingId);
+      if (editData.addressParts && JSON.stringify(editData.addressParts) !== JSON.stringify(original?.addressParts)) {
+        Object.assign(edited, setAddressParts(editData.addressParts));
+      }
+      Object.assign(edited, normalizeCardPhones(edited, resolveDefaultCountry(phoneSettings)));
+      // Edited profiles are kept as they are when the card is re-parsed
+      const socialProfiles = normalizeSocialProfiles(
+        (editData.socialProfiles || [])
+          .map((profile) => ({ ...profile, handle: profile.handle.trim() }))
+          .filter((profile) => profile.handle),
+        inferPhoneCountry(edited, resolveDefaultCountry(phoneSettings))
+      );
+      if (JSON.stringify(socialProfiles) !== JSON.stringify(original?.socialProfiles || [])) {
+        Object.assign(edited, { socialProfiles, socialProfilesEdited: true });
+      }
+
+      // Corrected values no longer come from OCR, so drop their confidence and source boxes
+      const confidence = { ...edited.confidence };
+      const sources = { ...edited.sources };
+      const changedFields = CARD_FIELDS.filter(
+        (field) =>
+          original &&
+          (original[field] !== edited[field] ||
+            (isContactField(field) &&
+              JSON.stringify(getContactList(original, field)) !== JSON.stringify(getContactList(edited, field))) ||
+            // Moving a word between parts can leave the text as it was
+            (field === "name" && JSON.stringify(getNameParts(original)) !== JSON.stringify(getNameParts(edited))) ||
+            (field === "address" &&
+              JSON.stringify(getAddressParts(original)) !== JSON.stringify(getAddressParts(edited))))
+      );
+      changedFields.forEach((field) => {
+        delete confidence[field];
+        delete sources[field];
+      });
+      const qrFields = edited.qrFields?.filter((field) => !changedFields.includes(field));
+      // Remember the corrections, so re-parsing the OCR text does not undo them
+      const editedFields = Array.from(new Set([...(edited.editedFields || []), ...changedFields]));
+      const ocrCorrections = edited.ocrCorrections?.filter((correction) => !changedFields.includes(correction.field));
+      onUpdateCard(editingId, { ...edited, confidence, sources, qrFields, editedFields, ocrCorrections });
       setEditingId(null);
       setEditData(null);
       toast({
@@ -43,6 +210,13 @@ export const CardDataTable = ({ cards, onUpdateCard, onDeleteCard }: CardDataTab
     }
   };
 
+  // Empty entries are kept while editing, so a new row can be typed into
+  const setEditList = (field: ContactField, values: ContactValue[]) => {
+    if (editData) {
+      setEditData({ ...editData, [CONTACT_LIST_KEYS[field]]: values });
+    }
+  };
+
   const handleExportCSV = async () => {
     if (cards.length === 0) {
       toast({
@@ -53,54 +227,10 @@ export const CardDataTable = ({ cards, onUpdateCard, onDeleteCard }: CardDataTab
       return;
     }
 
-    // Create a ZIP file containing both CSV and images
-    const zip = new JSZip();
-    const timestamp = Date.now();
-    
-    // Create a copy of cards with image filenames instead of base64 data
-    const cardsForExport = cards.map((card, index) => {
-      // Create a more descriptive filename
-      const namePart = card.name ? card.name.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20) : `card_${index}`;
-      const filename = `${namePart}_${timestamp}.jpg`;
-      
-      return {
-        ...card,
-        imageData: filename // Reference to the image file
-      };
-    });
-
-    // Add CSV file to ZIP
-    const csv = Papa.unparse(cardsForExport);
-    zip.file(`business-cards-${timestamp}.csv`, csv);
-
-    // Add images to ZIP
-    cards.forEach((card, index) => {
-      try {
-        // Extract base64 data from the data URL
-        const base64Data = card.imageData.split(',')[1];
-        const binaryData = atob(base64Data);
-        const arrayBuffer = new ArrayBuffer(binaryData.length);
-        const uint8Array = new Uint8Array(arrayBuffer);
-        
-        for (let i = 0; i < binaryData.length; i++) {
-          uint8Array[i] = binaryData.charCodeAt(i);
-        }
-        
-        // Create a more descriptive filename
-        const namePart = card.name ? card.name.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20) : `card_${index}`;
-        const filename = `${namePart}_${timestamp}.jpg`;
-        
-        // Add image to ZIP
-        zip.file(filename, uint8Array);
-      } catch (e) {
-        console.error("Error processing image:", e);
-      }
-    });
-
-    // Generate ZIP file and download
+    // Create a ZIP file containing both CSV and images and download it
     try {
-      const content = await zip.generateAsync({ type: "blob" });
-      saveAs(content, `business-cards-${timestamp}.zip`);
+      const { blob, filename } = await buildCardsZip(cards);
+      saveAs(blob, filename);
       
       toast({
         title: "Export successful",
@@ -127,54 +257,7 @@ export const CardDataTable = ({ cards, onUpdateCard, onDeleteCard }: CardDataTab
     }
 
     // Generate VCF content
-    let vcfContent = "";
-    cards.forEach((card, index) => {
-      vcfContent += "BEGIN:VCARD\n";
-      vcfContent += "VERSION:3.0\n";
-      
-      // Add name
-      if (card.name) {
-        const nameParts = card.name.split(" ");
-        const firstName = nameParts[0] || "";
-        const lastName = nameParts.slice(1).join(" ") || "";
-        vcfContent += `N:${lastName};${firstName};;;\n`;
-        vcfContent += `FN:${card.name}\n`;
-      }
-      
-      // Add organization
-      if (card.company) {
-        vcfContent += `ORG:${card.company}\n`;
-      }
-      
-      // Add title
-      if (card.designation) {
-        vcfContent += `TITLE:${card.designation}\n`;
-      }
-      
-      // Add email
-      if (card.email) {
-        vcfContent += `EMAIL;TYPE=WORK:${card.email}\n`;
-      }
-      
-      // Add phone
-      if (card.phone) {
-        vcfContent += `TEL;TYPE=WORK:${card.phone}\n`;
-      }
-      
-      // Add website
-      if (card.website) {
-        vcfContent += `URL:${card.website}\n`;
-      }
-      
-      // Add address
-      if (card.address) {
-        vcfContent += `ADR;TYPE=WORK:;;${card.address}\n`;
-      }
-      
-
-      
-      vcfContent += "END:VCARD\n\n";
-    });
+    const vcfContent = buildVcf(cards);
 
     const blob = new Blob([vcfContent], { type: "text/vcard" });
     const url = window.URL.createObjectURL(blob);
@@ -204,49 +287,7 @@ export const CardDataTable = ({ cards, onUpdateCard, onDeleteCard }: CardDataTab
       setIsSendingEmail(true);
       
       // Create ZIP file with CSV and images
-      const zip = new JSZip();
-      const timestamp = Date.now();
-      
-      // Create cards data for CSV export
-      const cardsForExport = cards.map((card, index) => {
-        const namePart = card.name ? card.name.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20) : `card_${index}`;
-        const filename = `${namePart}_${timestamp}.jpg`;
-        return {
-          ...card,
-          imageData: filename // Reference to the image file
-        };
-      });
-
-      // Add CSV file to ZIP
-      const csv = Papa.unparse(cardsForExport);
-      zip.file(`business-cards-${timestamp}.csv`, csv);
-
-      // Add images to ZIP
-      cards.forEach((card, index) => {
-        try {
-          // Extract base64 data from the data URL
-          const base64Data = card.imageData.split(',')[1];
-          const binaryData = atob(base64Data);
-          const arrayBuffer = new ArrayBuffer(binaryData.length);
-          const uint8Array = new Uint8Array(arrayBuffer);
-          
-          for (let i = 0; i < binaryData.length; i++) {
-            uint8Array[i] = binaryData.charCodeAt(i);
-          }
-          
-          // Create a more descriptive filename
-          const namePart = card.name ? card.name.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20) : `card_${index}`;
-          const filename = `${namePart}_${timestamp}.jpg`;
-          
-          // Add image to ZIP
-          zip.file(filename, uint8Array);
-        } catch (e) {
-          console.error("Error processing image:", e);
-        }
-      });
-
-      // Generate ZIP file
-      const zipBlob = await zip.generateAsync({ type: "blob" });
+      const { blob: zipBlob, filename } = await buildCardsZip(cards);
       
       // Create professional email content
       const subject = encodeURIComponent(`Business Cards Collection - ${new Date().toLocaleDateString()}`);
@@ -268,9 +309,6 @@ Best regards,
 [Your Position]
 [Your Contact Information]`);
       
-      // Create a temporary file reference for user guidance
-      const filename = `business-cards-${timestamp}.zip`;
-      
       // Save the file automatically
       saveAs(zipBlob, filename);
       
@@ -310,8 +348,40 @@ Best regards,
   return (
     <Card className="p-6 shadow-medium bg-gradient-card">
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-xl font-semibold text-foreground">Extracted Card Data</h2>
+        <div className="flex flex-wrap items-center gap-4">
+          <h2 className="text-xl font-semibold text-foreground">Extracted Card Data</h2>
+          <div className="flex items-center gap-2">
+            <Switch id="uncertain-only" checked={showUncertainOnly} onCheckedChange={setShowUncertainOnly} />
+            <Label htmlFor="uncertain-only" className="text-sm text-muted-foreground">
+              Show only uncertain cards ({uncertainCount})
+            </Label>
+          </div>
+        </div>
         <div className="flex flex-wrap gap-2">
+          {onPairCards && (
+            <Button
+              onClick={handlePairSelected}
+              disabled={!canPair}
+              variant="outline"
+              className="transition-smooth shadow-soft text-sm py-2 px-3"
+              title="Select the front, then the back"
+            >
+              <Link2 className="mr-1 h-4 w-4" />
+              Pair as front/back
+            </Button>
+          )}
+          {onReparseCards && (
+            <Button
+              onClick={handleReparseAll}
+              disabled={reparseableIds.length === 0 || isReparsingAll}
+              variant="outline"
+              className="transition-smooth shadow-soft text-sm py-2 px-3"
+              title="Run the parser over every card's OCR text again, keeping hand-edited fields"
+            >
+              {isReparsingAll ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-1 h-4 w-4" />}
+              Re-parse all
+            </Button>
+          )}
           <Button
             onClick={handleExportCSV}
             className="bg-accent hover:bg-accent-hover text-accent-foreground transition-smooth shadow-soft text-sm py-2 px-3"
@@ -341,27 +411,46 @@ Best regards,
         <table className="w-full min-w-[1000px] md:min-w-[900px] border-collapse">
           <thead>
             <tr className="border-b-2 border-border">
+              {onPairCards && <th className="p-3 w-8"></th>}
               <th className="text-left p-3 font-semibold text-foreground">Name</th>
               <th className="text-left p-3 font-semibold text-foreground">Company</th>
               <th className="text-left p-3 font-semibold text-foreground">Designation</th>
               <th className="text-left p-3 font-semibold text-foreground">Email</th>
               <th className="text-left p-3 font-semibold text-foreground">Phone</th>
               <th className="text-left p-3 font-semibold text-foreground">Website</th>
+              <th className="text-left p-3 font-semibold text-foreground">Social</th>
               <th className="text-left p-3 font-semibold text-foreground">Address</th>
               <th className="text-left p-3 font-semibold text-foreground">Image</th>
               <th className="text-left p-3 font-semibold text-foreground">Actions</th>
             </tr>
           </thead>
           <tbody>
-            {cards.map((card) => (
+            {visibleCards.length === 0 && (
+              <tr>
+                <td colSpan={onPairCards ? 11 : 10} className="p-6 text-center text-muted-foreground">
+                  No cards with low-confidence fields.
+                </td>
+              </tr>
+            )}
+            {visibleCards.map((card) => (
               <tr key={card.id} className="border-b border-border hover:bg-muted/50 transition-smooth">
+                {onPairCards && (
+                  <td className="p-3">
+                    <Checkbox
+                      checked={selectedIds.includes(card.id)}
+                      onCheckedChange={(checked) => toggleSelected(card.id, checked === true)}
+                      aria-label="Select card"
+                    />
+                  </td>
+                )}
                 {editingId === card.id && editData ? (
                   <>
                     <td className="p-2">
-                      <Input
-                        value={editData.name}
-                        onChange={(e) => setEditData({ ...editData, name: e.target.value })}
-                        className="min-w-[120px]"
+                      <PersonNameEditor
+                        name={editData.name}
+                        parts={getNameParts(editData)}
+                        onChange={(updates) => setEditData({ ...editData, ...updates })}
+                        className="min-w-[220px]"
                       />
                     </td>
                     <td className="p-2">
@@ -379,36 +468,46 @@ Best regards,
                       />
                     </td>
                     <td className="p-2">
-                      <Input
-                        value={editData.email}
-                        onChange={(e) => setEditData({ ...editData, email: e.target.value })}
-                        className="min-w-[150px]"
+                      <ContactListEditor
+                        field="email"
+                        values={getContactList(editData, "email")}
+                        onChange={(values) => setEditList("email", values)}
+                        className="min-w-[220px]"
                       />
                     </td>
                     <td className="p-2">
-                      <Input
-                        value={editData.phone}
-                        onChange={(e) => setEditData({ ...editData, phone: e.target.value })}
-                        className="min-w-[120px]"
+                      <ContactListEditor
+                        field="phone"
+                        values={getContactList(editData, "phone")}
+                        onChange={(values) => setEditList("phone", values)}
+                        className="min-w-[220px]"
                       />
                     </td>
                     <td className="p-2">
-                      <Input
-                        value={editData.website}
-                        onChange={(e) => setEditData({ ...editData, website: e.target.value })}
-                        className="min-w-[150px]"
+                      <ContactListEditor
+                        field="website"
+                        values={getContactList(editData, "website")}
+                        onChange={(values) => setEditList("website", values)}
+                        className="min-w-[220px]"
                       />
                     </td>
                     <td className="p-2">
-                      <Input
-                        value={editData.address}
-                        onChange={(e) => setEditData({ ...editData, address: e.target.value })}
-                        className="min-w-[200px]"
+                      <SocialProfileEditor
+                        profiles={editData.socialProfiles || []}
+                        onChange={(socialProfiles) => setEditData({ ...editData, socialProfiles })}
+                        className="min-w-[220px]"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <PostalAddressEditor
+                        value={getAddressParts(editData)}
+                        onChange={(addressParts) => setEditData({ ...editData, addressParts })}
+                        className="min-w-[260px]"
                       />
                     </td>
                     <td className="p-2">
                       <div className="text-xs text-muted-foreground truncate max-w-[100px]" title="Image data included in CSV export">
-                        Image Data
+                        {card.backImageData ? "Front + back" : "Image Data"}
                       </div>
                     </td>
                     <td className="p-2">
@@ -424,22 +523,76 @@ Best regards,
                   </>
                 ) : (
                   <>
-                    <td className="p-3 text-foreground">{card.name}</td>
-                    <td className="p-3 text-foreground">{card.company}</td>
-                    <td className="p-3 text-foreground">{card.designation}</td>
-                    <td className="p-3 text-foreground">{card.email}</td>
-                    <td className="p-3 text-foreground">{card.phone}</td>
-                    <td className="p-3 text-foreground">{card.website}</td>
-                    <td className="p-3 text-foreground max-w-[200px] truncate" title={card.address}>
+                    <td
+                      className={cn("p-3 text-foreground", confidenceClass(card, "name"))}
+                      title={[nameTitle(card), confidenceTitle(card, "name")].filter(Boolean).join("\n")}
+                    >
+                      {card.name}
+                      {qrBadge(card, "name")}
+                    </td>
+                    <td className={cn("p-3 text-foreground", confidenceClass(card, "company"))} title={confidenceTitle(card, "company")}>
+                      {card.company}
+                      {qrBadge(card, "company")}
+                    </td>
+                    <td className={cn("p-3 text-foreground", confidenceClass(card, "designation"))} title={confidenceTitle(card, "designation")}>
+                      {card.designation}
+                      {qrBadge(card, "designation")}
+                    </td>
+                    <td className={cn("p-3 text-foreground", confidenceClass(card, "email"))} title={confidenceTitle(card, "email")}>
+                      <ContactList values={getContactList(card, "email")} />
+                      {qrBadge(card, "email")}
+                      {correctedBadge(card, "email")}
+                    </td>
+                    <td className={cn("p-3 text-foreground", confidenceClass(card, "phone"))} title={confidenceTitle(card, "phone")}>
+                      <ContactList
+                        values={getContactList(card, "phone")}
+                        formatValue={(value) => formatPhoneNumber(value, phoneSettings.display)}
+                      />
+                      {qrBadge(card, "phone")}
+                      {correctedBadge(card, "phone")}
+                    </td>
+                    <td className={cn("p-3 text-foreground", confidenceClass(card, "website"))} title={confidenceTitle(card, "website")}>
+                      <ContactList values={getContactList(card, "website")} />
+                      {qrBadge(card, "website")}
+                      {correctedBadge(card, "website")}
+                    </td>
+                    <td className="p-3 text-foreground">
+                      <SocialProfileList profiles={card.socialProfiles || []} />
+                    </td>
+                    <td
+                      className={cn("p-3 text-foreground max-w-[200px] truncate", confidenceClass(card, "address"))}
+                      title={[addressTitle(card), confidenceTitle(card, "address")].filter(Boolean).join("\n")}
+                    >
                       {card.address}
+                      {qrBadge(card, "address")}
                     </td>
                     <td className="p-3">
                       <div className="text-xs text-muted-foreground truncate max-w-[100px]" title="Image data included in CSV export">
-                        Image Data
+                        {card.backImageData ? "Front + back" : "Image Data"}
                       </div>
                     </td>
                     <td className="p-3">
                       <div className="flex gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setReviewId(card.id)}
+                          className="h-8 w-8 text-primary hover:bg-primary/10"
+                          title="Review on card image"
+                        >
+                          <ScanSearch className="h-4 w-4" />
+                        </Button>
+                        {onReparseCards && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setRawTextId(card.id)}
+                            className="h-8 w-8 text-muted-foreground hover:bg-muted"
+                            title="View raw OCR text"
+                          >
+                            <FileText className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           size="icon"
                           variant="ghost"
@@ -448,6 +601,17 @@ Best regards,
                         >
                           <Edit2 className="h-4 w-4" />
                         </Button>
+                        {card.sides && onUnpairCard && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => onUnpairCard(card.id)}
+                            className="h-8 w-8 text-muted-foreground hover:bg-muted"
+                            title="Split into front and back cards"
+                          >
+                            <Unlink className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           size="icon"
                           variant="ghost"
@@ -465,6 +629,23 @@ Best regards,
           </tbody>
         </table>
       </div>
+
+      {reviewCard && (
+        <CardReviewDialog
+          card={reviewCard}
+          onUpdateCard={onUpdateCard}
+          onClose={() => setReviewId(null)}
+          defaultCountry={resolveDefaultCountry(phoneSettings)}
+        />
+      )}
+
+      {rawTextCard && onReparseCards && (
+        <CardRawTextDialog
+          card={rawTextCard}
+          onReparse={(id) => onReparseCards([id])}
+          onClose={() => setRawTextId(null)}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, RefreshCw } from "lucide-react";
+import type { CardData, CardSide } from "@/utils/ocrProcessor";
+import { canReparse } from "@/utils/cardReparse";
+import { OCR_ENGINE_CHOICES } from "@/utils/ocrEngine";
+import { CARD_FIELD_LABELS } from "@/utils/fieldConfidence";
+
+interface CardRawTextDialogProps {
+  card: CardData;
+  onReparse: (id: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+const SideText = ({ label, side }: { label?: string; side: CardSide }) => {
+  const engine = OCR_ENGINE_CHOICES.find((choice) => choice.id === side.ocr?.engine);
+
+  return (
+    <section className="space-y-1">
+      {label && <h3 className="text-sm font-semibold text-foreground">{label}</h3>}
+      {side.ocr && (
+        <p className="text-xs text-muted-foreground">
+          {engine?.label ?? side.ocr.engine} · {side.ocr.languages} · read {formatTime(side.ocr.completedAt)} in{" "}
+          {Math.max(0, Math.round((Date.parse(side.ocr.completedAt) - Date.parse(side.ocr.startedAt)) / 1000))}s
+          {side.ocr.parsedAt > side.ocr.completedAt && ` · re-parsed ${formatTime(side.ocr.parsedAt)}`}
+        </p>
+      )}
+      {side.rawText !== undefined ? (
+        <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words rounded-md border border-border bg-muted/50 p-3 font-mono text-xs text-foreground">
+          {side.rawText || "(no text was read)"}
+        </pre>
+      ) : (
+        <p className="text-sm text-muted-foreground">No OCR text was kept for this scan.</p>
+      )}
+    </section>
+  );
+};
+
+// What the OCR engine read on a card, before the parser split it into fields
+export const CardRawTextDialog = ({ card, onReparse, onClose }: CardRawTextDialogProps) => {
+  const [isReparsing, setIsReparsing] = useState(false);
+  const keptFields = [...(card.editedFields || []), ...(card.qrFields || [])];
+
+  const handleReparse = async () => {
+    setIsReparsing(true);
+    try {
+      await onReparse(card.id);
+    } finally {
+      setIsReparsing(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Raw OCR text</DialogTitle>
+          <DialogDescription>
+            Re-parse to run the current parser over this text again.
+            {keptFields.length > 0 &&
+              ` ${keptFields.map((field) => CARD_FIELD_LABELS[field]).join(", ")} will be kept as they were corrected or read from a QR code.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {card.sides ? (
+            card.sides.map((side, index) => (
+              <SideText key={index} label={index === 0 ? "Front" : "Back"} side={side} />
+            ))
+          ) : (
+            <SideText side={card} />
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button onClick={handleReparse} disabled={!canReparse(card) || isReparsing}>
+            {isReparsing ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-1 h-4 w-4" />}
+            Re-parse
+          </Button>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
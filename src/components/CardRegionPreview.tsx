@@ -0,0 +1,81 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { DetectedCardRegions } from "@/utils/multiCardSplitter";
+
+interface CardRegionPreviewProps {
+  detected: DetectedCardRegions;
+  onConfirm: () => void; // Process each detected region as its own card
+  onUseWholeImage: () => void;
+  onCancel: () => void;
+}
+
+export const CardRegionPreview = ({ detected, onConfirm, onUseWholeImage, onCancel }: CardRegionPreviewProps) => {
+  const count = detected.regions.length;
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {count > 0 ? `${count} card${count !== 1 ? "s" : ""} detected` : "No separate cards detected"}
+          </DialogTitle>
+          <DialogDescription>
+            {count > 0
+              ? "Each outlined card will be cropped and scanned as its own row."
+              : "The cards could not be told apart from the background. You can still scan the whole image as one card."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative rounded-lg overflow-hidden border border-border">
+          <img src={detected.imageData} alt="Detected cards" className="w-full h-auto block" />
+          <svg
+            viewBox={`0 0 ${detected.width} ${detected.height}`}
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full"
+          >
+            {detected.regions.map((quad, index) => {
+              const labelX = (quad[0].x + quad[2].x) / 2;
+              const labelY = (quad[0].y + quad[2].y) / 2;
+              const fontSize = Math.max(24, detected.width / 30);
+              return (
+                <g key={index}>
+                  <polygon
+                    points={quad.map((p) => `${p.x},${p.y}`).join(" ")}
+                    className="fill-primary/20 stroke-primary"
+                    strokeWidth={Math.max(3, detected.width / 300)}
+                  />
+                  <text
+                    x={labelX}
+                    y={labelY}
+                    fontSize={fontSize}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    className="fill-primary-foreground font-bold"
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={fontSize / 8}
+                    paintOrder="stroke"
+                  >
+                    {index + 1}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button variant="secondary" onClick={onUseWholeImage}>Scan as one card</Button>
+          {count > 0 && <Button onClick={onConfirm}>Scan {count} card{count !== 1 ? "s" : ""}</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,310 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, ScanText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { recognizeCardRegion, type CardData } from "@/utils/ocrProcessor";
+import { loadDefaultOcrLanguage } from "@/utils/ocrLanguages";
+import { isContactField, setPrimaryContactValue } from "@/utils/contactValues";
+import { setAddressText } from "@/utils/postalAddress";
+import { setNameText } from "@/utils/personName";
+import { normalizeCardPhones, type CountryCode } from "@/utils/phoneNumbers";
+import { CARD_FIELDS, CARD_FIELD_LABELS, type CardField, type FieldSource, type OcrBox } from "@/utils/fieldConfidence";
+
+const FIELD_COLORS: Record<CardField, string> = {
+  name: "#2563eb",
+  company: "#9333ea",
+  designation: "#0891b2",
+  email: "#16a34a",
+  phone: "#ea580c",
+  website: "#db2777",
+  address: "#ca8a04",
+};
+
+// Selections smaller than this (in image pixels) are treated as clicks
+const MIN_SELECTION_SIZE = 8;
+
+interface CardReviewDialogProps {
+  card: CardData;
+  onUpdateCard: (id: string, updates: Partial<CardData>) => void;
+  onClose: () => void;
+  defaultCountry?: CountryCode; // For reading phone numbers without a country code
+}
+
+export const CardReviewDialog = ({ card, onUpdateCard, onClose, defaultCountry }: CardReviewDialogProps) => {
+  const [side, setSide] = useState<FieldSource["side"]>("front");
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [selection, setSelection] = useState<OcrBox | null>(null);
+  const [targetField, setTargetField] = useState<CardField>("name");
+  const [highlightField, setHighlightField] = useState<CardField | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  const readControllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const imageData = side === "back" && card.backImageData ? card.backImageData : card.imageData;
+
+  // Boxes and selections refer to the image on screen, so reset them when it changes
+  useEffect(() => {
+    setImageSize(null);
+    setSelection(null);
+  }, [imageData]);
+
+  // Stop a region read that is still running when the dialog closes
+  useEffect(() => () => readControllerRef.current?.abort(), []);
+
+  // Convert a pointer position to pixel coordinates in the card image
+  const toImagePoint = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const width = imageSize?.width ?? rect.width;
+    const height = imageSize?.height ?? rect.height;
+    return {
+      x: Math.min(width, Math.max(0, ((e.clientX - rect.left) / rect.width) * width)),
+      y: Math.min(height, Math.max(0, ((e.clientY - rect.top) / rect.height) * height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (isReading) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    dragStartRef.current = point;
+    setSelection({ x0: point.x, y0: point.y, x1: point.x, y1: point.y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = toImagePoint(e);
+    setSelection({
+      x0: Math.min(start.x, point.x),
+      y0: Math.min(start.y, point.y),
+      x1: Math.max(start.x, point.x),
+      y1: Math.max(start.y, point.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    setSelection((current) =>
+      current && current.x1 - current.x0 >= MIN_SELECTION_SIZE && current.y1 - current.y0 >= MIN_SELECTION_SIZE
+        ? current
+        : null
+    );
+  };
+
+  const handleReadSelection = async () => {
+    if (!selection) return;
+    const controller = new AbortController();
+    readControllerRef.current = controller;
+    setIsReading(true);
+    try {
+      const result = await recognizeCardRegion(
+        imageData,
+        selection,
+        targetField,
+        loadDefaultOcrLanguage(),
+        controller.signal
+      );
+      if (!result.text) {
+        toast({
+          title: "No text found",
+          description: "Nothing could be read in the selected area. Try drawing a slightly larger box.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const confidence = { ...card.confidence };
+      if (result.confidence === undefined) {
+        delete confidence[targetField];
+      } else {
+        confidence[targetField] = result.confidence;
+      }
+      const value = isContactField(targetField)
+        ? setPrimaryContactValue(card, targetField, result.text)
+        : targetField === "address"
+          ? setAddressText(result.text)
+          : targetField === "name"
+            ? setNameText(result.text)
+            : { [targetField]: result.text };
+      onUpdateCard(card.id, {
+        ...value,
+        ...(targetField === "phone" && normalizeCardPhones({ ...card, ...value }, defaultCountry)),
+        confidence,
+        sources: { ...card.sources, [targetField]: { side, boxes: result.boxes } },
+        qrFields: card.qrFields?.filter((field) => field !== targetField),
+        editedFields: Array.from(new Set([...(card.editedFields || []), targetField])),
+      });
+      setSelection(null);
+      toast({
+        title: "Field updated",
+        description: `${CARD_FIELD_LABELS[targetField]} set to "${result.text}"`,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Region OCR error:", error);
+      toast({
+        title: "Reading failed",
+        description: (error as Error).message || "Could not read the selected area. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      readControllerRef.current = null;
+      setIsReading(false);
+    }
+  };
+
+  const strokeWidth = imageSize ? Math.max(2, imageSize.width / 400) : 2;
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Review card</DialogTitle>
+          <DialogDescription>
+            Boxes show where each field was read. Drag a rectangle on the card to read that area into a field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2 space-y-2">
+            {card.backImageData && (
+              <div className="flex gap-2">
+                <Button size="sm" variant={side === "front" ? "default" : "outline"} onClick={() => setSide("front")}>
+                  Front
+                </Button>
+                <Button size="sm" variant={side === "back" ? "default" : "outline"} onClick={() => setSide("back")}>
+                  Back
+                </Button>
+              </div>
+            )}
+
+            <div className="relative rounded-lg overflow-hidden border border-border select-none">
+              <img
+                src={imageData}
+                alt="Business card"
+                className="w-full h-auto block"
+                onLoad={(e) =>
+                  setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })
+                }
+              />
+              {imageSize && (
+                <svg
+                  viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                  preserveAspectRatio="none"
+                  className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                >
+                  {CARD_FIELDS.map((field) => {
+                    const source = card.sources?.[field];
+                    if (!source || source.side !== side) return null;
+                    if (highlightField && highlightField !== field) return null;
+                    return source.boxes.map((box, index) => (
+                      <rect
+                        key={`${field}-${index}`}
+                        x={box.x0}
+                        y={box.y0}
+                        width={box.x1 - box.x0}
+                        height={box.y1 - box.y0}
+                        fill={FIELD_COLORS[field]}
+                        fillOpacity={0.15}
+                        stroke={FIELD_COLORS[field]}
+                        strokeWidth={strokeWidth}
+                      />
+                    ));
+                  })}
+                  {selection && (
+                    <rect
+                      x={selection.x0}
+                      y={selection.y0}
+                      width={selection.x1 - selection.x0}
+                      height={selection.y1 - selection.y0}
+                      fill="none"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={strokeWidth}
+                      strokeDasharray={`${strokeWidth * 4} ${strokeWidth * 2}`}
+                    />
+                  )}
+                </svg>
+              )}
+            </div>
+          </div>
+
+          <ul className="space-y-1 text-sm">
+            {CARD_FIELDS.map((field) => (
+              <li
+                key={field}
+                className={cn(
+                  "flex items-start gap-2 rounded-md p-1.5 transition-smooth",
+                  highlightField === field && "bg-muted"
+                )}
+                onMouseEnter={() => setHighlightField(field)}
+                onMouseLeave={() => setHighlightField(null)}
+              >
+                <span
+                  className="mt-1 h-3 w-3 shrink-0 rounded-sm"
+                  style={{ backgroundColor: FIELD_COLORS[field] }}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="text-xs text-muted-foreground">
+                    {CARD_FIELD_LABELS[field]}
+                    {card.qrFields?.includes(field)
+                      ? " · QR code"
+                      : card.confidence?.[field] !== undefined && ` · ${card.confidence[field]}%`}
+                    {card.sources?.[field] && card.backImageData && ` · ${card.sources[field]?.side}`}
+                  </div>
+                  <div className="break-words text-foreground">{card[field] || "—"}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <DialogFooter className="gap-2 sm:items-end">
+          {selection && (
+            <div className="flex flex-1 items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="region-field" className="text-xs text-muted-foreground">Read selected area into</Label>
+                <Select value={targetField} onValueChange={(value) => setTargetField(value as CardField)}>
+                  <SelectTrigger id="region-field" className="h-9 w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CARD_FIELDS.map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {CARD_FIELD_LABELS[field]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleReadSelection} disabled={isReading}>
+                {isReading ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <ScanText className="mr-1 h-4 w-4" />}
+                Read area
+              </Button>
+              {isReading && (
+                <Button variant="ghost" onClick={() => readControllerRef.current?.abort()}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          )}
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
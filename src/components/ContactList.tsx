@@ -0,0 +1,91 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Plus, X } from "lucide-react";
+import {
+  CONTACT_TYPES,
+  CONTACT_TYPE_LABELS,
+  type ContactField,
+  type ContactType,
+  type ContactValue,
+} from "@/utils/contactValues";
+
+interface ContactListProps {
+  values: ContactValue[];
+  formatValue?: (value: string) => string; // e.g. national or international phone format
+}
+
+// Every value of a field, labelled with its type unless it is a plain work value
+export const ContactList = ({ values, formatValue = (value) => value }: ContactListProps) => (
+  <ul className="space-y-0.5">
+    {values.map((entry, index) => (
+      <li key={index} className={index > 0 ? "text-sm text-muted-foreground" : undefined}>
+        {entry.type !== "work" && (
+          <span className="mr-1 text-xs text-muted-foreground">{CONTACT_TYPE_LABELS[entry.type]}:</span>
+        )}
+        {formatValue(entry.value)}
+        {entry.invalid && (
+          <span title="Not a valid phone number">
+            <AlertTriangle className="ml-1 inline h-3 w-3 text-destructive" />
+          </span>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+interface ContactListEditorProps {
+  field: ContactField;
+  values: ContactValue[];
+  onChange: (values: ContactValue[]) => void;
+  className?: string;
+}
+
+// Edit a list of typed values. The first entry is the one shown in the field's column and matched by QR data.
+export const ContactListEditor = ({ field, values, onChange, className }: ContactListEditorProps) => {
+  const updateEntry = (index: number, updates: Partial<ContactValue>) => {
+    onChange(values.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)));
+  };
+
+  return (
+    <div className={className}>
+      <ul className="space-y-1">
+        {values.map((entry, index) => (
+          <li key={index} className="flex items-center gap-1">
+            <Select value={entry.type} onValueChange={(value) => updateEntry(index, { type: value as ContactType })}>
+              <SelectTrigger className="h-9 w-24 shrink-0 px-2 text-xs" aria-label="Type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONTACT_TYPES[field].map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {CONTACT_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input value={entry.value} onChange={(e) => updateEntry(index, { value: e.target.value })} />
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 shrink-0 text-muted-foreground"
+              title="Remove"
+              onClick={() => onChange(values.filter((_, i) => i !== index))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="mt-1 h-7 px-2 text-xs"
+        onClick={() => onChange([...values, { value: "", type: "work" }])}
+      >
+        <Plus className="mr-1 h-3 w-3" />
+        Add
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, Phone } from "lucide-react";
+import {
+  PHONE_COUNTRIES,
+  countryFromLocale,
+  type CountryCode,
+  type PhoneDisplayFormat,
+  type PhoneSettings,
+} from "@/utils/phoneNumbers";
+
+interface ContactParsingSettingsProps {
+  settings: PhoneSettings;
+  onChange: (settings: PhoneSettings) => void;
+}
+
+// Radix Select items cannot have an empty value
+const AUTO_COUNTRY = "auto";
+
+export const ContactParsingSettings = ({ settings, onChange }: ContactParsingSettingsProps) => {
+  const [open, setOpen] = useState(false);
+
+  const countries = useMemo(() => {
+    const names = new Intl.DisplayNames(undefined, { type: "region" });
+    return PHONE_COUNTRIES.map((code) => ({ code, name: names.of(code) ?? code })).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }, []);
+  const localeCountry = countryFromLocale();
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border border-border bg-muted/30">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between px-4 text-sm font-semibold">
+          <span className="flex items-center gap-2">
+            <Phone className="h-4 w-4" />
+            Phone Numbers
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <Label htmlFor="phone-country" className="text-sm">Default country</Label>
+            <p className="text-xs text-muted-foreground">
+              For numbers without a country code, when neither the address nor the email or website domain
+              names a country
+            </p>
+          </div>
+          <Select
+            value={settings.defaultCountry || AUTO_COUNTRY}
+            onValueChange={(value) =>
+              onChange({ ...settings, defaultCountry: value === AUTO_COUNTRY ? "" : (value as CountryCode) })
+            }
+          >
+            <SelectTrigger id="phone-country" className="h-9 w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_COUNTRY}>
+                Browser region{localeCountry ? ` (${localeCountry})` : ""}
+              </SelectItem>
+              {countries.map((country) => (
+                <SelectItem key={country.code} value={country.code}>
+                  {country.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-border pt-3">
+          <div>
+            <Label htmlFor="phone-display" className="text-sm">Display format</Label>
+            <p className="text-xs text-muted-foreground">Numbers are always stored and exported with their country code</p>
+          </div>
+          <Select
+            value={settings.display}
+            onValueChange={(value) => onChange({ ...settings, display: value as PhoneDisplayFormat })}
+          >
+            <SelectTrigger id="phone-display" className="h-9 w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="international">International (+1 212 555 0100)</SelectItem>
+              <SelectItem value="national">National ((212) 555-0100)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, SlidersHorizontal } from "lucide-react";
+import {
+  ENHANCEMENT_FILTERS,
+  type EnhancementDebugImage,
+  type EnhancementOptions,
+} from "@/utils/imageEnhancement";
+
+interface EnhancementSettingsProps {
+  options: EnhancementOptions;
+  onChange: (options: EnhancementOptions) => void;
+  debugImages: EnhancementDebugImage[];
+}
+
+export const EnhancementSettings = ({ options, onChange, debugImages }: EnhancementSettingsProps) => {
+  const [open, setOpen] = useState(false);
+
+  const setOption = (key: keyof EnhancementOptions, value: boolean) => {
+    onChange({ ...options, [key]: value });
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border border-border bg-muted/30">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between px-4 text-sm font-semibold">
+          <span className="flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4" />
+            Image Enhancement
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {ENHANCEMENT_FILTERS.map((filter) => (
+            <div key={filter.key} className="flex items-start justify-between gap-3">
+              <div>
+                <Label htmlFor={`enhance-${filter.key}`} className="text-sm">{filter.label}</Label>
+                <p className="text-xs text-muted-foreground">{filter.description}</p>
+              </div>
+              <Switch
+                id={`enhance-${filter.key}`}
+                checked={options[filter.key]}
+                onCheckedChange={(checked) => setOption(filter.key, checked)}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-border pt-3">
+          <div>
+            <Label htmlFor="enhance-debug" className="text-sm">Debug view</Label>
+            <p className="text-xs text-muted-foreground">Show the image after each filter for the next scan</p>
+          </div>
+          <Switch
+            id="enhance-debug"
+            checked={options.debug}
+            onCheckedChange={(checked) => setOption("debug", checked)}
+          />
+        </div>
+
+        {options.debug && debugImages.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {debugImages.map((step) => (
+              <figure key={step.id} className="space-y-1">
+                <img
+                  src={step.imageData}
+                  alt={`${step.label} step`}
+                  className="w-full h-auto rounded border border-border bg-background"
+                />
+                <figcaption className="text-xs text-muted-foreground">
+                  {step.label}
+                  {step.detail && <span className="ml-1">({step.detail})</span>}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
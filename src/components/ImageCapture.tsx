@@ -1,11 +1,58 @@
 import { useRef, useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Camera, Upload, X, RotateCcw } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { PdfPageRangeDialog } from "@/components/PdfPageRangeDialog";
+import { CardRegionPreview } from "@/components/CardRegionPreview";
+import { QualityWarningDialog } from "@/components/QualityWarningDialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, Upload, X, RotateCcw, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import {
+  AUTO_DETECT_LANGUAGE,
+  OCR_LANGUAGES,
+  loadDefaultOcrLanguage,
+  saveDefaultOcrLanguage,
+} from "@/utils/ocrLanguages";
+import { loadPdfDocument, renderPdfPages } from "@/utils/pdfRasterizer";
+import { decodeHeic, isHeicFile } from "@/utils/heicDecoder";
+import { QUALITY_ISSUE_MESSAGES, assessImageQuality, type ImageQualityReport } from "@/utils/imageQuality";
+import { extractCardRegions, findCardRegions, type DetectedCardRegions } from "@/utils/multiCardSplitter";
+import { createSidePairer, type SidePairer } from "@/utils/sidePairing";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+// PDFs with more pages than this ask which pages to scan
+const PDF_PAGE_PICKER_THRESHOLD = 3;
+
+interface PendingPdf {
+  fileName: string;
+  pdf: PDFDocumentProxy;
+}
+
+// An image that failed the quality check and waits for the user's decision
+interface LowQualityImage {
+  imageData: string;
+  report: ImageQualityReport;
+  label: string;
+  fromCamera: boolean;
+}
+
+// Where a submitted image came from. Images from batches are flagged instead of prompting for each one.
+interface ImageSource {
+  label?: string;
+  batch?: boolean;
+  fromCamera?: boolean;
+}
+
+// Per-scan settings chosen in the capture UI
+export interface CaptureOptions {
+  language: string;
+  backImageData?: string; // Set when the image is the front of a two-sided card
+}
 
 interface ImageCaptureProps {
-  onImageCapture: (imageData: string) => void;
+  onImageCapture: (imageData: string, options: CaptureOptions) => void;
 }
 
 export const ImageCapture = ({ onImageCapture }: ImageCaptureProps) => {
@@ -14,6 +61,16 @@ export const ImageCapture = ({ onImageCapture }: ImageCaptureProps) => {
   const [showCamera, setShowCamera] = useState(false);
   const [isLandscape, setIsLandscape] = useState(window.innerWidth > window.innerHeight);
   const [cameraError, setCameraError] = useState<string | null>(null);
+  const [language, setLanguage] = useState<string>(() => loadDefaultOcrLanguage());
+  const [pendingPdfs, setPendingPdfs] = useState<PendingPdf[]>([]);
+  const [multiCard, setMultiCard] = useState(false);
+  const [pendingSplits, setPendingSplits] = useState<DetectedCardRegions[]>([]);
+  const [twoSided, setTwoSided] = useState(false);
+  const [awaitingBack, setAwaitingBack] = useState<string | null>(null);
+  // Kept in a ref as well, since images from one upload arrive in the same render
+  const pendingFrontRef = useRef<string | null>(null);
+  const [pendingQuality, setPendingQuality] = useState<LowQualityImage[]>([]);
+  const [flaggedImages, setFlaggedImages] = useState<LowQualityImage[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -38,63 +95,326 @@ export const ImageCapture = ({ onImageCapture }: ImageCaptureProps) => {
     };
   }, [cameraStream]);
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files.length > 0) {
-      // Process all selected files
-      Array.from(files).forEach((file, index) => {
-        if (!file.type.startsWith("image/") && file.type !== "application/pdf") {
-          toast({
-            title: "Invalid file type",
-            description: "Please select an image or PDF file",
-            variant: "destructive",
-          });
-          return;
-        }
+  // The last selected language is remembered as the default for future scans
+  const handleLanguageChange = (value: string) => {
+    setLanguage(value);
+    saveDefaultOcrLanguage(value);
+  };
 
-        // Check file size (max 10MB)
-        if (file.size > 10 * 1024 * 1024) {
-          toast({
-            title: "File too large",
-            description: "Please select a file smaller than 10MB",
-            variant: "destructive",
-          });
-          return;
-        }
+  // In two-sided mode, hold the front until the back arrives and send them as a pair
+  const submitCardSide = (imageData: string) => {
+    const front = pendingFrontRef.current;
+    if (!front) {
+      pendingFrontRef.current = imageData;
+      setAwaitingBack(imageData);
+      return;
+    }
 
-        // Handle PDF files
-        if (file.type === "application/pdf") {
-          handlePdfFile(file, index);
-          return;
-        }
+    pendingFrontRef.current = null;
+    setAwaitingBack(null);
+    onImageCapture(front, { language, backImageData: imageData });
+  };
 
-        const reader = new FileReader();
-        reader.onload = (event) => {
-          const imageData = event.target?.result as string;
-          setPreview(imageData);
-          // Add a small delay between processing multiple files
-          setTimeout(() => {
-            onImageCapture(imageData);
-          }, index * 100);
-        };
-        reader.readAsDataURL(file);
+  // Sides paired within a two-sided batch. A card whose other side was set aside is scanned
+  // on its own; the last front of an odd batch waits for its back like a single capture.
+  const submitPairedSides = (sides: (string | null)[]) => {
+    const [front, back] = sides;
+    if (sides.length === 1) {
+      if (front) submitCardSide(front);
+    } else if (front && back) {
+      onImageCapture(front, { language, backImageData: back });
+    } else if (front || back) {
+      onImageCapture((front || back) as string, { language });
+    }
+  };
+
+  // Scan the waiting front on its own, for cards with nothing on the back
+  const skipBackSide = () => {
+    const front = pendingFrontRef.current;
+    pendingFrontRef.current = null;
+    setAwaitingBack(null);
+    if (front) {
+      onImageCapture(front, { language });
+    }
+  };
+
+  const handleTwoSidedChange = (checked: boolean) => {
+    setTwoSided(checked);
+    if (!checked) {
+      skipBackSide();
+    }
+  };
+
+  // Send an image for scanning. In multi-card mode, look for the separate cards
+  // first and let the user confirm them in the preview.
+  const routeImage = async (imageData: string) => {
+    if (!multiCard) {
+      if (twoSided) {
+        submitCardSide(imageData);
+      } else {
+        onImageCapture(imageData, { language });
+      }
+      return;
+    }
+
+    try {
+      const detected = await findCardRegions(imageData);
+      setPendingSplits(prev => [...prev, detected]);
+    } catch (error) {
+      console.warn("Card region detection failed, scanning the whole image", error);
+      onImageCapture(imageData, { language });
+    }
+  };
+
+  // Check sharpness, glare and resolution before scanning. Single captures ask
+  // whether to retake; batch uploads set poor images aside for review. Returns
+  // whether the image can be scanned now.
+  const checkImage = async (imageData: string, source: ImageSource = {}): Promise<boolean> => {
+    let report: ImageQualityReport | null = null;
+    try {
+      report = await assessImageQuality(imageData);
+    } catch (error) {
+      console.warn("Image quality check failed, scanning anyway", error);
+    }
+
+    if (report && report.issues.length > 0) {
+      console.log("Low image quality:", report);
+      const flagged: LowQualityImage = {
+        imageData,
+        report,
+        label: source.label || "Captured image",
+        fromCamera: !!source.fromCamera,
+      };
+      if (source.batch) {
+        setFlaggedImages(prev => [...prev, flagged]);
+      } else {
+        setPendingQuality(prev => [...prev, flagged]);
+      }
+      return false;
+    }
+    return true;
+  };
+
+  const submitImage = async (imageData: string, source: ImageSource = {}) => {
+    if (await checkImage(imageData, source)) {
+      routeImage(imageData);
+    }
+  };
+
+  const handleQualityUseAnyway = () => {
+    const [current, ...rest] = pendingQuality;
+    setPendingQuality(rest);
+    if (current) {
+      routeImage(current.imageData);
+    }
+  };
+
+  const handleQualityRetake = () => {
+    const [current, ...rest] = pendingQuality;
+    setPendingQuality(rest);
+    setPreview(null);
+    if (current?.fromCamera) {
+      startCamera();
+    } else {
+      fileInputRef.current?.click();
+    }
+  };
+
+  const scanFlaggedImage = (flagged: LowQualityImage) => {
+    setFlaggedImages(prev => prev.filter(item => item !== flagged));
+    routeImage(flagged.imageData);
+  };
+
+  const discardFlaggedImage = (flagged: LowQualityImage) => {
+    setFlaggedImages(prev => prev.filter(item => item !== flagged));
+  };
+
+  const handleSplitConfirmed = async () => {
+    const [current, ...rest] = pendingSplits;
+    setPendingSplits(rest);
+    if (!current) return;
+
+    try {
+      const cardImages = await extractCardRegions(current);
+      cardImages.forEach((cardImage) => onImageCapture(cardImage, { language }));
+    } catch (error) {
+      console.error("Card cropping error:", error);
+      toast({
+        title: "Cropping Failed",
+        description: "Could not cut out the detected cards. Scanning the whole image instead.",
+        variant: "destructive",
+      });
+      onImageCapture(current.imageData, { language });
+    }
+  };
+
+  const handleSplitWholeImage = () => {
+    const [current, ...rest] = pendingSplits;
+    setPendingSplits(rest);
+    if (current) {
+      onImageCapture(current.imageData, { language });
+    }
+  };
+
+  const handleSplitCancelled = () => {
+    setPendingSplits(prev => prev.slice(1));
+  };
+
+  // Decode HEIC photos in the browser. Burst and multi-page containers hold several images.
+  const handleHeicFile = async (file: File, index: number, batch: boolean, pairer: SidePairer | null) => {
+    try {
+      const images = await decodeHeic(file);
+      setPreview(images[0]);
+      if (pairer) {
+        const checked = images.map(async (imageData, imageIndex) => {
+          const label = images.length > 1 ? `${file.name} (image ${imageIndex + 1})` : file.name;
+          return (await checkImage(imageData, { label, batch: true })) ? imageData : null;
+        });
+        pairer.add(index, await Promise.all(checked));
+        return;
+      }
+      images.forEach((imageData, imageIndex) => {
+        const label = images.length > 1 ? `${file.name} (image ${imageIndex + 1})` : file.name;
+        // Add a small delay between processing multiple files
+        setTimeout(() => {
+          submitImage(imageData, { label, batch: batch || images.length > 1 });
+        }, (index + imageIndex) * 100);
+      });
+    } catch (error) {
+      console.error("HEIC decoding error:", error);
+      pairer?.add(index, []);
+      toast({
+        title: "Unsupported HEIC image",
+        description: `Could not decode "${file.name}". Try exporting it as JPEG from your photo app.`,
+        variant: "destructive",
       });
     }
   };
 
-  const handlePdfFile = (file: File, index: number) => {
+  // `pairer` pairs the files of a two-sided batch; every file reports to it, with no images when it has none to pair
+  const handleFile = async (file: File, index: number, batch: boolean, pairer: SidePairer | null) => {
+    // HEIC files often have no MIME type outside Safari, so check them first
+    const isHeic = await isHeicFile(file);
+
+    if (!isHeic && !file.type.startsWith("image/") && file.type !== "application/pdf") {
+      pairer?.add(index, []);
+      toast({
+        title: "Invalid file type",
+        description: "Please select an image or PDF file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Check file size (max 10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      pairer?.add(index, []);
+      toast({
+        title: "File too large",
+        description: "Please select a file smaller than 10MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isHeic) {
+      await handleHeicFile(file, index, batch, pairer);
+      return;
+    }
+
+    // Handle PDF files. Their pages are scanned as cards of their own, outside the batch's pairs.
+    if (file.type === "application/pdf") {
+      pairer?.add(index, []);
+      handlePdfFile(file);
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (event) => {
-      const pdfData = event.target?.result as string;
-      setPreview(pdfData);
+      const imageData = event.target?.result as string;
+      setPreview(imageData);
+      if (pairer) {
+        checkImage(imageData, { label: file.name, batch }).then((ok) => pairer.add(index, [ok ? imageData : null]));
+        return;
+      }
       // Add a small delay between processing multiple files
       setTimeout(() => {
-        onImageCapture(pdfData);
+        submitImage(imageData, { label: file.name, batch });
       }, index * 100);
     };
+    reader.onerror = () => pairer?.add(index, []);
     reader.readAsDataURL(file);
   };
 
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      // In two-sided mode the files of a batch are paired by their order, not by which is read first
+      const pairer = twoSided && !multiCard && files.length > 1 ? createSidePairer(files.length, submitPairedSides) : null;
+      // Process all selected files
+      Array.from(files).forEach((file, index) => {
+        handleFile(file, index, files.length > 1, pairer);
+      });
+    }
+  };
+
+  // Render the selected pages one by one and scan each page as its own card
+  const scanPdfPages = async (pdf: PDFDocumentProxy, pages: number[], fileName: string) => {
+    try {
+      await renderPdfPages(pdf, pages, (pageImage, pageNumber) => {
+        if (pageNumber === pages[0]) {
+          setPreview(pageImage);
+        }
+        submitImage(pageImage, { label: `${fileName}, page ${pageNumber}`, batch: pages.length > 1 });
+      });
+    } catch (error) {
+      console.error("PDF rendering error:", error);
+      toast({
+        title: "PDF Error",
+        description: `Failed to render pages from "${fileName}". Please try again.`,
+        variant: "destructive",
+      });
+    } finally {
+      pdf.destroy();
+    }
+  };
+
+  const handlePdfFile = async (file: File) => {
+    try {
+      const pdf = await loadPdfDocument(file);
+      
+      // Large PDFs go through the page picker first
+      if (pdf.numPages > PDF_PAGE_PICKER_THRESHOLD) {
+        setPendingPdfs(prev => [...prev, { fileName: file.name, pdf }]);
+        return;
+      }
+
+      const pages = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+      await scanPdfPages(pdf, pages, file.name);
+    } catch (error) {
+      console.error("PDF loading error:", error);
+      toast({
+        title: "Invalid PDF",
+        description: `Could not open "${file.name}". The file may be damaged or password protected.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePdfPagesSelected = (pages: number[]) => {
+    const [current, ...rest] = pendingPdfs;
+    setPendingPdfs(rest);
+    if (current) {
+      scanPdfPages(current.pdf, pages, current.fileName);
+    }
+  };
+
+  const handlePdfCancelled = () => {
+    const [current, ...rest] = pendingPdfs;
+    setPendingPdfs(rest);
+    current?.pdf.destroy();
+  };
+
   const clearImage = () => {
     setPreview(null);
     setCameraError(null);
@@ -300,7 +620,7 @@ export const ImageCapture = ({ onImageCapture }: ImageCaptureProps) => {
         // Validate image data before sending
         if (imageData && imageData.length > 0) {
           setPreview(imageData);
-          onImageCapture(imageData);
+          submitImage(imageData, { fromCamera: true });
         } else {
           toast({
             title: "Image Capture Failed",
@@ -347,10 +667,45 @@ export const ImageCapture = ({ onImageCapture }: ImageCaptureProps) => {
         )}
         
         <div className="flex flex-col gap-1">
+          <Label htmlFor="ocr-language" className="text-xs text-muted-foreground">Card language</Label>
+          <Select value={language} onValueChange={handleLanguageChange}>
+            <SelectTrigger id="ocr-language" className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_DETECT_LANGUAGE} className="text-xs">Detect automatically</SelectItem>
+              {OCR_LANGUAGES.map((lang) => (
+                <SelectItem key={lang.code} value={lang.code} className="text-xs">
+                  {lang.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center justify-between py-1">
+            <Label htmlFor="multi-card" className="text-xs text-muted-foreground">Multiple cards per image</Label>
+            <Switch id="multi-card" checked={multiCard} onCheckedChange={setMultiCard} />
+          </div>
+
+          <div className="flex items-center justify-between py-1">
+            <Label htmlFor="two-sided" className="text-xs text-muted-foreground">Two-sided cards</Label>
+            <Switch id="two-sided" checked={twoSided} disabled={multiCard} onCheckedChange={handleTwoSidedChange} />
+          </div>
+
+          {awaitingBack && (
+            <div className="flex items-center gap-2 rounded-md border border-primary/40 bg-primary/5 p-1.5">
+              <img src={awaitingBack} alt="Front side" className="h-8 w-12 rounded object-cover" />
+              <p className="flex-1 text-xs text-foreground">Front captured. Now capture or upload the back side.</p>
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={skipBackSide}>
+                Skip back side
+              </Button>
+            </div>
+          )}
+
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/*,application/pdf"
+            accept="image/*,.heic,.heif,application/pdf"
             onChange={handleFileSelect}
             className="hidden"
             id="file-upload"
@@ -433,6 +788,70 @@ export const ImageCapture = ({ onImageCapture }: ImageCaptureProps) => {
             </Button>
           </div>
         )}
+
+        {pendingPdfs.length > 0 && (
+          <PdfPageRangeDialog
+            open
+            fileName={pendingPdfs[0].fileName}
+            pageCount={pendingPdfs[0].pdf.numPages}
+            onConfirm={handlePdfPagesSelected}
+            onCancel={handlePdfCancelled}
+          />
+        )}
+
+        {flaggedImages.length > 0 && (
+          <div className="space-y-1.5 rounded-md border border-yellow-500/50 bg-yellow-50 p-2 dark:bg-yellow-900/20">
+            <div className="flex items-center justify-between gap-2">
+              <p className="flex items-center text-xs font-medium text-foreground">
+                <AlertTriangle className="mr-1 h-3 w-3 text-yellow-500" />
+                {flaggedImages.length} image{flaggedImages.length !== 1 ? "s" : ""} set aside for low quality
+              </p>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => flaggedImages.forEach(scanFlaggedImage)}
+              >
+                Scan all anyway
+              </Button>
+            </div>
+            {flaggedImages.map((flagged, index) => (
+              <div key={`${flagged.label}-${index}`} className="flex items-center gap-2">
+                <img src={flagged.imageData} alt={flagged.label} className="h-8 w-12 shrink-0 rounded object-cover" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-xs text-foreground">{flagged.label}</p>
+                  <p className="truncate text-[10px] text-muted-foreground" title={flagged.report.issues.map(issue => QUALITY_ISSUE_MESSAGES[issue]).join(" ")}>
+                    {flagged.report.issues.map(issue => QUALITY_ISSUE_MESSAGES[issue]).join(" ")}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => scanFlaggedImage(flagged)}>
+                  Scan
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => discardFlaggedImage(flagged)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pendingQuality.length > 0 && pendingPdfs.length === 0 && (
+          <QualityWarningDialog
+            imageData={pendingQuality[0].imageData}
+            report={pendingQuality[0].report}
+            onRetake={handleQualityRetake}
+            onUseAnyway={handleQualityUseAnyway}
+          />
+        )}
+
+        {pendingSplits.length > 0 && pendingPdfs.length === 0 && pendingQuality.length === 0 && (
+          <CardRegionPreview
+            detected={pendingSplits[0]}
+            onConfirm={handleSplitConfirmed}
+            onUseWholeImage={handleSplitWholeImage}
+            onCancel={handleSplitCancelled}
+          />
+        )}
       </div>
     </Card>
   );
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ScanText } from "lucide-react";
+import {
+  OCR_ENGINE_CHOICES,
+  isValidOcrEndpoint,
+  type OcrEngineId,
+  type OcrEngineSettings as OcrEngineSettingsValue,
+} from "@/utils/ocrEngine";
+import { OCR_TIMEOUT_CHOICES, type OcrJobSettings } from "@/utils/ocrJobs";
+
+interface OcrEngineSettingsProps {
+  settings: OcrEngineSettingsValue;
+  onChange: (settings: OcrEngineSettingsValue) => void;
+  jobSettings: OcrJobSettings;
+  onJobSettingsChange: (settings: OcrJobSettings) => void;
+}
+
+// Which engine reads the cards in this workspace, and how long a scan may take. Server details
+// are applied with Save, so a half-typed URL is never used for a scan.
+export const OcrEngineSettings = ({ settings, onChange, jobSettings, onJobSettingsChange }: OcrEngineSettingsProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const endpointValid = isValidOcrEndpoint(draft.httpEndpoint);
+  const changed = draft.httpEndpoint !== settings.httpEndpoint || draft.httpApiKey !== settings.httpApiKey;
+  const activeChoice = OCR_ENGINE_CHOICES.find((choice) => choice.id === settings.engine);
+
+  const handleEngineChange = (engine: OcrEngineId) => {
+    const next = { ...draft, engine };
+    setDraft(next);
+    // The server can only be switched to once it has a usable address
+    if (engine === "tesseract" || isValidOcrEndpoint(next.httpEndpoint)) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border border-border bg-muted/30">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between px-4 text-sm font-semibold">
+          <span className="flex items-center gap-2">
+            <ScanText className="h-4 w-4" />
+            OCR Engine
+            <span className="font-normal text-muted-foreground">({activeChoice?.label})</span>
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <Label htmlFor="ocr-engine" className="text-sm">Engine</Label>
+            <p className="text-xs text-muted-foreground">
+              {OCR_ENGINE_CHOICES.find((choice) => choice.id === draft.engine)?.description}
+            </p>
+          </div>
+          <Select value={draft.engine} onValueChange={(value) => handleEngineChange(value as OcrEngineId)}>
+            <SelectTrigger id="ocr-engine" className="h-9 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OCR_ENGINE_CHOICES.map((choice) => (
+                <SelectItem key={choice.id} value={choice.id}>
+                  {choice.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-border pt-3">
+          <div>
+            <Label htmlFor="ocr-timeout" className="text-sm">Scan timeout</Label>
+            <p className="text-xs text-muted-foreground">Give up on an attempt after this long and retry in sparse text mode</p>
+          </div>
+          <Select
+            value={String(jobSettings.timeoutSeconds)}
+            onValueChange={(value) => onJobSettingsChange({ ...jobSettings, timeoutSeconds: Number(value) })}
+          >
+            <SelectTrigger id="ocr-timeout" className="h-9 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OCR_TIMEOUT_CHOICES.map((seconds) => (
+                <SelectItem key={seconds} value={String(seconds)}>
+                  {seconds < 60 ? `${seconds} seconds` : `${seconds / 60} minute${seconds > 60 ? "s" : ""}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {draft.engine === "http" && (
+          <form
+            className="space-y-3 border-t border-border pt-3"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (endpointValid) onChange(draft);
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="ocr-endpoint" className="text-sm">Server URL</Label>
+              <Input
+                id="ocr-endpoint"
+                type="url"
+                placeholder="https://ocr.example.com/recognize"
+                value={draft.httpEndpoint}
+                onChange={(event) => setDraft({ ...draft, httpEndpoint: event.target.value.trim() })}
+              />
+              {draft.httpEndpoint && !endpointValid && (
+                <p className="text-xs text-destructive">Enter a full http:// or https:// address</p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ocr-api-key" className="text-sm">API key (optional)</Label>
+              <Input
+                id="ocr-api-key"
+                type="password"
+                autoComplete="off"
+                value={draft.httpApiKey}
+                onChange={(event) => setDraft({ ...draft, httpApiKey: event.target.value })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-muted-foreground">
+                {settings.engine === "http" ? "Cards are read by the server" : "Save to start using the server"}
+              </p>
+              <Button type="submit" size="sm" disabled={!endpointValid || (!changed && settings.engine === "http")}>
+                Save
+              </Button>
+            </div>
+          </form>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
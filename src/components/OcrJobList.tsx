@@ -0,0 +1,88 @@
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Loader2, RotateCcw, X } from "lucide-react";
+import { OCR_ATTEMPTS, type OcrJob } from "@/utils/ocrJobs";
+
+interface OcrJobListProps {
+  jobs: OcrJob[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const JobThumbnail = ({ job }: { job: OcrJob }) => (
+  <img src={job.imageData} alt="Business card" className="h-10 w-16 shrink-0 rounded border border-border object-cover" />
+);
+
+// Scans in progress, with a cancel button each, and the scans that failed
+export const OcrJobList = ({ jobs, onCancel, onRetry, onDismiss }: OcrJobListProps) => {
+  const activeJobs = jobs.filter((job) => job.status === "processing");
+  const failedJobs = jobs.filter((job) => job.status === "failed");
+
+  return (
+    <div className="space-y-4">
+      {activeJobs.length > 0 && (
+        <div className="rounded-lg border border-border p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+              <Loader2 className="h-4 w-4 animate-spin text-primary" />
+              Scanning {activeJobs.length} card{activeJobs.length !== 1 ? "s" : ""}
+            </h3>
+            {activeJobs.length > 1 && (
+              <Button variant="ghost" size="sm" onClick={() => activeJobs.forEach((job) => onCancel(job.id))}>
+                Cancel all
+              </Button>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {activeJobs.map((job) => (
+              <li key={job.id} className="flex items-center gap-3">
+                <JobThumbnail job={job} />
+                <p className="flex-1 text-sm text-muted-foreground">
+                  {job.backImageData ? "Two-sided card" : "Card"}
+                  {job.attempt > 1 &&
+                    ` · retry ${job.attempt - 1} of ${OCR_ATTEMPTS.length - 1} (${OCR_ATTEMPTS[job.attempt - 1].label.toLowerCase()} mode)`}
+                </p>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Cancel scan" onClick={() => onCancel(job.id)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {failedJobs.length > 0 && (
+        <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+              <AlertCircle className="h-4 w-4 text-destructive" />
+              Failed scans ({failedJobs.length})
+            </h3>
+            {failedJobs.length > 1 && (
+              <Button variant="ghost" size="sm" onClick={() => failedJobs.forEach((job) => onRetry(job.id))}>
+                Retry all
+              </Button>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {failedJobs.map((job) => (
+              <li key={job.id} className="flex items-center gap-3">
+                <JobThumbnail job={job} />
+                <p className="min-w-0 flex-1 truncate text-sm text-muted-foreground" title={job.error}>
+                  {job.error || "Failed to extract data from the image"}
+                </p>
+                <Button variant="outline" size="sm" onClick={() => onRetry(job.id)}>
+                  <RotateCcw className="mr-1 h-3 w-3" />
+                  Retry
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Dismiss" onClick={() => onDismiss(job.id)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
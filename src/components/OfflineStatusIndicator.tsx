@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, CloudOff, Download, Loader2, Wifi, WifiOff } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { OCR_LANGUAGES } from "@/utils/ocrLanguages";
+import { cacheLanguageData, getOfflineStatus, type OfflineStatus } from "@/utils/offlineAssets";
+
+const StatusRow = ({ label, cached }: { label: string; cached: boolean }) => (
+  <li className="flex items-center justify-between gap-2">
+    <span>{label}</span>
+    <span className={cn("flex items-center gap-1 text-xs", cached ? "text-green-600" : "text-muted-foreground")}>
+      {cached ? <Check className="h-3 w-3" /> : <CloudOff className="h-3 w-3" />}
+      {cached ? "Cached" : "Not cached"}
+    </span>
+  </li>
+);
+
+// Shows whether the app can scan without a connection, and lets the user download more languages
+export const OfflineStatusIndicator = () => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [status, setStatus] = useState<OfflineStatus | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const refreshStatus = useCallback(() => {
+    getOfflineStatus()
+      .then(setStatus)
+      .catch((error) => console.warn("Failed to read offline cache status:", error));
+  }, []);
+
+  useEffect(() => {
+    refreshStatus();
+    const updateOnline = () => setOnline(navigator.onLine);
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+    navigator.serviceWorker?.addEventListener("controllerchange", refreshStatus);
+    return () => {
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
+      navigator.serviceWorker?.removeEventListener("controllerchange", refreshStatus);
+    };
+  }, [refreshStatus]);
+
+  const handleDownload = async (code: string, label: string) => {
+    setDownloading(code);
+    try {
+      await cacheLanguageData(code);
+      toast({
+        title: "Language downloaded",
+        description: `${label} cards can now be scanned offline`,
+      });
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: (error as Error).message || "Could not download the language data",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+      refreshStatus();
+    }
+  };
+
+  const ready = !!status?.appShell && status.engine && status.languages.includes("eng");
+
+  return (
+    <Popover onOpenChange={(open) => open && refreshStatus()}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          {online ? <Wifi className="h-4 w-4" /> : <WifiOff className="h-4 w-4 text-destructive" />}
+          {!online ? "Offline" : ready ? "Offline ready" : "Online only"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">Offline availability</h3>
+          <p className="text-xs text-muted-foreground">
+            Scanning, editing and exporting work without a connection once the app, the OCR engine and the card's
+            language are cached.
+          </p>
+        </div>
+
+        <ul className="space-y-1 text-sm">
+          <StatusRow label="App" cached={!!status?.appShell} />
+          <StatusRow label="OCR engine" cached={!!status?.engine} />
+        </ul>
+
+        <div className="space-y-1 border-t border-border pt-2">
+          <p className="text-xs font-medium text-muted-foreground">Languages</p>
+          <ul className="max-h-48 space-y-1 overflow-y-auto text-sm">
+            {OCR_LANGUAGES.map((lang) =>
+              status?.languages.includes(lang.code) ? (
+                <StatusRow key={lang.code} label={lang.label} cached />
+              ) : (
+                <li key={lang.code} className="flex items-center justify-between gap-2">
+                  <span>{lang.label}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    disabled={!online || !status?.appShell || downloading !== null}
+                    onClick={() => handleDownload(lang.code, lang.label)}
+                  >
+                    {downloading === lang.code ? (
+                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    ) : (
+                      <Download className="mr-1 h-3 w-3" />
+                    )}
+                    Download
+                  </Button>
+                </li>
+              )
+            )}
+          </ul>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
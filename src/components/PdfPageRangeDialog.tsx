@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { parsePageRange } from "@/utils/pageRange";
+
+interface PdfPageRangeDialogProps {
+  open: boolean;
+  fileName: string;
+  pageCount: number;
+  onConfirm: (pages: number[]) => void;
+  onCancel: () => void;
+}
+
+export const PdfPageRangeDialog = ({ open, fileName, pageCount, onConfirm, onCancel }: PdfPageRangeDialogProps) => {
+  const [range, setRange] = useState(`1-${pageCount}`);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the selection whenever a new PDF is shown
+  useEffect(() => {
+    setRange(`1-${pageCount}`);
+    setError(null);
+  }, [fileName, pageCount]);
+
+  const handleConfirm = () => {
+    try {
+      onConfirm(parsePageRange(range, pageCount));
+    } catch (rangeError) {
+      setError((rangeError as Error).message);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Select pages to scan</DialogTitle>
+          <DialogDescription>
+            "{fileName}" has {pageCount} pages. Each selected page is scanned as a separate card.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="pdf-page-range">Pages</Label>
+          <Input
+            id="pdf-page-range"
+            value={range}
+            onChange={(e) => {
+              setRange(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => e.key === "Enter" && handleConfirm()}
+            placeholder="e.g. 1-3, 5, 8-"
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleConfirm}>Scan pages</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,34 @@
+import { Input } from "@/components/ui/input";
+import type { CardData } from "@/utils/ocrProcessor";
+import {
+  PERSON_NAME_LABELS,
+  PERSON_NAME_PARTS,
+  setNameParts,
+  setNameText,
+  type PersonName,
+} from "@/utils/personName";
+
+interface PersonNameEditorProps {
+  name: string;
+  parts: PersonName;
+  onChange: (updates: Pick<CardData, "name" | "nameParts">) => void;
+  className?: string;
+}
+
+// Edit the name as printed or part by part; each is kept in step with the other
+export const PersonNameEditor = ({ name, parts, onChange, className }: PersonNameEditorProps) => (
+  <div className={className}>
+    <Input value={name} aria-label="Name" onChange={(e) => onChange(setNameText(e.target.value))} />
+    <div className="mt-1 grid grid-cols-2 gap-1">
+      {PERSON_NAME_PARTS.map((part) => (
+        <Input
+          key={part}
+          value={parts[part]}
+          placeholder={PERSON_NAME_LABELS[part]}
+          aria-label={PERSON_NAME_LABELS[part]}
+          onChange={(e) => onChange(setNameParts({ ...parts, [part]: e.target.value }, name))}
+        />
+      ))}
+    </div>
+  </div>
+);
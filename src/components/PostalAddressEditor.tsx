@@ -0,0 +1,26 @@
+import { Input } from "@/components/ui/input";
+import { POSTAL_ADDRESS_LABELS, POSTAL_ADDRESS_PARTS, type PostalAddress } from "@/utils/postalAddress";
+
+interface PostalAddressEditorProps {
+  value: PostalAddress;
+  onChange: (value: PostalAddress) => void;
+  className?: string;
+}
+
+// Edit an address part by part; the one-line address is built from the parts on save
+export const PostalAddressEditor = ({ value, onChange, className }: PostalAddressEditorProps) => (
+  <div className={className}>
+    <div className="grid grid-cols-2 gap-1">
+      {POSTAL_ADDRESS_PARTS.map((part) => (
+        <Input
+          key={part}
+          value={value[part]}
+          placeholder={POSTAL_ADDRESS_LABELS[part]}
+          aria-label={POSTAL_ADDRESS_LABELS[part]}
+          onChange={(e) => onChange({ ...value, [part]: e.target.value })}
+          className={part === "street" ? "col-span-2" : undefined}
+        />
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,47 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle } from "lucide-react";
+import { QUALITY_ISSUE_MESSAGES, type ImageQualityReport } from "@/utils/imageQuality";
+
+interface QualityWarningDialogProps {
+  imageData: string;
+  report: ImageQualityReport;
+  onRetake: () => void;
+  onUseAnyway: () => void;
+}
+
+export const QualityWarningDialog = ({ imageData, report, onRetake, onUseAnyway }: QualityWarningDialogProps) => {
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onRetake()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-yellow-500" />
+            This photo may not scan well
+          </DialogTitle>
+          <DialogDescription>Retaking it usually gives much better results.</DialogDescription>
+        </DialogHeader>
+
+        <img src={imageData} alt="Captured card" className="w-full max-h-64 object-contain rounded-lg border border-border" />
+
+        <ul className="space-y-1 text-sm text-foreground list-disc pl-5">
+          {report.issues.map((issue) => (
+            <li key={issue}>{QUALITY_ISSUE_MESSAGES[issue]}</li>
+          ))}
+        </ul>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onUseAnyway}>Use anyway</Button>
+          <Button onClick={onRetake}>Retake</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,94 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import {
+  SOCIAL_NETWORKS,
+  SOCIAL_NETWORK_ORDER,
+  socialProfileUrl,
+  type SocialNetwork,
+  type SocialProfile,
+} from "@/utils/socialProfiles";
+
+interface SocialProfileListProps {
+  profiles: SocialProfile[];
+}
+
+// Social profiles and messaging handles, linked to the profile or chat where the network has a link
+export const SocialProfileList = ({ profiles }: SocialProfileListProps) => (
+  <ul className="space-y-0.5">
+    {profiles.map((profile) => {
+      const url = socialProfileUrl(profile);
+      return (
+        <li key={`${profile.network}:${profile.handle}`} className="whitespace-nowrap">
+          <span className="mr-1 text-xs text-muted-foreground">{SOCIAL_NETWORKS[profile.network].label}:</span>
+          {url ? (
+            <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+              {profile.handle}
+            </a>
+          ) : (
+            profile.handle
+          )}
+        </li>
+      );
+    })}
+  </ul>
+);
+
+interface SocialProfileEditorProps {
+  profiles: SocialProfile[];
+  onChange: (profiles: SocialProfile[]) => void;
+  className?: string;
+}
+
+// Edit the profiles and handles, each with its network
+export const SocialProfileEditor = ({ profiles, onChange, className }: SocialProfileEditorProps) => {
+  const updateProfile = (index: number, updates: Partial<SocialProfile>) => {
+    onChange(profiles.map((profile, i) => (i === index ? { ...profile, ...updates } : profile)));
+  };
+
+  return (
+    <div className={className}>
+      <ul className="space-y-1">
+        {profiles.map((profile, index) => (
+          <li key={index} className="flex items-center gap-1">
+            <Select
+              value={profile.network}
+              onValueChange={(value) => updateProfile(index, { network: value as SocialNetwork })}
+            >
+              <SelectTrigger className="h-9 w-28 shrink-0 px-2 text-xs" aria-label="Network">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SOCIAL_NETWORK_ORDER.map((network) => (
+                  <SelectItem key={network} value={network}>
+                    {SOCIAL_NETWORKS[network].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input value={profile.handle} onChange={(e) => updateProfile(index, { handle: e.target.value })} />
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 shrink-0 text-muted-foreground"
+              title="Remove"
+              onClick={() => onChange(profiles.filter((_, i) => i !== index))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="mt-1 h-7 px-2 text-xs"
+        onClick={() => onChange([...profiles, { network: "linkedin", handle: "" }])}
+      >
+        <Plus className="mr-1 h-3 w-3" />
+        Add
+      </Button>
+    </div>
+  );
+};
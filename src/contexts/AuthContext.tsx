@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { auth, googleProvider } from '../lib/firebase';
+import { shutdownOcrWorkerPool } from '../utils/ocrWorkerPool';
 import { User, onAuthStateChanged, signOut as firebaseSignOut, signInWithEmailAndPassword, createUserWithEmailAndPassword, signInWithPopup, GoogleAuthProvider } from 'firebase/auth';
 
 interface AuthContextType {
@@ -64,6 +65,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const signOut = async () => {
     try {
+      // Release the warm OCR workers and drop any queued scans before signing out
+      await shutdownOcrWorkerPool();
       await firebaseSignOut(auth);
     } catch (error) {
       console.error('Sign out error:', error);
@@ -1,22 +1,101 @@
-import { useState, useEffect } from "react";
-import { ImageCapture } from "@/components/ImageCapture";
+import { useState, useEffect, useRef } from "react";
+import { ImageCapture, type CaptureOptions } from "@/components/ImageCapture";
 import { CardDataTable } from "@/components/CardDataTable";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { processImage, type CardData } from "@/utils/ocrProcessor";
+import { EnhancementSettings } from "@/components/EnhancementSettings";
+import { OcrJobList } from "@/components/OcrJobList";
+import { OfflineStatusIndicator } from "@/components/OfflineStatusIndicator";
+import { OcrEngineSettings } from "@/components/OcrEngineSettings";
+import { ContactParsingSettings } from "@/components/ContactParsingSettings";
+import { processImage, processTwoSidedCard, type CardData } from "@/utils/ocrProcessor";
+import { pairCards, unpairCard } from "@/utils/cardMerge";
+import { reparseCard } from "@/utils/cardReparse";
+import { getImagePreprocessor } from "@/utils/preprocessClient";
+import { getOcrWorkerPool } from "@/utils/ocrWorkerPool";
+import {
+  loadEnhancementOptions,
+  saveEnhancementOptions,
+  type EnhancementDebugImage,
+  type EnhancementOptions,
+} from "@/utils/imageEnhancement";
+import {
+  createOcrJobId,
+  loadOcrJobSettings,
+  runOcrAttempts,
+  saveOcrJobSettings,
+  type OcrJob,
+  type OcrJobSettings,
+} from "@/utils/ocrJobs";
+import {
+  DEFAULT_OCR_ENGINE_SETTINGS,
+  configureOcrEngine,
+  loadOcrEngineSettings,
+  saveOcrEngineSettings,
+  type OcrEngineSettings as OcrEngineSettingsValue,
+} from "@/utils/ocrEngine";
+import {
+  loadPhoneSettings,
+  resolveDefaultCountry,
+  savePhoneSettings,
+  type PhoneSettings,
+} from "@/utils/phoneNumbers";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, ArrowLeft } from "lucide-react";
+import { ArrowLeft } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { useNavigate } from "react-router-dom";
 
 const AppPage = () => {
   const [cards, setCards] = useState<CardData[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [processingQueue, setProcessingQueue] = useState<number>(0);
+  const [jobs, setJobs] = useState<OcrJob[]>([]);
+  const [jobSettings, setJobSettings] = useState<OcrJobSettings>(() => loadOcrJobSettings());
   const [daysRemaining, setDaysRemaining] = useState<number | null>(null);
+  const [enhancementOptions, setEnhancementOptions] = useState<EnhancementOptions>(() => loadEnhancementOptions());
+  const [enhancementDebugImages, setEnhancementDebugImages] = useState<EnhancementDebugImage[]>([]);
+  const [phoneSettings, setPhoneSettings] = useState<PhoneSettings>(() => loadPhoneSettings());
+  const [engineSettings, setEngineSettings] = useState<OcrEngineSettingsValue>(DEFAULT_OCR_ENGINE_SETTINGS);
   const { toast } = useToast();
   const { signOut, user, getCouponDaysRemaining } = useAuth();
   const navigate = useNavigate();
+  const jobControllersRef = useRef(new Map<string, AbortController>());
+  const batchResultsRef = useRef({ succeeded: 0, failed: 0 });
+
+  const activeJobCount = jobs.filter((job) => job.status === "processing").length;
+  const previousActiveJobCountRef = useRef(0);
+
+  // Summarise the batch once the last running scan has finished
+  useEffect(() => {
+    if (previousActiveJobCountRef.current > 0 && activeJobCount === 0) {
+      const { succeeded, failed } = batchResultsRef.current;
+      if (succeeded + failed > 0) {
+        toast({
+          title: "Batch processing complete!",
+          description: `Successfully processed ${succeeded} business card(s)${failed > 0 ? `, ${failed} failed` : ""}`,
+        });
+      }
+      batchResultsRef.current = { succeeded: 0, failed: 0 };
+    }
+    previousActiveJobCountRef.current = activeJobCount;
+  }, [activeJobCount, toast]);
+
+  // Stop running scans when leaving the page
+  useEffect(() => {
+    const controllers = jobControllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  // Start an OCR worker in the background so the first scan is not delayed by engine startup
+  useEffect(() => {
+    getOcrWorkerPool().warmUp();
+  }, []);
+
+  // The signed-in account is the workspace; each one keeps its own OCR engine
+  useEffect(() => {
+    if (!user) return;
+    const settings = loadOcrEngineSettings(user.uid);
+    setEngineSettings(settings);
+    configureOcrEngine(settings);
+  }, [user]);
 
   useEffect(() => {
     if (user) {
@@ -35,7 +114,7 @@ const AppPage = () => {
     }
   }, [user, navigate, toast]);
 
-  const handleImageCapture = async (imageData: string) => {
+  const handleImageCapture = async (imageData: string, options?: CaptureOptions) => {
     // Check if trial has expired before processing
     const remaining = getCouponDaysRemaining();
     if (remaining !== null && remaining <= 0) {
@@ -74,49 +153,137 @@ const AppPage = () => {
       return;
     }
 
-    // Increment the processing queue
-    setProcessingQueue(prev => prev + 1);
-    
+    runJob({
+      id: createOcrJobId(),
+      imageData,
+      backImageData: options?.backImageData,
+      language: options?.language,
+      status: "processing",
+      attempt: 1,
+    });
+  };
+
+  const updateJob = (id: string, updates: Partial<OcrJob>) => {
+    setJobs((prev) => prev.map((job) => (job.id === id ? { ...job, ...updates } : job)));
+  };
+
+  const removeJob = (id: string) => {
+    setJobs((prev) => prev.filter((job) => job.id !== id));
+  };
+
+  // Scan a card, retrying with the fallback configurations. Failed jobs stay in the list for a manual retry.
+  const runJob = async (job: OcrJob) => {
     // Show a toast indicating we're starting to process
-    if (processingQueue === 0) {
-      setIsProcessing(true);
+    if (jobControllersRef.current.size === 0) {
       toast({
         title: "Processing images...",
         description: "Extracting information from business cards",
       });
     }
 
+    const controller = new AbortController();
+    jobControllersRef.current.set(job.id, controller);
+
+    const runningJob: OcrJob = { ...job, status: "processing", attempt: 1, error: undefined };
+    setJobs((prev) =>
+      prev.some((existing) => existing.id === job.id)
+        ? prev.map((existing) => (existing.id === job.id ? runningJob : existing))
+        : [...prev, runningJob]
+    );
+
     try {
-      const cardData = await processImage(imageData);
+      const cardData = await runOcrAttempts(
+        (attempt, signal) => {
+          const processOptions = {
+            language: job.language,
+            enhancement: enhancementOptions,
+            onEnhancementDebug: setEnhancementDebugImages,
+            defaultCountry: resolveDefaultCountry(phoneSettings),
+            signal,
+            // Each side's time limit starts once it has a pool slot, not while it is queued
+            timeoutMs: jobSettings.timeoutSeconds * 1000,
+            ...attempt.options,
+          };
+          return job.backImageData
+            ? processTwoSidedCard(job.imageData, job.backImageData, processOptions)
+            : processImage(job.imageData, processOptions);
+        },
+        {
+          signal: controller.signal,
+          onAttempt: (attemptNumber) => updateJob(job.id, { attempt: attemptNumber }),
+        }
+      );
       setCards((prev) => [...prev, cardData]);
-      
+      removeJob(job.id);
+      batchResultsRef.current.succeeded++;
+
       // Show success toast for each card processed
       toast({
         title: "Success!",
         description: "Business card data extracted successfully",
       });
-    } catch (error: any) {
+    } catch (error) {
+      if (controller.signal.aborted) {
+        removeJob(job.id);
+        toast({
+          title: "Scan cancelled",
+          description: "The card was removed from the queue",
+        });
+        return;
+      }
+
       console.error("OCR processing error:", error);
+      const message = (error as Error).message || "Failed to extract data from an image. Please try again.";
+      updateJob(job.id, { status: "failed", error: message });
+      batchResultsRef.current.failed++;
       toast({
         title: "Processing failed",
-        description: error.message || "Failed to extract data from an image. Please try again.",
+        description: `${message} The card is listed under failed scans so you can retry it.`,
         variant: "destructive",
       });
     } finally {
-      // Decrement the processing queue
-      setProcessingQueue(prev => {
-        const newCount = prev - 1;
-        if (newCount <= 0) {
-          setIsProcessing(false);
-          if (cards.length > 0 || processingQueue > 0) {
-            toast({
-              title: "Batch processing complete!",
-              description: `Successfully processed ${cards.length + 1} business card(s)`,
-            });
-          }
-        }
-        return Math.max(0, newCount);
-      });
+      jobControllersRef.current.delete(job.id);
+    }
+  };
+
+  const handleCancelJob = (id: string) => {
+    jobControllersRef.current.get(id)?.abort();
+  };
+
+  const handleRetryJob = (id: string) => {
+    const job = jobs.find((candidate) => candidate.id === id);
+    if (job && job.status === "failed") {
+      runJob(job);
+    }
+  };
+
+  const handleJobSettingsChange = (settings: OcrJobSettings) => {
+    setJobSettings(settings);
+    saveOcrJobSettings(settings);
+  };
+
+  const handleEngineSettingsChange = (settings: OcrEngineSettingsValue) => {
+    setEngineSettings(settings);
+    configureOcrEngine(settings);
+    if (user) {
+      saveOcrEngineSettings(user.uid, settings);
+    }
+    toast({
+      title: "OCR engine updated",
+      description: settings.engine === "http" ? "New scans are read by your OCR server" : "New scans are read in the browser",
+    });
+  };
+
+  const handlePhoneSettingsChange = (settings: PhoneSettings) => {
+    setPhoneSettings(settings);
+    savePhoneSettings(settings);
+  };
+
+  const handleEnhancementChange = (options: EnhancementOptions) => {
+    setEnhancementOptions(options);
+    saveEnhancementOptions(options);
+    if (!options.debug) {
+      setEnhancementDebugImages([]);
     }
   };
 
@@ -134,6 +301,56 @@ const AppPage = () => {
     });
   };
 
+  // Merge two rows into one two-sided card, kept in the front row's place
+  const handlePairCards = (frontId: string, backId: string) => {
+    setCards((prev) => {
+      const front = prev.find((card) => card.id === frontId);
+      const back = prev.find((card) => card.id === backId);
+      if (!front || !back) return prev;
+      const paired = pairCards(front, back);
+      return prev
+        .filter((card) => card.id !== backId)
+        .map((card) => (card.id === frontId ? paired : card));
+    });
+    toast({
+      title: "Cards paired",
+      description: "Front and back have been merged into one card",
+    });
+  };
+
+  const handleUnpairCard = (id: string) => {
+    setCards((prev) => prev.flatMap((card) => (card.id === id ? unpairCard(card) : [card])));
+    toast({
+      title: "Cards unpaired",
+      description: "Front and back are separate cards again",
+    });
+  };
+
+  // Run the current parser over the kept OCR text of the given cards
+  const handleReparseCards = async (ids: string[]) => {
+    const preprocessor = getImagePreprocessor();
+    const defaultCountry = resolveDefaultCountry(phoneSettings);
+    const parse = (text: string) => preprocessor.run({ type: "parse", text, defaultCountry });
+    try {
+      const reparsed = await Promise.all(
+        cards.filter((card) => ids.includes(card.id)).map((card) => reparseCard(card, parse))
+      );
+      const byId = new Map(reparsed.map((card) => [card.id, card]));
+      setCards((prev) => prev.map((card) => byId.get(card.id) ?? card));
+      toast({
+        title: "Re-parsed",
+        description: `Updated ${reparsed.length} card${reparsed.length !== 1 ? "s" : ""} from their OCR text`,
+      });
+    } catch (error) {
+      console.error("Re-parse error:", error);
+      toast({
+        title: "Re-parse failed",
+        description: (error as Error).message || "Could not parse the OCR text again",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await signOut();
@@ -157,6 +374,7 @@ const AppPage = () => {
               {daysRemaining} days left
             </div>
           )}
+          <OfflineStatusIndicator />
           <ThemeToggle />
           <Button onClick={handleLogout} variant="outline" size="sm">
             Logout
@@ -222,6 +440,27 @@ const AppPage = () => {
               </ul>
             </div>
           </div>
+          
+          <div className="mt-6">
+            <EnhancementSettings
+              options={enhancementOptions}
+              onChange={handleEnhancementChange}
+              debugImages={enhancementDebugImages}
+            />
+          </div>
+          
+          <div className="mt-4">
+            <OcrEngineSettings
+              settings={engineSettings}
+              onChange={handleEngineSettingsChange}
+              jobSettings={jobSettings}
+              onJobSettingsChange={handleJobSettingsChange}
+            />
+          </div>
+          
+          <div className="mt-4">
+            <ContactParsingSettings settings={phoneSettings} onChange={handlePhoneSettingsChange} />
+          </div>
         </div>
         
         {/* Scanned Cards Report Section */}
@@ -233,26 +472,32 @@ const AppPage = () => {
             </div>
           </div>
           
-          {isProcessing && (
-            <div className="flex items-center justify-center py-12">
-              <div className="text-center space-y-4">
-                <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto" />
-                <p className="text-lg text-muted-foreground">Processing your business card...</p>
-              </div>
+          {jobs.length > 0 && (
+            <div className="mb-6">
+              <OcrJobList
+                jobs={jobs}
+                onCancel={handleCancelJob}
+                onRetry={handleRetryJob}
+                onDismiss={removeJob}
+              />
             </div>
           )}
           
-          {!isProcessing && cards.length > 0 && (
+          {cards.length > 0 && (
             <div className="overflow-hidden rounded-lg border border-border">
               <CardDataTable
                 cards={cards}
                 onUpdateCard={handleUpdateCard}
                 onDeleteCard={handleDeleteCard}
+                onPairCards={handlePairCards}
+                onUnpairCard={handleUnpairCard}
+                onReparseCards={handleReparseCards}
+                phoneSettings={phoneSettings}
               />
             </div>
           )}
           
-          {!isProcessing && cards.length === 0 && (
+          {jobs.length === 0 && cards.length === 0 && (
             <div className="text-center py-12 bg-muted/30 rounded-lg">
               <p className="text-muted-foreground text-lg">No cards scanned yet. Upload or capture a business card to get started.</p>
             </div>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { ImageCapture } from "@/components/ImageCapture";
+import { ImageCapture, type CaptureOptions } from "@/components/ImageCapture";
 import { CardDataTable } from "@/components/CardDataTable";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { processImage, type CardData } from "@/utils/ocrProcessor";
@@ -29,7 +29,7 @@ const Index = () => {
     }
   }, [user]);
 
-  const handleImageCapture = async (imageData: string) => {
+  const handleImageCapture = async (imageData: string, options?: CaptureOptions) => {
     // Increment the processing queue
     setProcessingQueue(prev => prev + 1);
     
@@ -43,7 +43,7 @@ const Index = () => {
     }
 
     try {
-      const cardData = await processImage(imageData);
+      const cardData = await processImage(imageData, { language: options?.language });
       setCards((prev) => [...prev, cardData]);
       
       // Show success toast for each card processed
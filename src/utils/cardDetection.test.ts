@@ -0,0 +1,91 @@
+import { detectCardQuad, detectCardRegions, warpQuadToRect, type Quad } from './cardDetection';
+import { createRaster, type Point, type RasterImage } from './imageUtils';
+
+// Draw light quadrilateral "cards" with a few dark text bars on a dark table
+const drawScene = (width: number, height: number, ...cards: Quad[]): RasterImage => {
+  const raster = createRaster(width, height);
+  const inside = (p: Point) =>
+    cards.some(corners =>
+      corners.every((a, i) => {
+        const b = corners[(i + 1) % 4];
+        return (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x) >= 0;
+      })
+    );
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let value = 40;
+      if (inside({ x, y })) {
+        value = 235;
+        // Text lines inside the card
+        if (y % 30 < 6 && x % 50 < 35) value = 30;
+      }
+      raster.data[i] = raster.data[i + 1] = raster.data[i + 2] = value;
+      raster.data[i + 3] = 255;
+    }
+  }
+  return raster;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+describe('Card detection', () => {
+  test('should find the corners of a skewed card', () => {
+    const corners: Quad = [
+      { x: 80, y: 60 },
+      { x: 420, y: 90 },
+      { x: 400, y: 300 },
+      { x: 60, y: 260 },
+    ];
+    const quad = detectCardQuad(drawScene(500, 380, corners));
+
+    expect(quad).not.toBeNull();
+    quad!.forEach((corner, i) => {
+      expect(distance(corner, corners[i])).toBeLessThan(8);
+    });
+  });
+
+  test('should not crop when the card fills the frame', () => {
+    const corners: Quad = [
+      { x: 0, y: 0 },
+      { x: 400, y: 0 },
+      { x: 400, y: 250 },
+      { x: 0, y: 250 },
+    ];
+    expect(detectCardQuad(drawScene(400, 250, corners))).toBeNull();
+  });
+
+  test('should warp a quadrilateral to a rectangle of the measured size', () => {
+    const corners: Quad = [
+      { x: 50, y: 50 },
+      { x: 350, y: 50 },
+      { x: 350, y: 230 },
+      { x: 50, y: 230 },
+    ];
+    const warped = warpQuadToRect(drawScene(400, 280, corners), corners);
+
+    expect(warped.width).toBe(300);
+    expect(warped.height).toBe(180);
+    // The centre of the warped image is card, not table
+    const centre = (90 * 300 + 150) * 4;
+    expect(warped.data[centre]).toBeGreaterThan(200);
+  });
+
+  test('should find every card laid out in one photo, in reading order', () => {
+    const rect = (x: number, y: number): Quad => [
+      { x, y },
+      { x: x + 170, y },
+      { x: x + 170, y: y + 100 },
+      { x, y: y + 100 },
+    ];
+    const cards = [rect(20, 20), rect(220, 25), rect(420, 20), rect(20, 170), rect(225, 170)];
+    const regions = detectCardRegions(drawScene(620, 300, ...cards));
+
+    expect(regions).toHaveLength(5);
+    regions.forEach((quad, i) => {
+      expect(distance(quad[0], cards[i][0])).toBeLessThan(6);
+      expect(distance(quad[2], cards[i][2])).toBeLessThan(6);
+    });
+  });
+});
@@ -0,0 +1,429 @@
+import { boxBlur, createRaster, downscaleRaster, otsuThreshold, toGrayscale, type Point, type RasterImage } from './imageUtils';
+
+// Card corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// A connected region of "card" pixels in the foreground mask
+export interface ForegroundComponent {
+  label: number;
+  area: number; // Pixel count, including enclosed holes such as text
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Analysis runs on a small copy of the image; corners are scaled back afterwards
+const DETECTION_SIZE = 500;
+
+// Largest side used for card detection and perspective correction. OCR
+// downscales to 1280px afterwards, so more detail than this is never used.
+export const MAX_CROP_DIMENSION = 2000;
+
+// Smallest region, as a share of the image, that counts as a card when several are laid out together
+const MIN_REGION_COVERAGE = 0.02;
+
+// Split the image into card (1) and background (0). The background class is
+// whichever Otsu class dominates the image border, and only background that is
+// connected to the border counts, so text inside the card stays foreground.
+export const segmentForeground = (raster: RasterImage): Uint8Array => {
+  const { width, height } = raster;
+  const gray = boxBlur(boxBlur(toGrayscale(raster), width, height, 2), width, height, 2);
+  const threshold = otsuThreshold(gray);
+
+  let brightBorder = 0;
+  let borderCount = 0;
+  for (let x = 0; x < width; x++) {
+    brightBorder += (gray[x] > threshold ? 1 : 0) + (gray[(height - 1) * width + x] > threshold ? 1 : 0);
+    borderCount += 2;
+  }
+  for (let y = 0; y < height; y++) {
+    brightBorder += (gray[y * width] > threshold ? 1 : 0) + (gray[y * width + width - 1] > threshold ? 1 : 0);
+    borderCount += 2;
+  }
+  const backgroundIsBright = brightBorder > borderCount / 2;
+  const isBackground = (index: number) => (gray[index] > threshold) === backgroundIsBright;
+
+  // Flood fill the background from every border pixel
+  const outside = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let top = 0;
+  const push = (index: number) => {
+    if (!outside[index] && isBackground(index)) {
+      outside[index] = 1;
+      stack[top++] = index;
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    push(x);
+    push((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    push(y * width);
+    push(y * width + width - 1);
+  }
+
+  while (top > 0) {
+    const index = stack[--top];
+    const x = index % width;
+    if (x > 0) push(index - 1);
+    if (x < width - 1) push(index + 1);
+    if (index >= width) push(index - width);
+    if (index < width * (height - 1)) push(index + width);
+  }
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = outside[i] ? 0 : 1;
+  }
+  return mask;
+};
+
+// Label 4-connected foreground regions. Returns the label map and the components, largest first.
+export const labelComponents = (
+  mask: Uint8Array,
+  width: number,
+  height: number
+): { labels: Int32Array; components: ForegroundComponent[] } => {
+  const labels = new Int32Array(width * height);
+  const components: ForegroundComponent[] = [];
+  const stack = new Int32Array(width * height);
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    const label = components.length + 1;
+    const component: ForegroundComponent = {
+      label,
+      area: 0,
+      minX: width,
+      minY: height,
+      maxX: 0,
+      maxY: 0,
+    };
+
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      component.area++;
+      component.minX = Math.min(component.minX, x);
+      component.maxX = Math.max(component.maxX, x);
+      component.minY = Math.min(component.minY, y);
+      component.maxY = Math.max(component.maxY, y);
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !labels[next]) {
+          labels[next] = label;
+          stack[top++] = next;
+        }
+      }
+    }
+
+    components.push(component);
+  }
+
+  components.sort((a, b) => b.area - a.area);
+  return { labels, components };
+};
+
+const cross = (o: Point, a: Point, b: Point): number => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Andrew's monotone chain
+const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+};
+
+export const polygonArea = (points: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+// Drop the hull vertices that contribute least area until `target` remain (Visvalingam)
+const simplifyPolygon = (points: Point[], target: number): Point[] => {
+  const result = [...points];
+  while (result.length > target) {
+    let smallest = Infinity;
+    let removeIndex = 0;
+    for (let i = 0; i < result.length; i++) {
+      const prev = result[(i - 1 + result.length) % result.length];
+      const next = result[(i + 1) % result.length];
+      const area = Math.abs(cross(prev, result[i], next));
+      if (area < smallest) {
+        smallest = area;
+        removeIndex = i;
+      }
+    }
+    result.splice(removeIndex, 1);
+  }
+  return result;
+};
+
+// The largest-area quadrilateral whose corners are vertices of the polygon
+const largestInscribedQuad = (polygon: Point[]): Point[] | null => {
+  if (polygon.length < 4) return null;
+  const candidates = simplifyPolygon(polygon, 16);
+  let best: Point[] | null = null;
+  let bestArea = 0;
+
+  for (let a = 0; a < candidates.length; a++) {
+    for (let b = a + 1; b < candidates.length; b++) {
+      for (let c = b + 1; c < candidates.length; c++) {
+        for (let d = c + 1; d < candidates.length; d++) {
+          const quad = [candidates[a], candidates[b], candidates[c], candidates[d]];
+          const area = polygonArea(quad);
+          if (area > bestArea) {
+            bestArea = area;
+            best = quad;
+          }
+        }
+      }
+    }
+  }
+
+  return best;
+};
+
+// Rotate the corners so they start at the top-left and run clockwise on screen
+const orderQuad = (corners: Point[]): Quad => {
+  const centre = {
+    x: corners.reduce((sum, p) => sum + p.x, 0) / 4,
+    y: corners.reduce((sum, p) => sum + p.y, 0) / 4,
+  };
+  const sorted = [...corners].sort(
+    (a, b) => Math.atan2(a.y - centre.y, a.x - centre.x) - Math.atan2(b.y - centre.y, b.x - centre.x)
+  );
+  // With y pointing down, increasing angle runs clockwise on screen
+  let start = 0;
+  for (let i = 1; i < 4; i++) {
+    if (sorted[i].x + sorted[i].y < sorted[start].x + sorted[start].y) start = i;
+  }
+  return [0, 1, 2, 3].map(i => sorted[(start + i) % 4]) as Quad;
+};
+
+const interiorAnglesAreReasonable = (quad: Quad): boolean => {
+  for (let i = 0; i < 4; i++) {
+    const prev = quad[(i + 3) % 4];
+    const curr = quad[i];
+    const next = quad[(i + 1) % 4];
+    const v1 = { x: prev.x - curr.x, y: prev.y - curr.y };
+    const v2 = { x: next.x - curr.x, y: next.y - curr.y };
+    const cos = (v1.x * v2.x + v1.y * v2.y) / (Math.hypot(v1.x, v1.y) * Math.hypot(v2.x, v2.y) || 1);
+    const angle = (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+    if (angle < 45 || angle > 135) return false;
+  }
+  return true;
+};
+
+// Fit a quadrilateral to one labelled component, or null if it is not card-shaped
+export const componentToQuad = (
+  labels: Int32Array,
+  width: number,
+  component: ForegroundComponent
+): Quad | null => {
+  // The hull of each row's leftmost and rightmost pixel is the hull of the whole component
+  const edgePoints: Point[] = [];
+  for (let y = component.minY; y <= component.maxY; y++) {
+    let left = -1;
+    let right = -1;
+    for (let x = component.minX; x <= component.maxX; x++) {
+      if (labels[y * width + x] === component.label) {
+        if (left === -1) left = x;
+        right = x;
+      }
+    }
+    if (left !== -1) {
+      edgePoints.push({ x: left, y }, { x: right + 1, y }, { x: left, y: y + 1 }, { x: right + 1, y: y + 1 });
+    }
+  }
+
+  const corners = largestInscribedQuad(convexHull(edgePoints));
+  if (!corners) return null;
+
+  const quad = orderQuad(corners);
+  const quadArea = polygonArea(quad);
+  // A card fills most of its own quadrilateral; ragged shapes are clutter
+  if (quadArea === 0 || component.area / quadArea < 0.8) return null;
+  if (!interiorAnglesAreReasonable(quad)) return null;
+
+  return quad;
+};
+
+// Find the outline of the business card in a photo. Returns null when no
+// clear card is found or the card already fills the frame.
+export const detectCardQuad = (raster: RasterImage): Quad | null => {
+  const { raster: small, scale } = downscaleRaster(raster, DETECTION_SIZE);
+  const mask = segmentForeground(small);
+  const { labels, components } = labelComponents(mask, small.width, small.height);
+  if (components.length === 0) return null;
+
+  const imageArea = small.width * small.height;
+  const card = components[0];
+  const coverage = card.area / imageArea;
+  if (coverage < 0.15 || coverage > 0.95) return null;
+
+  const quad = componentToQuad(labels, small.width, card);
+  if (!quad) return null;
+
+  return quad.map(p => ({ x: p.x / scale, y: p.y / scale })) as Quad;
+};
+
+// Find every card in a photo or scan of several cards laid out together.
+// Regions come back in reading order: top to bottom, then left to right.
+export const detectCardRegions = (raster: RasterImage): Quad[] => {
+  const { raster: small, scale } = downscaleRaster(raster, DETECTION_SIZE);
+  const mask = segmentForeground(small);
+  const { labels, components } = labelComponents(mask, small.width, small.height);
+  const imageArea = small.width * small.height;
+
+  const quads: Quad[] = [];
+  for (const component of components) {
+    const coverage = component.area / imageArea;
+    if (coverage < MIN_REGION_COVERAGE) break; // Components are sorted by size
+    if (coverage > 0.95) continue;
+
+    const quad = componentToQuad(labels, small.width, component);
+    if (quad) {
+      quads.push(quad.map(p => ({ x: p.x / scale, y: p.y / scale })) as Quad);
+    }
+  }
+
+  const centre = (quad: Quad) => ({
+    x: quad.reduce((sum, p) => sum + p.x, 0) / 4,
+    y: quad.reduce((sum, p) => sum + p.y, 0) / 4,
+  });
+  const averageHeight = quads.length
+    ? quads.reduce((sum, q) => sum + Math.hypot(q[3].x - q[0].x, q[3].y - q[0].y), 0) / quads.length
+    : 0;
+
+  // Cards whose centres are within half a card height share a row
+  return quads.sort((a, b) => {
+    const ca = centre(a);
+    const cb = centre(b);
+    if (Math.abs(ca.y - cb.y) > averageHeight / 2) return ca.y - cb.y;
+    return ca.x - cb.x;
+  });
+};
+
+// Solve the 8x8 system for the homography that maps (u, v) to (x, y)
+const computeHomography = (from: Point[], to: Point[]): number[] => {
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    matrix.push([u, v, 1, 0, 0, 0, -u * x, -v * x]);
+    vector.push(x);
+    matrix.push([0, 0, 0, u, v, 1, -u * y, -v * y]);
+    vector.push(y);
+  }
+
+  // Gaussian elimination with partial pivoting
+  const n = 8;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    [vector[col], vector[pivot]] = [vector[pivot], vector[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < n; k++) matrix[row][k] -= factor * matrix[col][k];
+      vector[row] -= factor * vector[col];
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = vector[row];
+    for (let k = row + 1; k < n; k++) sum -= matrix[row][k] * solution[k];
+    solution[row] = sum / matrix[row][row];
+  }
+  return solution;
+};
+
+// Warp the quadrilateral region of the image onto a flat rectangle with bilinear sampling
+export const warpQuadToRect = (raster: RasterImage, quad: Quad, width?: number, height?: number): RasterImage => {
+  const [tl, tr, br, bl] = quad;
+  const outWidth = Math.max(1, Math.round(width ?? Math.max(Math.hypot(tr.x - tl.x, tr.y - tl.y), Math.hypot(br.x - bl.x, br.y - bl.y))));
+  const outHeight = Math.max(1, Math.round(height ?? Math.max(Math.hypot(bl.x - tl.x, bl.y - tl.y), Math.hypot(br.x - tr.x, br.y - tr.y))));
+
+  const h = computeHomography(
+    [{ x: 0, y: 0 }, { x: outWidth, y: 0 }, { x: outWidth, y: outHeight }, { x: 0, y: outHeight }],
+    quad
+  );
+
+  const output = createRaster(outWidth, outHeight);
+  const { data, width: srcWidth, height: srcHeight } = raster;
+
+  for (let v = 0; v < outHeight; v++) {
+    for (let u = 0; u < outWidth; u++) {
+      const denominator = h[6] * u + h[7] * v + 1;
+      const x = Math.min(srcWidth - 1, Math.max(0, (h[0] * u + h[1] * v + h[2]) / denominator));
+      const y = Math.min(srcHeight - 1, Math.max(0, (h[3] * u + h[4] * v + h[5]) / denominator));
+
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const y1 = Math.min(srcHeight - 1, y0 + 1);
+      const fx = x - x0;
+      const fy = y - y0;
+
+      const i00 = (y0 * srcWidth + x0) * 4;
+      const i10 = (y0 * srcWidth + x1) * 4;
+      const i01 = (y1 * srcWidth + x0) * 4;
+      const i11 = (y1 * srcWidth + x1) * 4;
+      const dst = (v * outWidth + u) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = data[i00 + c] * (1 - fx) + data[i10 + c] * fx;
+        const bottom = data[i01 + c] * (1 - fx) + data[i11 + c] * fx;
+        output.data[dst + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  return output;
+};
+
+// Detect the card and return it flattened and cropped, or null if no card was found
+export const cropToCard = (raster: RasterImage): RasterImage | null => {
+  const quad = detectCardQuad(raster);
+  if (!quad) return null;
+  return warpQuadToRect(raster, quad);
+};
@@ -0,0 +1,79 @@
+import { buildVcf, toCsvRow } from './cardExport';
+import type { CardData } from './ocrProcessor';
+
+const card: CardData = {
+  id: 'card',
+  name: 'Jane Doe',
+  company: 'Acme',
+  designation: '',
+  email: 'jane@acme.com',
+  phone: '+12125550100',
+  website: 'www.acme.com',
+  address: '123 Main St, Suite 400, New York, NY 10001, United States',
+  addressParts: {
+    street: '123 Main St, Suite 400',
+    city: 'New York',
+    region: 'NY',
+    postalCode: '10001',
+    country: 'United States',
+    countryCode: 'US',
+  },
+  emails: [
+    { value: 'jane@acme.com', type: 'work' },
+    { value: 'jane.doe@example.com', type: 'other' },
+  ],
+  phones: [
+    { value: '+12125550100', type: 'work' },
+    { value: '+19175550199', type: 'mobile' },
+    { value: '+12125550101', type: 'fax' },
+  ],
+  imageData: 'data:image/jpeg;base64,card',
+};
+
+describe('Card export', () => {
+  test('writes every email and phone number with its type', () => {
+    const vcf = buildVcf([card]);
+    expect(vcf).toContain('EMAIL;TYPE=INTERNET,WORK,PREF:jane@acme.com\n');
+    expect(vcf).toContain('EMAIL;TYPE=INTERNET:jane.doe@example.com\n');
+    expect(vcf).toContain('TEL;TYPE=WORK,VOICE,PREF:+12125550100\n');
+    expect(vcf).toContain('TEL;TYPE=CELL:+19175550199\n');
+    expect(vcf).toContain('TEL;TYPE=WORK,FAX:+12125550101\n');
+    expect(vcf).toContain('URL:www.acme.com\n');
+
+    const row = toCsvRow(card, 0, 1);
+    expect(row.phone).toBe('+12125550100');
+    expect(row.all_phones).toBe('Work: +12125550100; Mobile: +19175550199; Fax: +12125550101');
+  });
+
+  test('writes the name parts to N and the CSV name columns', () => {
+    const doctor = { ...card, name: 'Dr. Anil Kumar Sharma, PhD' };
+    expect(buildVcf([doctor])).toContain('N:Sharma;Anil;Kumar;Dr.;PhD\n');
+    expect(buildVcf([doctor])).toContain('FN:Dr. Anil Kumar Sharma\\, PhD\n');
+    expect(buildVcf([{ ...doctor, company: 'A;B, C' }])).toContain('ORG:A\\;B\\, C\n');
+    expect(toCsvRow(doctor, 0, 1)).toMatchObject({ first_name: 'Anil', last_name: 'Sharma', credentials: 'PhD' });
+  });
+
+  test('writes social profiles as X-SOCIALPROFILE and messaging handles as IMPP', () => {
+    const social: CardData = {
+      ...card,
+      socialProfiles: [
+        { network: 'linkedin', handle: 'in/janedoe' },
+        { network: 'skype', handle: 'jane.doe' },
+      ],
+    };
+    const vcf = buildVcf([social]);
+    expect(vcf).toContain('X-SOCIALPROFILE;TYPE=linkedin:https://www.linkedin.com/in/janedoe\n');
+    expect(vcf).toContain('IMPP;X-SERVICE-TYPE=Skype:skype:jane.doe\n');
+    expect(toCsvRow(social, 0, 1)).toMatchObject({ linkedin: 'https://www.linkedin.com/in/janedoe', skype: 'jane.doe' });
+  });
+
+  test('maps the address parts to the ADR components and CSV columns', () => {
+    expect(buildVcf([card])).toContain(
+      'ADR;TYPE=WORK:;;123 Main St\\, Suite 400;New York;NY;10001;United States\n'
+    );
+    const row = toCsvRow(card, 0, 1);
+    expect(row.city).toBe('New York');
+    expect(row.postal_code).toBe('10001');
+    expect(row.country).toBe('United States');
+  });
+});
@@ -0,0 +1,189 @@
+import Papa from 'papaparse';
+import JSZip from 'jszip';
+import type { CardData } from './ocrProcessor';
+import { CONTACT_TYPE_LABELS, getContactList, type ContactField, type ContactType } from './contactValues';
+import { getAddressParts } from './postalAddress';
+import { getNameParts } from './personName';
+import { SOCIAL_NETWORKS, SOCIAL_NETWORK_ORDER, socialProfileUrl } from './socialProfiles';
+
+// Shared by the CSV/ZIP download and the Gmail export
+
+// Create a more descriptive filename for a card image
+const imageFileName = (card: CardData, index: number, timestamp: number, side: 'front' | 'back' = 'front'): string => {
+  const namePart = card.name ? card.name.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20) : `card_${index}`;
+  return side === 'back' ? `${namePart}_back_${timestamp}.jpg` : `${namePart}_${timestamp}.jpg`;
+};
+
+// Extract the binary data from a base64 data URL
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const base64Data = dataUrl.split(',')[1];
+  const binaryData = atob(base64Data);
+  const uint8Array = new Uint8Array(binaryData.length);
+
+  for (let i = 0; i < binaryData.length; i++) {
+    uint8Array[i] = binaryData.charCodeAt(i);
+  }
+
+  return uint8Array;
+};
+
+// Every value of a list in one cell, e.g. "Mobile: +15550199; Work: +15550100"
+const contactCell = (card: CardData, field: ContactField): string =>
+  getContactList(card, field)
+    .map(entry => `${CONTACT_TYPE_LABELS[entry.type]}: ${entry.value}`)
+    .join('; ');
+
+const nameCells = (card: CardData): Record<string, string> => {
+  const parts = getNameParts(card);
+  return {
+    name_prefix: parts.prefix,
+    first_name: parts.given,
+    middle_name: parts.middle,
+    last_name: parts.family,
+    name_suffix: parts.suffix,
+    credentials: parts.credentials,
+  };
+};
+
+const addressCells = (card: CardData): Record<string, string> => {
+  const parts = getAddressParts(card);
+  return {
+    street: parts.street,
+    city: parts.city,
+    region: parts.region,
+    postal_code: parts.postalCode,
+    country: parts.country,
+  };
+};
+
+// One column per network; profiles as links and handles without one as they are
+const socialCells = (card: CardData): Record<string, string> =>
+  Object.fromEntries(
+    SOCIAL_NETWORK_ORDER.map(network => [
+      network,
+      (card.socialProfiles || [])
+        .filter(profile => profile.network === network)
+        .map(profile => (SOCIAL_NETWORKS[network].profileType && socialProfileUrl(profile)) || profile.handle)
+        .join('; '),
+    ])
+  );
+
+// vCard 3.0 TEL types. Direct lines are work numbers; MAIN is understood by the common address books.
+const VCF_PHONE_TYPES: Record<ContactType, string> = {
+  mobile: 'CELL',
+  work: 'WORK,VOICE',
+  direct: 'WORK,VOICE',
+  main: 'MAIN',
+  fax: 'WORK,FAX',
+  other: 'VOICE',
+};
+
+// Backslashes, semicolons and commas separate parts of structured vCard values, and are
+// escaped in plain text values too, so "A;B, C" stays one organization
+const escapeVcfComponent = (value: string): string => value.replace(/[\\;,]/g, '\\$&').replace(/\n/g, '\\n');
+
+// One CSV row per card, with image file names in place of the image data
+export const toCsvRow = (card: CardData, index: number, timestamp: number): Record<string, string> => ({
+  id: card.id,
+  name: card.name,
+  ...nameCells(card),
+  company: card.company,
+  designation: card.designation,
+  email: card.email,
+  phone: card.phone,
+  website: card.website,
+  address: card.address,
+  ...addressCells(card),
+  all_emails: contactCell(card, 'email'),
+  all_phones: contactCell(card, 'phone'),
+  all_websites: contactCell(card, 'website'),
+  ...socialCells(card),
+  imageData: imageFileName(card, index, timestamp), // Reference to the image file
+  backImageData: card.backImageData ? imageFileName(card, index, timestamp, 'back') : '',
+});
+
+// Build a ZIP file containing the CSV and every card image
+export const buildCardsZip = async (cards: CardData[]): Promise<{ blob: Blob; filename: string }> => {
+  const zip = new JSZip();
+  const timestamp = Date.now();
+
+  const csv = Papa.unparse(cards.map((card, index) => toCsvRow(card, index, timestamp)));
+  zip.file(`business-cards-${timestamp}.csv`, csv);
+
+  cards.forEach((card, index) => {
+    try {
+      zip.file(imageFileName(card, index, timestamp), dataUrlToBytes(card.imageData));
+      if (card.backImageData) {
+        zip.file(imageFileName(card, index, timestamp, 'back'), dataUrlToBytes(card.backImageData));
+      }
+    } catch (e) {
+      console.error('Error processing image:', e);
+    }
+  });
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  return { blob, filename: `business-cards-${timestamp}.zip` };
+};
+
+export const buildVcf = (cards: CardData[]): string => {
+  let vcfContent = '';
+  cards.forEach((card) => {
+    vcfContent += 'BEGIN:VCARD\n';
+    vcfContent += 'VERSION:3.0\n';
+
+    // Add name: family; given; middle; prefix; suffix, with credentials after the suffix
+    if (card.name) {
+      const parts = getNameParts(card);
+      const suffixes = [parts.suffix, ...parts.credentials.split(', ')].filter(Boolean);
+      const components = [parts.family, parts.given, parts.middle, parts.prefix].map(escapeVcfComponent);
+      vcfContent += `N:${[...components, suffixes.map(escapeVcfComponent).join(',')].join(';')}\n`;
+      vcfContent += `FN:${escapeVcfComponent(card.name)}\n`;
+    }
+
+    // Add organization
+    if (card.company) {
+      vcfContent += `ORG:${escapeVcfComponent(card.company)}\n`;
+    }
+
+    // Add title
+    if (card.designation) {
+      vcfContent += `TITLE:${escapeVcfComponent(card.designation)}\n`;
+    }
+
+    // Add emails, the first one preferred
+    getContactList(card, 'email').forEach((entry, index) => {
+      const types = ['INTERNET', ...(entry.type === 'work' ? ['WORK'] : []), ...(index === 0 ? ['PREF'] : [])];
+      vcfContent += `EMAIL;TYPE=${types.join(',')}:${entry.value}\n`;
+    });
+
+    // Add phones
+    getContactList(card, 'phone').forEach((entry, index) => {
+      vcfContent += `TEL;TYPE=${VCF_PHONE_TYPES[entry.type]}${index === 0 ? ',PREF' : ''}:${entry.value}\n`;
+    });
+
+    // Add websites
+    getContactList(card, 'website').forEach(entry => {
+      vcfContent += `URL:${entry.value}\n`;
+    });
+
+    // Add social profiles, and messaging handles as instant messaging addresses
+    (card.socialProfiles || []).forEach(profile => {
+      const network = SOCIAL_NETWORKS[profile.network];
+      if (network.profileType) {
+        vcfContent += `X-SOCIALPROFILE;TYPE=${network.profileType}:${socialProfileUrl(profile)}\n`;
+      } else if (network.impp) {
+        vcfContent += `IMPP;X-SERVICE-TYPE=${network.label}:${network.impp(profile.handle)}\n`;
+      }
+    });
+
+    // Add address: PO box; extended; street; city; region; postal code; country
+    if (card.address) {
+      const parts = getAddressParts(card);
+      const components = [parts.street, parts.city, parts.region, parts.postalCode, parts.country];
+      vcfContent += `ADR;TYPE=WORK:;;${components.map(escapeVcfComponent).join(';')}\n`;
+    }
+
+    vcfContent += 'END:VCARD\n\n';
+  });
+  return vcfContent;
+};
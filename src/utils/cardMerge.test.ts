@@ -0,0 +1,54 @@
+import { mergeCardSides, pairCards, unpairCard } from './cardMerge';
+import type { CardData } from './ocrProcessor';
+
+const front: CardData = {
+  id: 'front',
+  name: 'John Smith',
+  company: 'ABC Corporation',
+  designation: 'Senior Software Engineer',
+  email: 'john.smith@abc',
+  phone: '',
+  website: 'www.abccorp.com',
+  address: '123 Main St',
+  imageData: 'data:image/jpeg;base64,front',
+};
+
+const back: CardData = {
+  id: 'back',
+  name: 'JOHN SMITH',
+  company: 'ABC Corp',
+  designation: 'Sales',
+  email: 'john.smith@abccorp.com',
+  phone: '+1 (555) 123-4567',
+  website: 'abccorp.com',
+  address: '123 Main St, Suite 400, New York, NY 10001',
+  imageData: 'data:image/jpeg;base64,back',
+};
+
+describe('Card side merging', () => {
+  test('should resolve each field from the better side', () => {
+    const { id: _frontId, ...frontSide } = front;
+    const { id: _backId, ...backSide } = back;
+    const merged = mergeCardSides(frontSide, backSide);
+
+    expect(merged.name).toBe('John Smith');
+    expect(merged.company).toBe('ABC Corporation');
+    expect(merged.designation).toBe('Senior Software Engineer');
+    expect(merged.email).toBe('john.smith@abccorp.com');
+    expect(merged.phone).toBe('+1 (555) 123-4567');
+    expect(merged.website).toBe('www.abccorp.com');
+    expect(merged.address).toBe('123 Main St, Suite 400, New York, NY 10001');
+    expect(merged.imageData).toBe(front.imageData);
+  });
+
+  test('should keep both images and restore the original cards when unpaired', () => {
+    const paired = pairCards(front, back);
+    expect(paired.id).toBe('front');
+    expect(paired.backImageData).toBe(back.imageData);
+
+    const [restoredFront, restoredBack] = unpairCard(paired);
+    expect(restoredFront).toEqual(front);
+    expect(restoredBack.name).toBe('JOHN SMITH');
+    expect(restoredBack.imageData).toBe(back.imageData);
+  });
+});
@@ -0,0 +1,122 @@
+import { CARD_FIELDS, type CardField, type FieldConfidence, type FieldSources } from './fieldConfidence';
+import type { CardData, CardSide } from './ocrProcessor';
+import { getContactList, isContactField, mergeContactLists, setContactList } from './contactValues';
+import { mergeSocialProfiles } from './socialProfiles';
+import type { OcrCorrection } from './ocrCorrection';
+
+type Side = 'front' | 'back';
+
+const normalize = (value: string): string => value.toLowerCase().replace(/\s+/g, '');
+
+const isValidEmail = (value: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(value);
+
+const isValidPhone = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 7 && digits.length <= 15;
+};
+
+// Pick the side to take a field from when it was read on both sides of a card
+const chooseSide = (field: CardField, front: string, back: string): Side => {
+  if (!front) return back ? 'back' : 'front';
+  if (!back) return 'front';
+
+  const frontKey = normalize(front);
+  const backKey = normalize(back);
+  if (frontKey === backKey) return 'front';
+
+  // One side often has a truncated or partially read copy of the other
+  if (frontKey.includes(backKey)) return 'front';
+  if (backKey.includes(frontKey)) return 'back';
+
+  switch (field) {
+    case 'email':
+      return !isValidEmail(front) && isValidEmail(back) ? 'back' : 'front';
+    case 'phone':
+      return !isValidPhone(front) && isValidPhone(back) ? 'back' : 'front';
+    case 'address':
+      // Addresses are usually complete only on the side that is dedicated to them
+      return back.length > front.length ? 'back' : 'front';
+    default:
+      // Name, title and company are usually printed most prominently on the front
+      return 'front';
+  }
+};
+
+export const mergeCardSides = (front: CardSide, back: CardSide): CardSide => {
+  const confidence: FieldConfidence = {};
+  const sources: FieldSources = {};
+  const qrFields: CardField[] = [];
+  const editedFields: CardField[] = [];
+  const ocrCorrections: OcrCorrection[] = [];
+  const merged: CardSide = { ...front, confidence, sources, qrFields, editedFields, ocrCorrections };
+  CARD_FIELDS.forEach(field => {
+    // Values decoded from a QR code are exact, so they beat anything read by OCR,
+    // and so do values the user has corrected
+    const preferred = (card: CardSide) => card.qrFields?.includes(field) || card.editedFields?.includes(field);
+    const side = preferred(front)
+      ? 'front'
+      : preferred(back)
+        ? 'back'
+        : chooseSide(field, front[field], back[field]);
+    const source = side === 'front' ? front : back;
+    merged[field] = source[field];
+    if (field === 'name') {
+      merged.nameParts = source.nameParts;
+    }
+    if (field === 'address') {
+      merged.addressParts = source.addressParts;
+    }
+    if (isContactField(field)) {
+      // Keep the numbers and addresses of both sides, led by the chosen side's
+      const other = side === 'front' ? back : front;
+      Object.assign(
+        merged,
+        setContactList(field, mergeContactLists(field, getContactList(source, field), getContactList(other, field)))
+      );
+    }
+    if (source.qrFields?.includes(field)) {
+      qrFields.push(field);
+    }
+    if (source.editedFields?.includes(field)) {
+      editedFields.push(field);
+    }
+    ocrCorrections.push(...(source.ocrCorrections || []).filter(correction => correction.field === field));
+    // The confidence and source boxes follow the value they belong to
+    if (source.confidence?.[field] !== undefined) {
+      confidence[field] = source.confidence[field];
+    }
+    const fieldSource = source.sources?.[field];
+    if (fieldSource) {
+      sources[field] = { ...fieldSource, side };
+    }
+  });
+  merged.socialProfiles = mergeSocialProfiles(front.socialProfiles || [], back.socialProfiles || []);
+  return merged;
+};
+
+// Strip the pairing data from a card so it can be stored as one side
+export const toCardSide = ({ id, backImageData, sides, ...side }: CardData): CardSide => side;
+
+// Combine two cards into one record that keeps the front's id
+export const pairCards = (front: CardData, back: CardData): CardData => {
+  const frontSide = toCardSide(front);
+  const backSide = toCardSide(back);
+  return {
+    id: front.id,
+    ...mergeCardSides(frontSide, backSide),
+    backImageData: backSide.imageData,
+    sides: [frontSide, backSide],
+  };
+};
+
+// Turn a paired card back into the two cards it was made from
+export const unpairCard = (card: CardData): CardData[] => {
+  if (!card.sides || card.sides.length !== 2) {
+    return [card];
+  }
+  const [frontSide, backSide] = card.sides;
+  return [
+    { id: card.id, ...frontSide },
+    { id: `${card.id}-back`, ...backSide },
+  ];
+};
@@ -0,0 +1,663 @@
+import type { CardData } from './ocrProcessor';
+import { detectPhoneType, type ContactType, type ContactValue } from './contactValues';
+import { findCountryMatch } from './countries';
+import { inferPhoneCountry, normalizeCardPhones, type CountryCode } from './phoneNumbers';
+import { isLocalityLine, isPostalCode, setAddressText } from './postalAddress';
+import { findCompanyName, hasLegalSuffix } from './companyName';
+import { nameLineWords, setNameText } from './personName';
+import { extractSocialProfiles, hasSocialProfile, isSocialProfileUrl, normalizeSocialProfiles } from './socialProfiles';
+import { correctOcrText } from './ocrCorrection';
+
+export interface ParseCardOptions {
+  defaultCountry?: CountryCode; // For phone numbers without a country code when the card names no country
+}
+
+// Map digits from other scripts to ASCII so phone, postal code and address
+// checks work on Arabic, Persian and Devanagari cards. NFKC also folds the
+// full-width forms (＠, ０-９, Ａ-Ｚ) that are common on CJK cards.
+const DIGIT_RANGE_STARTS = [0x0660, 0x06f0, 0x0966];
+
+export const normalizeScriptCharacters = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .replace(/[\u0660-\u0669\u06F0-\u06F9\u0966-\u096F]/g, digit => {
+      const code = digit.charCodeAt(0);
+      const start = DIGIT_RANGE_STARTS.find(base => code >= base && code <= base + 9)!;
+      return String(code - start);
+    });
+
+export const parseCardData = (
+  text: string,
+  imageData: string = '',
+  options: ParseCardOptions = {}
+): Omit<CardData, 'id'> => {
+  text = normalizeScriptCharacters(text);
+  // Repair misread "@" signs, domains and digits first, so the patterns below can find them
+  const { text: correctedText, corrections } = correctOcrText(text);
+  text = correctedText;
+  
+  // Clean and normalize text
+  const normalizedText = text
+    .replace(/\s+/g, ' ') // normalize whitespace
+    .replace(/['']/g, "'") // normalize quotes
+    .trim();
+  
+  const lines = text.split('\n').filter(line => line.trim());
+  
+  // Enhanced email regex - case insensitive
+  const emailRegex = /[\w.+-]+@[\w-]+\.[\w.-]+/gi;
+  const emailMatches = normalizedText.match(emailRegex);
+  const emails: string[] = emailMatches ? Array.from(emailMatches).map(e => e.toLowerCase()) : [];
+  
+  // PHONE EXTRACTION:
+  // Completely rewrite phone extraction with simpler, more effective approach
+  let cleanPhones: string[] = [];
+  
+  // Simple but effective phone regex that captures + format numbers. Lines are matched one by
+  // one, so a postal code at the end of a line is not joined to the number on the next.
+  const simplePhoneRegex = /[\+]?[\d\s\-\(\)]{7,20}/g;
+  const simplePhoneMatches = lines.flatMap(line => line.match(simplePhoneRegex) || []);
+  if (simplePhoneMatches.length > 0) {
+    for (const phone of simplePhoneMatches) {
+      if (isPostalCode(phone)) continue;
+      // Clean the phone number - keep only digits and + at the beginning
+      let cleanPhone = phone.replace(/[^+\d]/g, '');
+      // Ensure + is only at the beginning if present
+      if (cleanPhone.startsWith('+')) {
+        cleanPhone = '+' + cleanPhone.substring(1);
+      }
+      // Validate the cleaned phone - 7-15 digits
+      const digitsOnly = cleanPhone.replace(/\+/g, '');
+      if (digitsOnly.length >= 7 && digitsOnly.length <= 15 && /\d/.test(digitsOnly)) {
+        // Avoid duplicates
+        if (!cleanPhones.includes(cleanPhone)) {
+          cleanPhones.push(cleanPhone);
+        }
+      }
+    }
+  }
+  
+  // Whether the line prints one of the phone numbers, compared by digits since the line
+  // groups them with spaces, dashes or brackets, e.g. "T: 022 2345 6789"
+  const isPhoneLine = (line: string): boolean =>
+    (line.match(simplePhoneRegex) || []).some(match =>
+      cleanPhones.some(phone => phone.replace(/\D/g, '') === match.replace(/\D/g, ''))
+    );
+  
+  // Enhanced phone regex - supports various formats including country codes
+  // More comprehensive regex to capture different phone number formats
+  const phoneRegex = /(\+?\d{1,4}[-.\s]?)?\(?\d{1,4}\)?[-.\s]?\d{1,4}[-.\s]?\d{1,4}[-.\s]?\d{1,9}/g;
+  const phoneMatches = lines.flatMap(line => line.match(phoneRegex) || []);
+  const phones: string[] = Array.from(new Set(phoneMatches.map(p => p.trim())));
+  
+  // Website regex - find www. patterns or domains with suffixes
+  const websiteRegex = /((https?:\/\/)?(www\.)?[\w-]+\.[\w.-]+)/gi;
+  // Profile links such as linkedin.com/in/... are social profiles, not the website
+  const websiteMatches = (normalizedText.match(websiteRegex) || []).filter(match => !isSocialProfileUrl(match));
+  const websiteFromText = websiteMatches.length > 0 ? websiteMatches[0].toLowerCase() : '';
+  
+  // ONLY use website from email if it was explicitly found in text
+  // DO NOT generate website URL from email domain
+  const websiteFromEmail = emails.length > 0 ? websiteFromText : '';
+  
+  // Comprehensive designation keywords
+  const designationKeywords: string[] = [
+    'Lead', 'Investment Executive', 'Co-Founder', 'Business Development Manager', 'BDE', 
+    'Director', 'Head', 'Vice President', 'Senior Consultant', 'Consultant', 'Sr Consultant', 
+    'AI', "Founder's", 'Founder', 'Investor Relations',
+    'Chairman', 'Chairperson', 'CEO', 'Chief Executive Officer', 'President', 
+    'COO', 'Chief Operating Officer', 'CFO', 'Chief Financial Officer',
+    'CIO', 'Chief Information Officer', 'CTO', 'Chief Technology Officer',
+    'CMO', 'Chief Marketing Officer', 'CHRO', 'Chief Human Resources Officer',
+    'CSO', 'Chief Strategy Officer', 'CPO', 'Chief Product Officer',
+    'CLO', 'Chief Legal Officer', 'CAO', 'Chief Administrative Officer',
+    'Vice President', 'VP', 'Director', 'Senior Manager', 'Manager',
+    'Assistant Manager', 'Team Lead', 'Supervisor', 'Executive', 'Associate',
+    'Coordinator', 'Assistant', 'Intern', 'Trainee', 'Software Engineer',
+    'Senior Software Engineer', 'Lead Developer', 'Principal Engineer',
+    'Solutions Architect', 'Cloud Architect', 'DevOps Engineer',
+    'Data Engineer', 'ML Engineer', 'AI Engineer', 'Data Analyst',
+    'Business Analyst', 'Data Scientist', 'AI Researcher', 'BI Developer',
+    'Product Manager', 'Product Owner', 'Program Manager', 'Scrum Master',
+    'Project Manager', 'IT Support Engineer', 'Systems Administrator',
+    'Network Engineer', 'Cybersecurity Analyst', 'Security Architect',
+    'Plant Manager', 'Production Manager', 'Quality Control Officer',
+    'QA/QC Engineer', 'Maintenance Engineer', 'Manufacturing Engineer',
+    'Machine Operator', 'Line Supervisor', 'Process Engineer',
+    'Investment Banker', 'Financial Analyst', 'Portfolio Manager',
+    'Loan Officer', 'Branch Manager', 'Relationship Manager',
+    'Actuary', 'Underwriter', 'Claims Officer', 'Auditor', 'Tax Consultant',
+    'Sales Executive', 'Sales Manager', 'Business Development Manager',
+    'Key Account Manager', 'Area Sales Manager', 'Regional Sales Manager',
+    'Marketing Executive', 'Digital Marketing Specialist', 'SEO Specialist',
+    'Brand Manager', 'Content Strategist', 'HR Manager', 'HR Business Partner',
+    'Talent Acquisition Specialist', 'Recruitment Manager', 'HR Generalist',
+    'Employee Relations Manager', 'Training & Development Manager',
+    'Compensation & Benefits Analyst', 'Teacher', 'Lecturer', 'Professor',
+    'Academic Coordinator', 'Principal', 'Dean', 'Trainer',
+    'Instructional Designer', 'Research Scholar', 'Store Manager',
+    'Retail Associate', 'Cashier', 'Sales Advisor', 'Hotel Manager',
+    'Front Desk Executive', 'Chef', 'Housekeeping Supervisor',
+    'Travel Consultant', 'Tour Guide', 'Supply Chain Manager',
+    'Logistics Coordinator', 'Warehouse Manager', 'Inventory Analyst',
+    'Procurement Manager', 'Fleet Manager', 'Transport Supervisor',
+    'Dispatcher', 'Civil Engineer', 'Site Engineer', 'Project Engineer',
+    'Architect', 'Interior Designer', 'Safety Officer',
+    'Construction Supervisor', 'Structural Engineer', 'Graphic Designer',
+    'UI/UX Designer', 'Video Editor', 'Animator', 'Creative Director',
+    'Copywriter', 'Journalist', 'Photographer', 'Social Media Manager',
+    'Petroleum Engineer', 'Drilling Engineer', 'Geologist',
+    'Refinery Operator', 'HSE Officer', 'Pipeline Engineer',
+    'Field Technician', 'Officer', 'Inspector', 'Superintendent',
+    'Director-General', 'Commissioner', 'Specialist', 'Analyst',
+    'Clerk', 'Assistant', 'Lawyer', 'Attorney', 'Legal Advisor',
+    'Corporate Counsel', 'Paralegal', 'Legal Associate', 'Compliance Officer',
+    // German
+    'Geschäftsführer', 'Geschäftsführerin', 'Leiter', 'Leiterin', 'Inhaber', 'Prokurist', 'Vertrieb',
+    // Japanese
+    '代表取締役', '取締役', '社長', '部長', '課長', '主任', '係長',
+    // Chinese
+    '董事长', '董事長', '总经理', '總經理', '经理', '經理', '总监', '總監', '主管',
+    // Korean
+    '대표', '이사', '부장', '과장', '팀장',
+    // Hindi
+    'प्रबंधक', 'निदेशक', 'अध्यक्ष', 'मुख्य कार्यकारी अधिकारी',
+    // Arabic
+    'مدير', 'المدير', 'رئيس',
+    // Russian
+    'Директор', 'Менеджер', 'Руководитель'
+  ];
+  
+  let designation = '';
+  let name = '';
+  let company = '';
+  let address = ''; // Initialize address here
+  
+  // Extract email username for validation (part before @)
+  let emailUsername = '';
+  if (emails.length > 0 && emails[0].includes('@')) {
+    emailUsername = emails[0].split('@')[0].toLowerCase();
+  }
+  
+  // NEW RULE IMPLEMENTATION:
+  // 1. Check email address for name (emailUsername)
+  // 2. Look in the entire card to search for the name
+  // 3. Put correct name in column after this validation
+  if (emailUsername) {
+    // Look for exact or close matches to the email username in the entire card
+    const potentialNames: {name: string, words: string[], lineIndex: number}[] = [];
+    
+    // Collect all potential names from the card
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      
+      // Skip empty lines
+      if (!line) continue;
+      
+      // Skip lines with numbers, emails, phones, websites
+      const hasNumbers = /\d/.test(line);
+      const hasEmail = emails.some(e => line.toLowerCase().includes(e));
+      const hasPhone = isPhoneLine(line);
+      const isWebsite = line.toLowerCase().includes('www.') || line.toLowerCase().includes('.com') || line.toLowerCase().includes('.org');
+      
+      if (hasNumbers || hasEmail || hasPhone || isWebsite || hasLegalSuffix(line) || hasSocialProfile(line)) continue;
+      
+      // Skip if it's a designation
+      const isDesignation = designationKeywords.some(kw => 
+        line.toLowerCase().includes(kw.toLowerCase())
+      );
+      
+      if (isDesignation) continue;
+      
+      // Check for names with reasonable length (1-4 words). Honorifics, initials and
+      // credentials keep their dots and commas, and don't count as words.
+      const words = nameLineWords(line);
+      const isReasonableLength = words !== undefined && words.length >= 1 && words.length <= 4;
+      
+      if (words && isReasonableLength) {
+        // Additional validation: should not contain special characters typical of non-names
+        const hasSpecialChars = /[!@#$%^&*()?":{}|<>]/.test(line);
+        if (!hasSpecialChars) {
+          potentialNames.push({name: line, words, lineIndex: i});
+        }
+      }
+    }
+    
+    // Look for exact or close matches to the email username, ignoring the dots and
+    // underscores between its parts
+    const usernameParts = emailUsername.split(/[._-]+/).filter(Boolean);
+    const usernameKey = usernameParts.join('');
+    for (const potentialName of potentialNames) {
+      // Compare the name's words in lowercase, without spaces, honorifics or credentials
+      const nameWords = potentialName.words.map(word => word.toLowerCase().replace(/\./g, ''));
+      const nameForComparison = nameWords.join('');
+      
+      // Check if name matches or is similar to email username, e.g. anil.sharma for "Anil Kumar Sharma"
+      if (usernameKey === nameForComparison || 
+          usernameKey.includes(nameForComparison) || 
+          nameForComparison.includes(usernameKey) ||
+          (usernameParts.length > 1 && usernameParts.every(part => nameWords.includes(part)))) {
+        name = potentialName.name;
+        break;
+      }
+    }
+    
+    // A non-Latin name can never match a romanized email username, so prefer
+    // it over a name made up from the email
+    if (!name) {
+      const nonLatinName = potentialNames.find(p => /\p{L}/u.test(p.name) && !/[A-Za-z]/.test(p.name));
+      if (nonLatinName) {
+        name = nonLatinName.name;
+      }
+    }
+  }
+  
+  // ONLY FALLBACK: If no matching name found in card, extract from email
+  if (!name && emailUsername) {
+    // Convert email username to proper name format (replace dots with spaces and capitalize)
+    let extractedName = emailUsername.replace(/\./g, ' ') // Replace dots with spaces
+      .replace(/\b\w/g, char => char.toUpperCase()) // Capitalize first letter of each word
+      .trim();
+    
+    // Validate the extracted name (1-4 words, no numbers)
+    const words = extractedName.split(' ');
+    const hasNumbers = /\d/.test(extractedName);
+    const isReasonableLength = words.length >= 1 && words.length <= 4;
+    
+    if (isReasonableLength && !hasNumbers) {
+      name = extractedName;
+    }
+  }
+  
+  // Ensure name is never blank - fallback to first potential name if nothing else works
+  if (!name) {
+    // Look for any potential name in the card as last resort
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      
+      // Skip empty lines
+      if (!line) continue;
+      
+      // Skip lines with numbers, emails, phones, websites
+      const hasNumbers = /\d/.test(line);
+      const hasEmail = emails.some(e => line.toLowerCase().includes(e));
+      const hasPhone = isPhoneLine(line);
+      const isWebsite = line.toLowerCase().includes('www.') || line.toLowerCase().includes('.com') || line.toLowerCase().includes('.org');
+      
+      if (hasNumbers || hasEmail || hasPhone || isWebsite || hasLegalSuffix(line) || hasSocialProfile(line)) continue;
+      
+      // Skip if it's a designation
+      const isDesignation = designationKeywords.some(kw => 
+        line.toLowerCase().includes(kw.toLowerCase())
+      );
+      
+      if (isDesignation) continue;
+      
+      // Check for names with reasonable length (1-4 words). Honorifics, initials and
+      // credentials keep their dots and commas, and don't count as words.
+      const words = nameLineWords(line);
+      const isReasonableLength = words !== undefined && words.length >= 1 && words.length <= 4;
+      
+      if (words && isReasonableLength) {
+        // Additional validation: should not contain special characters typical of non-names
+        const hasSpecialChars = /[!@#$%^&*()?":{}|<>]/.test(line);
+        if (!hasSpecialChars) {
+          name = line;
+          break;
+        }
+      }
+    }
+  }
+  
+  // DESIGNATION EXTRACTION:
+  // Extract designation separately to avoid contamination with other fields
+  for (const line of lines) {
+    for (const keyword of designationKeywords) {
+      // Check for exact matches or partial matches
+      if (line.toLowerCase().includes(keyword.toLowerCase())) {
+        // Ensure this line is not already captured as name, company, email, phone, website, or address
+        const isAlreadyCaptured = 
+          (name && line.toLowerCase().includes(name.toLowerCase())) ||
+          (company && line.toLowerCase().includes(company.toLowerCase())) ||
+          emails.some(e => line.toLowerCase().includes(e)) ||
+          isPhoneLine(line) ||
+          (websiteFromEmail && line.toLowerCase().includes(websiteFromEmail.toLowerCase())) ||
+          (websiteFromText && line.toLowerCase().includes(websiteFromText.toLowerCase())) ||
+          (address && line.toLowerCase().includes(address.toLowerCase()));
+        
+        if (!isAlreadyCaptured) {
+          designation = line.trim();
+          break;
+        }
+      }
+    }
+    if (designation) break;
+  }
+  
+  // WEBSITE EXTRACTION:
+  // Use ONLY websites found in the text, never generate from company name or email
+  // Specifically look for websites starting with www.
+  let finalWebsite = '';
+  
+  // More precise regex to capture websites starting with www.
+  const wwwWebsiteRegex = /(https?:\/\/)?(www\.[\w-]+\.[\w.-]+)/gi;
+  const wwwWebsiteMatches = (normalizedText.match(wwwWebsiteRegex) || []).filter(match => !isSocialProfileUrl(match));
+  
+  if (wwwWebsiteMatches && wwwWebsiteMatches.length > 0) {
+    // Take the first match that starts with www.
+    for (const match of wwwWebsiteMatches) {
+      if (match.toLowerCase().includes('www.')) {
+        finalWebsite = match.toLowerCase();
+        break;
+      }
+    }
+  }
+  
+  // Fallback to previous method if no www. website found
+  if (!finalWebsite) {
+    if (websiteFromText && websiteFromText.includes('www')) {
+      finalWebsite = websiteFromText;
+    } else if (websiteFromEmail && websiteFromEmail.includes('www')) {
+      finalWebsite = websiteFromEmail;
+    }
+  }
+  
+  // Ensure website always starts with www. and has proper format
+  if (finalWebsite) {
+    // Remove any cleaning that might have removed dots
+    // Extract domain part and ensure proper www. format
+    const domainMatch = finalWebsite.match(/(?:https?:\/\/)?(www\.[^\s]+)/i);
+    if (domainMatch && domainMatch[1]) {
+      finalWebsite = domainMatch[1]; // Use the www. version directly
+    }
+  }
+  
+  // ADDRESS EXTRACTION:
+  // Implement the specific rules you provided
+  // Characteristics: Longest multi-line block containing words + digits + commas
+  // Must contain address indicators (Road, Street, Lane, Floor, City, ZIP)
+  
+  // Address indicators as specified
+  const addressKeywords = [
+    'road', 'street', 'st', 'ave', 'avenue', 'lane', 'block', 'tower', 'floor', 
+    'city', 'zip', 'postal', 'po box', 'building', 'bldg', 'suite', 'apartment', 'apt',
+    'drive', 'dr', 'court', 'ct', 'place', 'pl', 'boulevard', 'blvd', 'circle', 'cr',
+    'india', 'us', 'usa', 'united states', 'uk', 'united kingdom', 'canada', 'australia',
+    // German
+    'straße', 'strasse', 'str.', 'platz', 'weg', 'allee', 'gasse', 'deutschland', 'germany',
+    // Japanese, Chinese and Korean
+    '〒', '都', '道', '府', '県', '市', '区', '町', '丁目', '番地', '号', '路', '街', '省', '大厦', '大廈', '楼', '樓', '동', '로', '길',
+    // Hindi
+    'मार्ग', 'नगर', 'रोड', 'सड़क',
+    // Arabic
+    'شارع', 'طريق', 'مبنى', 'ص.ب',
+    // Russian
+    'улица', 'ул.', 'проспект', 'дом'
+  ];
+  
+  // Email, phone, website and social profile lines
+  const isContactLine = (line: string): boolean =>
+    emails.some(e => line.toLowerCase().includes(e.toLowerCase())) ||
+    isPhoneLine(line) ||
+    (!!finalWebsite && line.toLowerCase().includes(finalWebsite.toLowerCase())) ||
+    hasSocialProfile(line);
+  
+  // Whole words for Latin keywords, so "dr" is not found in "Andrew"
+  const hasAddressWord = (line: string): boolean => {
+    const lowerLine = line.toLowerCase();
+    return addressKeywords.some(keyword =>
+      /^[a-z. ]+$/.test(keyword)
+        ? new RegExp(`(?<!\\p{L})${keyword.replace(/\./g, '\\.')}(?!\\p{L})`, 'u').test(lowerLine)
+        : lowerLine.includes(keyword)
+    );
+  };
+  
+  // Addresses printed over several lines are built around the locality line, the last one
+  // with a postal code or country: up to three street lines above it and a country line below
+  let addressBlock = '';
+  let localityIndex = lines.length - 1;
+  while (localityIndex >= 0) {
+    const line = lines[localityIndex].trim();
+    if (!isContactLine(line) && !hasLegalSuffix(line) && isLocalityLine(line)) break;
+    localityIndex--;
+  }
+  if (localityIndex !== -1) {
+    const isStreetLine = (line: string): boolean =>
+      !isContactLine(line) && !hasLegalSuffix(line) && line !== name && line !== designation &&
+      ((/\d/.test(line) && /\p{L}/u.test(line)) || hasAddressWord(line));
+    let start = localityIndex;
+    while (start > 0 && localityIndex - start < 3 && isStreetLine(lines[start - 1].trim())) {
+      start--;
+    }
+    let end = localityIndex;
+    const nextLine = lines[end + 1]?.trim();
+    if (nextLine && !/\d/.test(nextLine) && !isContactLine(nextLine) && findCountryMatch(nextLine) &&
+        nextLine.split(/\s+/).length <= 3) {
+      end++;
+    }
+    const block = lines.slice(start, end + 1).map(line => line.trim()).join(', ');
+    // A country on its own, e.g. in a company line, is not an address
+    if (/\d/.test(block)) {
+      addressBlock = block;
+    }
+  }
+  
+  // Without a locality line, find the longest continuous text block that matches address criteria
+  let bestAddressCandidate = '';
+  
+  // Process lines from bottom up since addresses are often at the bottom
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    
+    // Skip empty lines
+    if (!line) continue;
+    
+    // Skip if it's clearly not an address (phone numbers, emails, websites, profiles)
+    if (isContactLine(line)) continue;
+    
+    // Check if line has address characteristics
+    const hasNumbers = /\d/.test(line);
+    const hasCommas = line.includes(',');
+    const hasAddressKeyword = addressKeywords.some(keyword => 
+      line.toLowerCase().includes(keyword.toLowerCase())
+    );
+    
+    // Must have numbers and either commas or address keywords
+    if (hasNumbers && (hasCommas || hasAddressKeyword)) {
+      // Additional validation - should not contain designation keywords
+      const isDesignation = designationKeywords.some(kw => 
+        line.toLowerCase().includes(kw.toLowerCase())
+      );
+      
+      // Also check that it doesn't contain junk characters like $
+      const hasJunkChars = /[\$]/.test(line);
+      
+      if (!isDesignation && !hasJunkChars) {
+        // This looks like a good address candidate
+        // Check if it's longer than our current best
+        if (line.length > bestAddressCandidate.length) {
+          bestAddressCandidate = line;
+        }
+      }
+    }
+  }
+  
+  // If we didn't find a good candidate, try a different approach
+  // Look for multi-line blocks that might contain addresses
+  if (!bestAddressCandidate) {
+    // Join consecutive lines and look for address patterns
+    for (let i = Math.max(0, lines.length - 10); i < lines.length; i++) {
+      // Try combining current line with next few lines
+      for (let j = 1; j <= 3 && i + j < lines.length; j++) {
+        const combinedLines = lines.slice(i, i + j + 1).join(', ').trim();
+        
+        // Skip if empty
+        if (!combinedLines) continue;
+        
+        // Skip if it's clearly not an address. Each line is checked on its own, so digits
+        // are not matched across the joins.
+        if (lines.slice(i, i + j + 1).some(line => isContactLine(line.trim()))) continue;
+        
+        // Check address characteristics
+        const hasNumbers = /\d/.test(combinedLines);
+        const hasCommas = combinedLines.includes(',');
+        const hasAddressKeyword = addressKeywords.some(keyword => 
+          combinedLines.toLowerCase().includes(keyword.toLowerCase())
+        );
+        
+        // Must have numbers and either commas or address keywords
+        if (hasNumbers && (hasCommas || hasAddressKeyword)) {
+          // Additional validation
+          const isDesignation = designationKeywords.some(kw => 
+            combinedLines.toLowerCase().includes(kw.toLowerCase())
+          );
+          
+          // Also check that it doesn't contain junk characters like $
+          const hasJunkChars = /[\$]/.test(combinedLines);
+          
+          if (!isDesignation && !hasJunkChars) {
+            // This looks like a good address candidate
+            if (combinedLines.length > bestAddressCandidate.length) {
+              bestAddressCandidate = combinedLines;
+            }
+          }
+        }
+      }
+    }
+  }
+  
+  // Set the address ONLY if we found a valid candidate
+  // If no valid address found, address remains empty string as initialized
+  if (addressBlock || bestAddressCandidate) {
+    address = addressBlock || bestAddressCandidate;
+  }
+  // If no valid address found, address remains empty string (blank)
+  
+  // COMPANY EXTRACTION:
+  // Legal suffix, business words, logo area near the top and letter case, with the
+  // website or email domain as a tiebreaker and a last resort
+  company = findCompanyName({
+    lines,
+    excludedLines: [name, designation, address].filter(Boolean),
+    domains: [finalWebsite, ...emails.map(email => email.split('@')[1] || '')].filter(Boolean),
+  });
+
+  // Remove ALL junk characters from all fields EXCEPT email and website.
+  // Letters and combining marks of every script are kept, so Devanagari vowel
+  // signs, Arabic and CJK text survive, as do hyphens and apostrophes inside
+  // names such as Al-Farsi or O'Brien.
+  const cleanText = (text: string): string => {
+    if (!text) return '';
+    return text
+      .replace(/(?<!\p{L})['-]|['-](?!\p{L})/gu, '') // Drop hyphens and apostrophes that are not inside a word
+      .replace(/[!*~"/\\(),.?;:#^&[\]{}|<>`=+_]/g, '') // Remove ALL junk characters except @ and .
+      .replace(/[、。・「」『』【】《》〈〉،؛؟।]/g, ' ') // CJK, Arabic and Devanagari punctuation
+      .replace(/\s+/g, ' ') // Normalize whitespace
+      .trim();
+  };
+  
+  // Names keep the dots of honorifics and initials and the commas before credentials,
+  // which parsePersonName reads them by
+  const cleanName = (text: string): string => {
+    if (!text) return '';
+    return text
+      .replace(/(?<!\p{L})['-]|['-](?!\p{L})/gu, '')
+      .replace(/[!*~"/\\()?;:#^&[\]{}|<>`=+_]/g, '')
+      .replace(/[、。・「」『』【】《》〈〉،؛؟।]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s,.]+|[\s,]+$/g, '');
+  };
+  
+  // Addresses keep the commas their parts are split by, and the dots, dashes, slashes and
+  // # of abbreviations, postal codes and unit numbers
+  const cleanAddress = (text: string): string => {
+    if (!text) return '';
+    return text
+      .replace(/[!*~"\\()?;:^[\]{}|<>`=+_$]/g, '')
+      .replace(/[、。・「」『』【】《》〈〉،؛؟।]/g, ' ')
+      .replace(/\s*,[\s,]*/g, ', ')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s,.-]+|[\s,-]+$/g, '');
+  };
+  
+  // Special cleaner for website that preserves dots
+  const cleanWebsite = (text: string): string => {
+    if (!text) return '';
+    return text
+      .replace(/[!*~"'/\-\\(),?;:#^&[\]{}|<>`=+_\$]/g, '') // Remove junk characters but keep dots and @
+      .replace(/\s+/g, ' ') // Normalize whitespace
+      .trim();
+  };
+  
+  // Special cleaner for designation that removes junk characters including $
+  const cleanDesignation = (text: string): string => {
+    if (!text) return '';
+    return text
+      .replace(/[!*~"'/\-\\(),.?;:#^&[\]{}|<>`=+_\$]/g, '') // Remove junk characters including $
+      .replace(/\s+/g, ' ') // Normalize whitespace
+      .trim();
+  };
+  
+  // Ensure email is always populated if we have one (and always contains @)
+  const finalEmail = emails[0] || '';
+  
+  // Ensure phone is never blank - try multiple approaches
+  let finalPhone = '';
+  if (cleanPhones.length > 0) {
+    finalPhone = cleanPhones[0];
+  } else if (phones.length > 0) {
+    // Fallback to original phone matches if clean phones is empty
+    finalPhone = phones[0];
+  }
+  
+  // Type each phone number by the label before it on its line ("M:", "Tel", "Fax", ...)
+  const phoneTypes = new Map<string, ContactType>();
+  for (const line of lines) {
+    let labelStart = 0;
+    for (const match of line.matchAll(simplePhoneRegex)) {
+      const value = match[0].replace(/[^+\d]/g, '');
+      if (!phoneTypes.has(value)) {
+        phoneTypes.set(value, detectPhoneType(line.slice(labelStart, match.index)));
+      }
+      labelStart = (match.index ?? 0) + match[0].length;
+    }
+  }
+  const phoneValues = cleanPhones.length > 0 ? cleanPhones : finalPhone ? [finalPhone] : [];
+  const phoneList: ContactValue[] = phoneValues.map(value => ({
+    value,
+    type: phoneTypes.get(value.replace(/[^+\d]/g, '')) ?? 'work',
+  }));
+  
+  // Every email and www. address, with the ones picked above first
+  const emailList: ContactValue[] = Array.from(new Set(emails)).map(value => ({ value, type: 'work' }));
+  const websiteList: ContactValue[] = Array.from(
+    new Set(
+      [finalWebsite, ...(wwwWebsiteMatches || []).map(match => match.match(/(?:https?:\/\/)?(www\.[^\s]+)/i)?.[1] ?? '')]
+        .filter(Boolean)
+        .map(website => cleanWebsite(website.toLowerCase()))
+    )
+  ).map(value => ({ value, type: 'work' }));
+  
+  const parsed: Omit<CardData, 'id'> = {
+    ...setNameText(name ? cleanName(name) : ''), // Split into parts for N and the CRM columns
+    company, // Already trimmed; keeps the dots and ampersands of names like "Smith & Co. Ltd."
+    designation: designation ? cleanDesignation(designation) : '', // Use special cleaner for designation
+    email: finalEmail, // Keep email as is to preserve @
+    phone: finalPhone,
+    website: finalWebsite ? cleanWebsite(finalWebsite) : '', // Use special cleaner for website
+    ...setAddressText(address ? cleanAddress(address) : ''), // Only set if we found a valid address
+    emails: emailList,
+    phones: phoneList,
+    websites: websiteList,
+    socialProfiles: extractSocialProfiles(text),
+    ocrCorrections: corrections,
+    imageData: imageData, // Base64 encoded image data
+  };
+  
+  // Store phone and WhatsApp numbers in E.164, reading local numbers in the country the card points to
+  return {
+    ...parsed,
+    ...normalizeCardPhones(parsed, options.defaultCountry),
+    socialProfiles: normalizeSocialProfiles(parsed.socialProfiles, inferPhoneCountry(parsed, options.defaultCountry)),
+  };
+};
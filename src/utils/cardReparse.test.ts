@@ -0,0 +1,95 @@
+import { reparseCard } from './cardReparse';
+import { pairCards } from './cardMerge';
+import type { CardData } from './ocrProcessor';
+
+const word = (text: string, confidence: number, x0: number) => ({
+  text,
+  confidence,
+  bbox: { x0, y0: 0, x1: x0 + 50, y1: 20 },
+});
+
+const scannedCard = (id: string, rawText: string): CardData => ({
+  id,
+  name: '',
+  company: '',
+  designation: '',
+  email: '',
+  phone: '',
+  website: '',
+  address: '',
+  imageData: `data:image/jpeg;base64,${id}`,
+  rawText,
+  ocr: {
+    engine: 'tesseract',
+    languages: 'eng',
+    startedAt: '2024-01-01T00:00:00.000Z',
+    completedAt: '2024-01-01T00:00:05.000Z',
+    parsedAt: '2024-01-01T00:00:05.000Z',
+    words: [word('Jane', 91, 0), word('Doe', 87, 60), word('jane@acme.com', 78, 120)],
+  },
+});
+
+// Stands in for an improved parser
+const parse = async (text: string) => ({
+  name: text.split('\n')[0],
+  company: 'Acme',
+  designation: '',
+  email: text.match(/\S+@\S+/)?.[0] || '',
+  phone: '',
+  website: '',
+  address: '',
+});
+
+describe('reparseCard', () => {
+  test('replaces parsed values but keeps edited and QR fields', async () => {
+    const card: CardData = {
+      ...scannedCard('card', 'Jane Doe\njane@acme.com'),
+      name: 'Jane D.',
+      company: 'ACME Inc.',
+      phone: '+1 555 0100',
+      editedFields: ['company'],
+      qrFields: ['phone'],
+      confidence: { company: 40 },
+    };
+
+    const result = await reparseCard(card, parse);
+
+    expect(result.name).toBe('Jane Doe');
+    expect(result.email).toBe('jane@acme.com');
+    expect(result.company).toBe('ACME Inc.');
+    expect(result.phone).toBe('+1 555 0100');
+    expect(result.confidence).toEqual({ name: 89, email: 78, company: 40 });
+    expect(result.sources?.name?.boxes).toHaveLength(2);
+    expect(result.ocr?.parsedAt).not.toBe(card.ocr?.parsedAt);
+  });
+
+  test('keeps the profiles of the QR code and profiles corrected by hand', async () => {
+    const card: CardData = {
+      ...scannedCard('card', 'Jane Doe\njane@acme.com'),
+      qrPayload: 'https://www.linkedin.com/in/janedoe',
+      socialProfiles: [{ network: 'linkedin', handle: 'in/janedoe' }],
+    };
+    const parseProfiles = async (text: string) => ({ ...(await parse(text)), socialProfiles: [{ network: 'x' as const, handle: 'janedoe' }] });
+
+    expect((await reparseCard(card, parseProfiles)).socialProfiles).toEqual([
+      { network: 'linkedin', handle: 'in/janedoe' },
+      { network: 'x', handle: 'janedoe' },
+    ]);
+
+    const edited: CardData = { ...card, socialProfiles: [{ network: 'telegram', handle: 'janedoe' }], socialProfilesEdited: true };
+    expect((await reparseCard(edited, parseProfiles)).socialProfiles).toEqual(edited.socialProfiles);
+  });
+
+  test('re-parses both sides of a paired card and keeps edits made after pairing', async () => {
+    const paired = pairCards(scannedCard('front', 'Jane Doe'), scannedCard('back', 'Jane Doe\njane@acme.com'));
+    const edited: CardData = { ...paired, name: 'Dr. Jane Doe', editedFields: ['name'] };
+
+    const result = await reparseCard(edited, parse);
+
+    expect(result.name).toBe('Dr. Jane Doe');
+    expect(result.email).toBe('jane@acme.com');
+    expect(result.sources?.email?.side).toBe('back');
+    expect(result.sides?.[1].email).toBe('jane@acme.com');
+    expect(result.backImageData).toBe(paired.backImageData);
+  });
+});
@@ -0,0 +1,106 @@
+import { CARD_FIELDS, computeFieldConfidence, computeFieldSources, type CardField } from './fieldConfidence';
+import { mergeCardSides } from './cardMerge';
+import type { CardData, CardSide } from './ocrProcessor';
+import { CONTACT_LIST_KEYS, isContactField } from './contactValues';
+import { parseQrPayload } from './qrCode';
+import { mergeSocialProfiles } from './socialProfiles';
+
+// Turns OCR text into card fields, e.g. parseCardData run in the preprocessing worker
+export type CardTextParser = (text: string) => Promise<Pick<CardData, CardField | 'nameParts' | 'addressParts' | 'emails' | 'phones' | 'websites' | 'socialProfiles' | 'ocrCorrections'>>;
+
+export const canReparse = (card: CardData): boolean =>
+  card.sides ? card.sides.some(side => side.rawText !== undefined) : card.rawText !== undefined;
+
+// Parse one side's stored text again. Values corrected by hand or decoded from a
+// QR code are kept with their confidence and boxes; everything else is replaced.
+const reparseSide = async <T extends CardSide>(side: T, parse: CardTextParser): Promise<T> => {
+  if (side.rawText === undefined) {
+    return side;
+  }
+
+  const parsed = await parse(side.rawText);
+  const words = side.ocr?.words || [];
+  const parsedConfidence = computeFieldConfidence(parsed, words);
+  const parsedSources = computeFieldSources(parsed, words);
+  const kept = [...(side.editedFields || []), ...(side.qrFields || [])];
+
+  // Social profiles are read again, along with the ones in the side's QR code, unless
+  // they were corrected by hand. Corrections of kept values no longer apply.
+  const qrProfiles = side.qrPayload ? parseQrPayload(side.qrPayload).socialProfiles || [] : [];
+  const next: T = {
+    ...side,
+    socialProfiles: side.socialProfilesEdited
+      ? side.socialProfiles
+      : mergeSocialProfiles(qrProfiles, parsed.socialProfiles || []),
+    ocrCorrections: parsed.ocrCorrections?.filter(correction => !kept.includes(correction.field)),
+    confidence: { ...side.confidence },
+    sources: { ...side.sources },
+  };
+  CARD_FIELDS.filter(field => !kept.includes(field)).forEach(field => {
+    next[field] = parsed[field];
+    if (field === 'name') {
+      next.nameParts = parsed.nameParts;
+    }
+    if (field === 'address') {
+      next.addressParts = parsed.addressParts;
+    }
+    if (isContactField(field)) {
+      next[CONTACT_LIST_KEYS[field]] = parsed[CONTACT_LIST_KEYS[field]];
+    }
+    if (parsedConfidence[field] === undefined) {
+      delete next.confidence[field];
+    } else {
+      next.confidence[field] = parsedConfidence[field];
+    }
+    if (parsedSources[field]) {
+      next.sources[field] = parsedSources[field];
+    } else {
+      delete next.sources[field];
+    }
+  });
+  if (side.ocr) {
+    next.ocr = { ...side.ocr, parsedAt: new Date().toISOString() };
+  }
+  return next;
+};
+
+// Run the parser over a card's stored OCR text again, e.g. after the parser has improved.
+// A paired card re-parses each side and merges them again, then puts back the values
+// that were edited on the paired card itself.
+export const reparseCard = async (card: CardData, parse: CardTextParser): Promise<CardData> => {
+  if (!card.sides || card.sides.length !== 2) {
+    return reparseSide(card, parse);
+  }
+
+  const [front, back] = await Promise.all(card.sides.map(side => reparseSide(side, parse)));
+  const merged = mergeCardSides(front, back);
+  const edited = card.editedFields || [];
+  const paired: CardData = { ...card, ...merged, sides: [front, back], editedFields: edited };
+  edited.forEach(field => {
+    paired[field] = card[field];
+    if (field === 'name') {
+      paired.nameParts = card.nameParts;
+    }
+    if (field === 'address') {
+      paired.addressParts = card.addressParts;
+    }
+    if (isContactField(field)) {
+      paired[CONTACT_LIST_KEYS[field]] = card[CONTACT_LIST_KEYS[field]];
+    }
+    if (card.confidence?.[field] === undefined) {
+      delete paired.confidence[field];
+    } else {
+      paired.confidence[field] = card.confidence[field];
+    }
+    if (card.sources?.[field]) {
+      paired.sources[field] = card.sources[field];
+    } else {
+      delete paired.sources[field];
+    }
+  });
+  if (card.socialProfilesEdited) {
+    paired.socialProfiles = card.socialProfiles;
+  }
+  paired.qrFields = merged.qrFields?.filter(field => !edited.includes(field));
+  return paired;
+};
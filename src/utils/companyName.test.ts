@@ -0,0 +1,36 @@
+import { findCompanyName, isFreeMailDomain } from './companyName';
+
+describe('Company name detection', () => {
+  test('prefers a line with a legal suffix over the domain', () => {
+    expect(
+      findCompanyName({
+        lines: ['ACME Corporation Pvt. Ltd.', 'Priya Sharma', 'Sales Manager', 'priya@acme.in'],
+        excludedLines: ['Priya Sharma', 'Sales Manager'],
+        domains: ['acme.in'],
+      })
+    ).toBe('ACME Corporation Pvt. Ltd.');
+    expect(
+      findCompanyName({
+        lines: ['IBM', 'John Smith', 'Architect', 'jsmith@ibm.com'],
+        excludedLines: ['John Smith', 'Architect'],
+        domains: ['ibm.com'],
+      })
+    ).toBe('IBM');
+  });
+
+  test('never takes the company from a free-mail domain', () => {
+    expect(isFreeMailDomain('rahul@gmail.com')).toBe(true);
+    expect(isFreeMailDomain('yahoo.co.in')).toBe(true);
+    expect(isFreeMailDomain('acme.co.uk')).toBe(false);
+    expect(
+      findCompanyName({
+        lines: ['Rahul Verma', 'Freelance Photographer', 'rahul.verma@gmail.com'],
+        excludedLines: ['Rahul Verma', 'Freelance Photographer'],
+        domains: ['gmail.com'],
+      })
+    ).toBe('');
+    expect(
+      findCompanyName({ lines: ['John Smith', 'Director'], excludedLines: ['John Smith', 'Director'], domains: ['www.techcompany.com'] })
+    ).toBe('Techcompany');
+  });
+});
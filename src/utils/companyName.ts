@@ -0,0 +1,135 @@
+// Company name detection from the lines of a card. Legal-entity suffixes are the
+// strongest cue, then business words, the logo area at the top of the card and letter
+// case. The email or website domain only breaks ties, and is the company on its own
+// only when no line looks like one. Free-mail domains never name a company.
+
+// Providers whose addresses say nothing about the employer, matched on any top-level domain
+const FREE_MAIL_PROVIDERS = [
+  'gmail', 'googlemail', 'yahoo', 'ymail', 'rocketmail', 'outlook', 'hotmail', 'live', 'msn', 'aol', 'gmx',
+  'yandex', 'rediffmail', 'protonmail', 'zohomail', 'tutanota',
+];
+const FREE_MAIL_DOMAINS = [
+  'icloud.com', 'me.com', 'mac.com', 'proton.me', 'mail.com', 'mail.ru', 'inbox.com', 'qq.com', '163.com',
+  '126.com', 'sina.com', 'naver.com', 'hanmail.net', 'daum.net', 'web.de', 'fastmail.com', 'yahoo.co.jp',
+];
+
+// Second-level labels under country TLDs, as in acme.co.uk or acme.com.au
+const SECOND_LEVEL_LABELS = ['co', 'com', 'net', 'org', 'ac', 'gov', 'edu', 'ne', 'or', 'ltd', 'plc'];
+
+// The label that names the organization: acme in www.acme.co.uk or jane@mail.acme.com
+export const domainLabel = (domain: string): string => {
+  const labels = domain.toLowerCase().replace(/^https?:\/\//, '').replace(/[/?#].*$/, '').split('.').filter(Boolean);
+  if (labels.length < 2) return '';
+  const hasSecondLevel = labels.length >= 3 && labels[labels.length - 1].length === 2 &&
+    SECOND_LEVEL_LABELS.includes(labels[labels.length - 2]);
+  return labels[labels.length - (hasSecondLevel ? 3 : 2)];
+};
+
+export const isFreeMailDomain = (domain: string): boolean => {
+  const host = domain.toLowerCase().replace(/^.*@/, '');
+  return FREE_MAIL_DOMAINS.some(free => host === free || host.endsWith(`.${free}`)) ||
+    FREE_MAIL_PROVIDERS.includes(domainLabel(host));
+};
+
+// Written with their usual dots; dots and spaces are optional when matching
+const LEGAL_SUFFIXES = [
+  'Inc.', 'Incorporated', 'Corp.', 'Corporation', 'Co.', 'Company', 'LLC', 'L.L.C.', 'Ltd.', 'Limited',
+  'Pvt. Ltd.', 'Pvt.', 'Private Limited', 'PLC', 'LLP', 'L.P.', 'GmbH', 'AG', 'KG', 'UG', 'e.K.', 'S.A.', 'S.A.S.',
+  'SARL', 'S.r.l.', 'S.p.A.', 'S.L.', 'Ltda.', 'B.V.', 'N.V.', 'Oy', 'AB', 'A/S', 'ApS', 'AS', 'K.K.', 'KK',
+  'Pte. Ltd.', 'Pty. Ltd.', 'Pty', 'Sdn. Bhd.', 'Bhd.', 'FZE', 'FZCO', 'FZ-LLC', 'W.L.L.',
+];
+// Legal forms in scripts without spaces, which can come before or after the name
+const CJK_LEGAL_FORMS = ['株式会社', '有限会社', '合同会社', '有限公司', '股份有限公司', '集团', '集團', '주식회사', '(주)', '㈜'];
+const CYRILLIC_LEGAL_FORMS = ['ООО', 'ОАО', 'ЗАО', 'ПАО', 'АО'];
+
+// Words common in company names but not in personal names or job titles
+const BUSINESS_WORDS = [
+  'solutions', 'technologies', 'technology', 'tech', 'consulting', 'consultants', 'systems', 'software',
+  'industries', 'enterprises', 'group', 'holdings', 'partners', 'associates', 'labs', 'ventures', 'capital',
+  'bank', 'agency', 'studio', 'studios', 'services', 'international', 'global', 'networks', 'logistics',
+  'pharma', 'pharmaceuticals', 'foundation', 'institute', 'university', 'hospital', 'clinic', 'media',
+  'motors', 'traders', 'trading', 'exports', 'infotech', 'infra', 'realty', 'builders', 'hotel', 'hotels',
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Suffixes of two letters or fewer ("AG", "AB", "KK") are also words, so they only
+// count in their usual case at the end of the line
+const LEGAL_SUFFIX_PATTERNS = LEGAL_SUFFIXES.map(suffix => {
+  const body = suffix
+    .split('')
+    .map(char => (char === '.' ? '\\.?' : char === ' ' ? '\\s*' : escapeRegExp(char)))
+    .join('');
+  return suffix.replace(/[.\s]/g, '').length <= 2
+    ? new RegExp(`(?<![\\p{L}])${body}\\s*$`, 'u')
+    : new RegExp(`(?<![\\p{L}])${body}(?![\\p{L}])`, 'iu');
+});
+
+export const hasLegalSuffix = (line: string): boolean =>
+  LEGAL_SUFFIX_PATTERNS.some(pattern => pattern.test(line.trim())) ||
+  CJK_LEGAL_FORMS.some(form => line.includes(form)) ||
+  CYRILLIC_LEGAL_FORMS.some(form => new RegExp(`(?<![\\p{L}])${form}(?![\\p{L}])`, 'u').test(line));
+
+const hasBusinessWord = (line: string): boolean =>
+  line.toLowerCase().split(/[^\p{L}]+/u).some(word => BUSINESS_WORDS.includes(word));
+
+const compact = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Whether a line could be the company a domain label stands for: "Global Tech Solutions"
+// for globaltech, or its initials, "IBM" for ibm or "Tata Consultancy Services" for tcs
+const matchesDomain = (line: string, label: string): boolean => {
+  const key = label.replace(/-/g, '');
+  if (key.length < 2) return false;
+  const text = compact(line);
+  const initials = line.split(/[\s&-]+/).filter(Boolean).map(word => word[0].toLowerCase()).join('');
+  return (key.length >= 3 && (text.includes(key) || (text.length >= 3 && key.includes(text)))) || initials === key;
+};
+
+// Trim the punctuation OCR leaves around a line, keeping the dots of "Ltd." and "S.A."
+const cleanCompanyLine = (line: string): string =>
+  line.replace(/\s+/g, ' ').replace(/^[\s|•·,;:*~"'-]+|[\s|•·,;:*~"'-]+$/g, '');
+
+export interface CompanyNameInput {
+  lines: string[]; // Card text lines, top to bottom
+  excludedLines: string[]; // Values already read as the name, title or address
+  domains: string[]; // Email and website domains, in order of preference
+}
+
+// The line of the card most likely to be the company, or the capitalized domain label
+// when no line looks like a company name
+export const findCompanyName = ({ lines, excludedLines, domains }: CompanyNameInput): string => {
+  const label = domains.filter(domain => !isFreeMailDomain(domain)).map(domainLabel).find(Boolean) || '';
+  const excluded = excludedLines.map(compact).filter(Boolean);
+  const textLines = lines.map(cleanCompanyLine).filter(Boolean);
+
+  let best = '';
+  let bestScore = 0;
+  textLines.forEach((line, index) => {
+    const key = compact(line);
+    if (!key || excluded.some(other => other.includes(key) || (other.length > 3 && key.includes(other)))) return;
+    if (/@|www\.|https?:\/\//i.test(line)) return;
+
+    const words = line.split(' ');
+    let score = 0;
+    if (hasLegalSuffix(line)) score += 5;
+    if (hasBusinessWord(line)) score += 2;
+    const strongCues = score;
+    // Logos and company names sit at the top of most cards and are set in capitals
+    if (index < 2) score += 1;
+    if (/\p{Lu}/u.test(line) && (line === line.toUpperCase() || words.every(word => /^[\p{Lu}\d&]/u.test(word)))) {
+      score += 1;
+    }
+    if (/\d/.test(line)) score -= 2;
+    if (words.length > 6) score -= 2;
+    // The domain is only a tiebreaker, unless the line is nothing but the domain's name
+    if (label && matchesDomain(line, label)) score += strongCues > 0 ? 0.5 : 2;
+
+    if (score >= 3 && score > bestScore) {
+      best = line;
+      bestScore = score;
+    }
+  });
+
+  if (best) return best;
+  return label ? label.charAt(0).toUpperCase() + label.slice(1) : '';
+};
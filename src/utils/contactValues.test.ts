@@ -0,0 +1,53 @@
+import { detectPhoneType, mergeContactLists, setPrimaryContactValue } from './contactValues';
+import { parseCardData } from './cardParser';
+
+describe('Typed contact values', () => {
+  test('types phone numbers by the label before them', () => {
+    expect(detectPhoneType('T: ')).toBe('work');
+    expect(detectPhoneType('Mob ')).toBe('mobile');
+    expect(detectPhoneType('Tel/Fax: ')).toBe('fax');
+    expect(detectPhoneType('Direct: ')).toBe('direct');
+    expect(detectPhoneType('Sam ')).toBe('work');
+
+    const result = parseCardData(`Jane Doe
+Sales Manager
+T: +1 212 555 0100  M: +1 917 555 0199
+Fax: +1 212 555 0101
+jane.doe@acme.com | info@acme.com
+www.acme.com`);
+
+    expect(result.phone).toBe('+12125550100');
+    expect(result.phones).toEqual([
+      { value: '+12125550100', type: 'work' },
+      { value: '+19175550199', type: 'mobile' },
+      { value: '+12125550101', type: 'fax' },
+    ]);
+    expect(result.emails?.map(entry => entry.value)).toEqual(['jane.doe@acme.com', 'info@acme.com']);
+  });
+
+  test('merges lists without duplicates and promotes a new first value', () => {
+    const merged = mergeContactLists(
+      'phone',
+      [{ value: '+1 212 555 0100', type: 'work' }],
+      [
+        { value: '+12125550100', type: 'main' },
+        { value: '+19175550199', type: 'mobile' },
+      ]
+    );
+    expect(merged).toEqual([
+      { value: '+1 212 555 0100', type: 'work' },
+      { value: '+19175550199', type: 'mobile' },
+    ]);
+
+    const updates = setPrimaryContactValue({ phone: merged[0].value, phones: merged }, 'phone', '+19175550199');
+    expect(updates.phone).toBe('+19175550199');
+    expect(updates.phones).toEqual([
+      { value: '+19175550199', type: 'mobile' },
+      { value: '+1 212 555 0100', type: 'work' },
+    ]);
+    expect(setPrimaryContactValue(updates, 'phone', '+12125550199').phones).toEqual([
+      { value: '+12125550199', type: 'mobile' },
+      { value: '+1 212 555 0100', type: 'work' },
+    ]);
+  });
+});
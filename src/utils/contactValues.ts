@@ -0,0 +1,110 @@
+import type { CardField } from './fieldConfidence';
+import type { CardData } from './ocrProcessor';
+
+// Fields a card can have several of. The single `email`, `phone` and `website`
+// fields hold the first entry of each list, which is what confidence scores,
+// field boxes and QR data refer to.
+export type ContactField = Extract<CardField, 'email' | 'phone' | 'website'>;
+
+export type ContactType = 'mobile' | 'work' | 'direct' | 'main' | 'fax' | 'other';
+
+export interface ContactValue {
+  value: string; // Phone numbers are in E.164 form when valid
+  type: ContactType;
+  invalid?: boolean; // Set on phone numbers that are not valid in any country we could infer
+}
+
+export const CONTACT_FIELDS: ContactField[] = ['email', 'phone', 'website'];
+
+export const CONTACT_LIST_KEYS = {
+  email: 'emails',
+  phone: 'phones',
+  website: 'websites',
+} as const satisfies Record<ContactField, keyof CardData>;
+
+export const CONTACT_TYPE_LABELS: Record<ContactType, string> = {
+  mobile: 'Mobile',
+  work: 'Work',
+  direct: 'Direct',
+  main: 'Main',
+  fax: 'Fax',
+  other: 'Other',
+};
+
+// Types offered when editing each list
+export const CONTACT_TYPES: Record<ContactField, ContactType[]> = {
+  phone: ['mobile', 'work', 'direct', 'main', 'fax', 'other'],
+  email: ['work', 'other'],
+  website: ['work', 'other'],
+};
+
+export const isContactField = (field: CardField): field is ContactField =>
+  (CONTACT_FIELDS as CardField[]).includes(field);
+
+// Labels printed before phone numbers. Single letters only count with a colon or
+// dot after them, so initials and words ending in "m" or "t" are not mistaken for labels.
+const PHONE_LABELS: { type: ContactType; pattern: RegExp }[] = [
+  { type: 'fax', pattern: /\b(?:fax|telefax|f\s*[:.])/gi },
+  { type: 'mobile', pattern: /\b(?:mob(?:ile)?|mbl|cell(?:ular)?|handy|hp|whats\s?app|m\s*[:.])/gi },
+  { type: 'direct', pattern: /\b(?:direct|dir|did|dd|d\s*[:.])/gi },
+  { type: 'main', pattern: /\b(?:main|switchboard|board|hq)\b/gi },
+  { type: 'work', pattern: /\b(?:tel(?:ephone)?|phone|ph|office|off|work|t\s*[:.]|o\s*[:.]|p\s*[:.]|w\s*[:.])/gi },
+];
+
+// Type of a phone number from the label closest before it, e.g. "M:" in "T: 555 0100 M: 555 0199"
+export const detectPhoneType = (labelText: string): ContactType => {
+  let type: ContactType = 'work';
+  let closest = -1;
+  PHONE_LABELS.forEach(label => {
+    for (const match of labelText.matchAll(label.pattern)) {
+      if (match.index !== undefined && match.index > closest) {
+        closest = match.index;
+        type = label.type;
+      }
+    }
+  });
+  return type;
+};
+
+const normalizeContactValue = (field: ContactField, value: string): string =>
+  field === 'phone' ? value.replace(/[^+\d]/g, '') : value.trim().toLowerCase().replace(/^https?:\/\//, '');
+
+// The card's list for a field, built from the single value for cards scanned before lists existed
+export const getContactList = (card: Partial<CardData>, field: ContactField): ContactValue[] =>
+  card[CONTACT_LIST_KEYS[field]] ?? (card[field] ? [{ value: card[field] as string, type: 'work' }] : []);
+
+// Updates that replace a list, keeping the single field in step with its first entry
+export const setContactList = (field: ContactField, list: ContactValue[]): Partial<CardData> => {
+  const cleaned = list.filter(entry => entry.value.trim());
+  return { [field]: cleaned[0]?.value ?? '', [CONTACT_LIST_KEYS[field]]: cleaned };
+};
+
+// Updates that make `value` the first entry, e.g. when it was read from a QR code or a hand-picked area
+export const setPrimaryContactValue = (
+  card: Partial<CardData>,
+  field: ContactField,
+  value: string
+): Partial<CardData> => {
+  const list = getContactList(card, field);
+  const key = normalizeContactValue(field, value);
+  const existing = list.find(entry => normalizeContactValue(field, entry.value) === key);
+  const others = list.filter(entry => entry !== existing);
+  // A value that was already listed keeps its type; a new one takes over the replaced value's
+  const type = existing?.type ?? list[0]?.type ?? 'work';
+  return setContactList(field, [{ value, type }, ...(existing ? others : others.slice(1))]);
+};
+
+// Combine the lists of two sides; entries of `primary` come first and duplicates are dropped
+export const mergeContactLists = (
+  field: ContactField,
+  primary: ContactValue[],
+  secondary: ContactValue[]
+): ContactValue[] => {
+  const seen = new Set<string>();
+  return [...primary, ...secondary].filter(entry => {
+    const key = normalizeContactValue(field, entry.value);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
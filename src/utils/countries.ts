@@ -0,0 +1,115 @@
+import type { CountryCode } from 'libphonenumber-js/max';
+
+// Country names as they appear at the end of card addresses, in English and the local
+// script. Abbreviations are matched case-sensitively so "us" in running text is ignored.
+interface CountryNames {
+  code: CountryCode;
+  names: string[];
+  abbreviations?: string[];
+}
+
+const COUNTRY_NAMES: CountryNames[] = [
+  { code: 'US', names: ['United States', 'United States of America'], abbreviations: ['USA', 'U.S.A.', 'US', 'U.S.'] },
+  { code: 'GB', names: ['United Kingdom', 'England', 'Scotland', 'Wales', 'Northern Ireland', 'Great Britain'], abbreviations: ['UK', 'U.K.'] },
+  { code: 'IE', names: ['Ireland', 'Éire'] },
+  { code: 'CA', names: ['Canada'] },
+  { code: 'AU', names: ['Australia'] },
+  { code: 'NZ', names: ['New Zealand'] },
+  { code: 'IN', names: ['India', 'भारत'] },
+  { code: 'PK', names: ['Pakistan'] },
+  { code: 'BD', names: ['Bangladesh'] },
+  { code: 'LK', names: ['Sri Lanka'] },
+  { code: 'SG', names: ['Singapore'] },
+  { code: 'MY', names: ['Malaysia'] },
+  { code: 'ID', names: ['Indonesia'] },
+  { code: 'PH', names: ['Philippines'] },
+  { code: 'TH', names: ['Thailand'] },
+  { code: 'VN', names: ['Vietnam', 'Viet Nam'] },
+  { code: 'JP', names: ['Japan', '日本'] },
+  { code: 'CN', names: ['China', "People's Republic of China", '中国', '中華人民共和国'] },
+  { code: 'HK', names: ['Hong Kong', '香港'] },
+  { code: 'TW', names: ['Taiwan', '台灣', '台湾'] },
+  { code: 'KR', names: ['South Korea', 'Republic of Korea', 'Korea', '대한민국', '한국'] },
+  { code: 'AE', names: ['United Arab Emirates', 'Dubai', 'Abu Dhabi', 'الإمارات'], abbreviations: ['UAE', 'U.A.E.'] },
+  { code: 'SA', names: ['Saudi Arabia', 'السعودية'], abbreviations: ['KSA'] },
+  { code: 'QA', names: ['Qatar', 'قطر'] },
+  { code: 'KW', names: ['Kuwait', 'الكويت'] },
+  { code: 'BH', names: ['Bahrain', 'البحرين'] },
+  { code: 'OM', names: ['Oman', 'عمان'] },
+  { code: 'EG', names: ['Egypt', 'مصر'] },
+  { code: 'IL', names: ['Israel'] },
+  { code: 'TR', names: ['Turkey', 'Türkiye'] },
+  { code: 'ZA', names: ['South Africa'] },
+  { code: 'NG', names: ['Nigeria'] },
+  { code: 'KE', names: ['Kenya'] },
+  { code: 'DE', names: ['Germany', 'Deutschland'] },
+  { code: 'AT', names: ['Austria', 'Österreich'] },
+  { code: 'CH', names: ['Switzerland', 'Schweiz', 'Suisse', 'Svizzera'] },
+  { code: 'FR', names: ['France'] },
+  { code: 'BE', names: ['Belgium', 'België', 'Belgique'] },
+  { code: 'NL', names: ['Netherlands', 'Nederland', 'The Netherlands'] },
+  { code: 'LU', names: ['Luxembourg'] },
+  { code: 'ES', names: ['Spain', 'España'] },
+  { code: 'PT', names: ['Portugal'] },
+  { code: 'IT', names: ['Italy', 'Italia'] },
+  { code: 'DK', names: ['Denmark', 'Danmark'] },
+  { code: 'SE', names: ['Sweden', 'Sverige'] },
+  { code: 'NO', names: ['Norway', 'Norge'] },
+  { code: 'FI', names: ['Finland', 'Suomi'] },
+  { code: 'PL', names: ['Poland', 'Polska'] },
+  { code: 'CZ', names: ['Czech Republic', 'Czechia', 'Česko'] },
+  { code: 'GR', names: ['Greece'] },
+  { code: 'RU', names: ['Russia', 'Russian Federation', 'Россия'] },
+  { code: 'UA', names: ['Ukraine', 'Україна'] },
+  { code: 'BR', names: ['Brazil', 'Brasil'] },
+  { code: 'MX', names: ['Mexico', 'México'] },
+  { code: 'AR', names: ['Argentina'] },
+  { code: 'CL', names: ['Chile'] },
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Latin names need word boundaries ("Oman" in "Romania"); names in scripts without spaces don't
+export const namePattern = (name: string, flags: string): RegExp =>
+  /^[\p{Script=Latin}\s.'-]+$/u.test(name)
+    ? new RegExp(`(?<![\\p{L}.])${escapeRegExp(name)}(?![\\p{L}])`, `${flags}u`)
+    : new RegExp(escapeRegExp(name), flags);
+
+const COUNTRY_PATTERNS = COUNTRY_NAMES.map(country => ({
+  code: country.code,
+  patterns: [
+    ...country.names.map(name => namePattern(name, 'i')),
+    ...(country.abbreviations || []).map(abbreviation => namePattern(abbreviation, '')),
+  ],
+}));
+
+export interface TextMatch<T> {
+  value: T;
+  index: number;
+  length: number;
+}
+
+// The country named in a piece of text, e.g. an address, and where it is named. When several
+// are named the last one wins, since the country usually ends the address; of names ending at
+// the same place the longest wins, so "Northern Ireland" is not read as Ireland.
+export const findCountryMatch = (text: string): TextMatch<CountryCode> | undefined => {
+  let found: TextMatch<CountryCode> | undefined;
+  COUNTRY_PATTERNS.forEach(country => {
+    country.patterns.forEach(pattern => {
+      const match = pattern.exec(text);
+      if (!match) return;
+      const end = match.index + match[0].length;
+      const foundEnd = found ? found.index + found.length : -1;
+      if (end > foundEnd || (end === foundEnd && match[0].length > found.length)) {
+        found = { value: country.code, index: match.index, length: match[0].length };
+      }
+    });
+  });
+  return found;
+};
+
+export const findCountryInText = (text: string): CountryCode | undefined => findCountryMatch(text)?.value;
+
+// English name of a country, e.g. for the country part of an address
+export const countryName = (code: CountryCode): string =>
+  COUNTRY_NAMES.find(country => country.code === code)?.names[0] ?? code;
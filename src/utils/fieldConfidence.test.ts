@@ -0,0 +1,66 @@
+import {
+  computeFieldConfidence,
+  computeFieldSources,
+  hasUncertainFields,
+  matchFieldWords,
+  type OcrWord,
+} from './fieldConfidence';
+
+const word = (text: string, confidence: number): OcrWord => ({
+  text,
+  confidence,
+  bbox: { x0: 0, y0: 0, x1: 10, y1: 10 },
+});
+
+const words = [
+  word('John', 95),
+  word('Smith', 91),
+  word('Email:', 88),
+  word('john.smith@abccorp.com', 84),
+  word('Tel:', 90),
+  word('+1', 40),
+  word('(555)', 52),
+  word('123-4567', 58),
+];
+
+describe('Field confidence', () => {
+  test('should match field values to the words they were read from', () => {
+    expect(matchFieldWords('John Smith', words).map(w => w.text)).toEqual(['John', 'Smith']);
+    expect(matchFieldWords('+1 (555) 123-4567', words)).toHaveLength(3);
+  });
+
+  test('should average word confidences per field', () => {
+    const confidence = computeFieldConfidence(
+      {
+        name: 'John Smith',
+        company: '',
+        designation: '',
+        email: 'john.smith@abccorp.com',
+        phone: '+1 (555) 123-4567',
+        website: '',
+        address: 'Unrelated Street',
+      },
+      words
+    );
+
+    expect(confidence).toEqual({ name: 93, email: 84, phone: 50 });
+    expect(hasUncertainFields({ confidence })).toBe(true);
+    expect(hasUncertainFields({ confidence: { name: 93 } })).toBe(false);
+  });
+});
+
+describe('Field sources', () => {
+  test('should keep the boxes of the words each field was read from', () => {
+    const boxed = [
+      { text: 'John', confidence: 95, bbox: { x0: 10, y0: 10, x1: 60, y1: 30 } },
+      { text: 'Smith', confidence: 91, bbox: { x0: 70, y0: 10, x1: 130, y1: 30 } },
+      { text: 'Sales', confidence: 90, bbox: { x0: 10, y0: 40, x1: 60, y1: 55 } },
+    ];
+    const sources = computeFieldSources(
+      { name: 'John Smith', company: '', designation: '', email: '', phone: '', website: '', address: '' },
+      boxed
+    );
+
+    expect(sources).toEqual({ name: { side: 'front', boxes: [boxed[0].bbox, boxed[1].bbox] } });
+  });
+});
@@ -0,0 +1,130 @@
+import type { Block } from 'tesseract.js';
+import type { CardData } from './ocrProcessor';
+
+// Text fields that are parsed from the OCR output
+export type CardField = 'name' | 'company' | 'designation' | 'email' | 'phone' | 'website' | 'address';
+
+export const CARD_FIELDS: CardField[] = ['name', 'company', 'designation', 'email', 'phone', 'website', 'address'];
+
+export const CARD_FIELD_LABELS: Record<CardField, string> = {
+  name: 'Name',
+  company: 'Company',
+  designation: 'Designation',
+  email: 'Email',
+  phone: 'Phone',
+  website: 'Website',
+  address: 'Address',
+};
+
+// Tesseract confidence (0-100) of each field, averaged over the words it was read from.
+// Fields that could not be traced back to OCR words have no entry.
+export type FieldConfidence = Partial<Record<CardField, number>>;
+
+// Fields below this confidence are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+// Pixel box in the card image
+export interface OcrBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: OcrBox;
+}
+
+// Where on the card a field was read from. Fields of a two-sided card can come from either image.
+export interface FieldSource {
+  side: 'front' | 'back';
+  boxes: OcrBox[];
+}
+
+export type FieldSources = Partial<Record<CardField, FieldSource>>;
+
+// Flatten Tesseract's block > paragraph > line > word hierarchy
+export const extractWords = (blocks: Block[] | null | undefined): OcrWord[] => {
+  const words: OcrWord[] = [];
+  (blocks || []).forEach(block => {
+    block.paragraphs.forEach(paragraph => {
+      paragraph.lines.forEach(line => {
+        line.words.forEach(word => {
+          if (word.text.trim()) {
+            words.push({ text: word.text, confidence: word.confidence, bbox: word.bbox });
+          }
+        });
+      });
+    });
+  });
+  return words;
+};
+
+// Compare on letters and digits only, since the parser reformats punctuation and spacing
+const normalizeToken = (text: string): string =>
+  text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Find the OCR words that a parsed field value was read from
+export const matchFieldWords = (value: string, words: OcrWord[]): OcrWord[] => {
+  const matched: OcrWord[] = [];
+  const tokens = value.split(/\s+/).map(normalizeToken).filter(Boolean);
+
+  tokens.forEach(token => {
+    const normalizedWords = words.map(word => normalizeToken(word.text));
+    let index = normalizedWords.findIndex((word, i) => word === token && !matched.includes(words[i]));
+    if (index === -1) {
+      // Cleaned-up values can be part of a word (e.g. "Email: john@abc.com") or span a split one
+      index = normalizedWords.findIndex(
+        (word, i) =>
+          word.length >= 2 && !matched.includes(words[i]) && (word.includes(token) || token.includes(word))
+      );
+    }
+    if (index !== -1) {
+      matched.push(words[index]);
+    }
+  });
+
+  return matched;
+};
+
+export const computeFieldConfidence = (
+  fields: Pick<CardData, CardField>,
+  words: OcrWord[]
+): FieldConfidence => {
+  const confidence: FieldConfidence = {};
+  CARD_FIELDS.forEach(field => {
+    const value = fields[field];
+    if (!value) return;
+    const fieldWords = matchFieldWords(value, words);
+    if (fieldWords.length === 0) return;
+    const total = fieldWords.reduce((sum, word) => sum + word.confidence, 0);
+    confidence[field] = Math.round(total / fieldWords.length);
+  });
+  return confidence;
+};
+
+export const computeFieldSources = (
+  fields: Pick<CardData, CardField>,
+  words: OcrWord[]
+): FieldSources => {
+  const sources: FieldSources = {};
+  CARD_FIELDS.forEach(field => {
+    const value = fields[field];
+    if (!value) return;
+    const fieldWords = matchFieldWords(value, words);
+    if (fieldWords.length > 0) {
+      sources[field] = { side: 'front', boxes: fieldWords.map(word => ({ ...word.bbox })) };
+    }
+  });
+  return sources;
+};
+
+export const isLowConfidence = (card: Pick<CardData, 'confidence'>, field: CardField): boolean => {
+  const value = card.confidence?.[field];
+  return value !== undefined && value < LOW_CONFIDENCE_THRESHOLD;
+};
+
+export const hasUncertainFields = (card: Pick<CardData, 'confidence'>): boolean =>
+  CARD_FIELDS.some(field => isLowConfidence(card, field));
@@ -0,0 +1,127 @@
+import type { CountryCode } from 'libphonenumber-js/max';
+
+// Offline list of the states, provinces and major cities that appear on cards,
+// used to split addresses into their parts and to tell which country they are in.
+
+export interface GeoRegion {
+  name: string;
+  abbreviation?: string;
+}
+
+export interface GeoCountry {
+  regions: GeoRegion[];
+  cities: string[];
+}
+
+const regions = (list: [string, string?][]): GeoRegion[] =>
+  list.map(([name, abbreviation]) => (abbreviation ? { name, abbreviation } : { name }));
+
+export const GEO_DATA: Partial<Record<CountryCode, GeoCountry>> = {
+  US: {
+    regions: regions([
+      ['Alabama', 'AL'], ['Alaska', 'AK'], ['Arizona', 'AZ'], ['Arkansas', 'AR'], ['California', 'CA'],
+      ['Colorado', 'CO'], ['Connecticut', 'CT'], ['Delaware', 'DE'], ['District of Columbia', 'DC'],
+      ['Florida', 'FL'], ['Georgia', 'GA'], ['Hawaii', 'HI'], ['Idaho', 'ID'], ['Illinois', 'IL'],
+      ['Indiana', 'IN'], ['Iowa', 'IA'], ['Kansas', 'KS'], ['Kentucky', 'KY'], ['Louisiana', 'LA'],
+      ['Maine', 'ME'], ['Maryland', 'MD'], ['Massachusetts', 'MA'], ['Michigan', 'MI'], ['Minnesota', 'MN'],
+      ['Mississippi', 'MS'], ['Missouri', 'MO'], ['Montana', 'MT'], ['Nebraska', 'NE'], ['Nevada', 'NV'],
+      ['New Hampshire', 'NH'], ['New Jersey', 'NJ'], ['New Mexico', 'NM'], ['New York', 'NY'],
+      ['North Carolina', 'NC'], ['North Dakota', 'ND'], ['Ohio', 'OH'], ['Oklahoma', 'OK'], ['Oregon', 'OR'],
+      ['Pennsylvania', 'PA'], ['Rhode Island', 'RI'], ['South Carolina', 'SC'], ['South Dakota', 'SD'],
+      ['Tennessee', 'TN'], ['Texas', 'TX'], ['Utah', 'UT'], ['Vermont', 'VT'], ['Virginia', 'VA'],
+      ['Washington', 'WA'], ['West Virginia', 'WV'], ['Wisconsin', 'WI'], ['Wyoming', 'WY'],
+    ]),
+    cities: [
+      'New York', 'Los Angeles', 'Chicago', 'Houston', 'Phoenix', 'Philadelphia', 'San Antonio', 'San Diego',
+      'Dallas', 'Austin', 'San Jose', 'San Francisco', 'Seattle', 'Boston', 'Denver', 'Atlanta', 'Miami',
+      'Washington', 'Las Vegas', 'Portland', 'Detroit', 'Minneapolis', 'Palo Alto', 'Mountain View',
+    ],
+  },
+  CA: {
+    regions: regions([
+      ['Alberta', 'AB'], ['British Columbia', 'BC'], ['Manitoba', 'MB'], ['New Brunswick', 'NB'],
+      ['Newfoundland and Labrador', 'NL'], ['Nova Scotia', 'NS'], ['Ontario', 'ON'], ['Prince Edward Island', 'PE'],
+      ['Quebec', 'QC'], ['Québec', 'QC'], ['Saskatchewan', 'SK'], ['Northwest Territories', 'NT'], ['Nunavut', 'NU'],
+      ['Yukon', 'YT'],
+    ]),
+    cities: ['Toronto', 'Montreal', 'Montréal', 'Vancouver', 'Calgary', 'Edmonton', 'Ottawa', 'Winnipeg', 'Quebec City', 'Halifax', 'Mississauga'],
+  },
+  IN: {
+    regions: regions([
+      ['Andhra Pradesh', 'AP'], ['Arunachal Pradesh'], ['Assam'], ['Bihar'], ['Chhattisgarh'], ['Goa'],
+      ['Gujarat'], ['Haryana'], ['Himachal Pradesh'], ['Jharkhand'], ['Karnataka'], ['Kerala'],
+      ['Madhya Pradesh', 'MP'], ['Maharashtra'], ['Manipur'], ['Meghalaya'], ['Mizoram'], ['Nagaland'],
+      ['Odisha'], ['Punjab'], ['Rajasthan'], ['Sikkim'], ['Tamil Nadu', 'TN'], ['Telangana'], ['Tripura'],
+      ['Uttar Pradesh', 'UP'], ['Uttarakhand'], ['West Bengal', 'WB'], ['Delhi'], ['New Delhi'],
+      ['Jammu and Kashmir'], ['Ladakh'], ['Puducherry'], ['Chandigarh'],
+    ]),
+    cities: [
+      'Mumbai', 'Delhi', 'New Delhi', 'Bengaluru', 'Bangalore', 'Hyderabad', 'Ahmedabad', 'Chennai', 'Kolkata',
+      'Pune', 'Jaipur', 'Surat', 'Lucknow', 'Kanpur', 'Nagpur', 'Indore', 'Thane', 'Navi Mumbai', 'Bhopal',
+      'Visakhapatnam', 'Vadodara', 'Gurugram', 'Gurgaon', 'Noida', 'Kochi', 'Coimbatore', 'Chandigarh',
+    ],
+  },
+  GB: {
+    regions: [],
+    cities: [
+      'London', 'Birmingham', 'Manchester', 'Leeds', 'Glasgow', 'Liverpool', 'Edinburgh', 'Bristol', 'Sheffield',
+      'Cardiff', 'Belfast', 'Newcastle upon Tyne', 'Nottingham', 'Leicester', 'Cambridge', 'Oxford', 'Reading',
+    ],
+  },
+  IE: {
+    regions: [],
+    cities: ['Dublin', 'Cork', 'Galway', 'Limerick', 'Waterford'],
+  },
+  AU: {
+    regions: regions([
+      ['New South Wales', 'NSW'], ['Victoria', 'VIC'], ['Queensland', 'QLD'], ['Western Australia', 'WA'],
+      ['South Australia', 'SA'], ['Tasmania', 'TAS'], ['Australian Capital Territory', 'ACT'],
+      ['Northern Territory', 'NT'],
+    ]),
+    cities: ['Sydney', 'Melbourne', 'Brisbane', 'Perth', 'Adelaide', 'Canberra', 'Hobart', 'Darwin', 'Gold Coast'],
+  },
+  DE: {
+    regions: regions([
+      ['Baden-Württemberg'], ['Bayern'], ['Bavaria'], ['Berlin'], ['Brandenburg'], ['Bremen'], ['Hamburg'],
+      ['Hessen'], ['Niedersachsen'], ['Mecklenburg-Vorpommern'], ['Nordrhein-Westfalen'], ['Rheinland-Pfalz'],
+      ['Saarland'], ['Sachsen'], ['Sachsen-Anhalt'], ['Schleswig-Holstein'], ['Thüringen'],
+    ]),
+    cities: [
+      'Berlin', 'Hamburg', 'München', 'Munich', 'Köln', 'Cologne', 'Frankfurt am Main', 'Frankfurt', 'Stuttgart',
+      'Düsseldorf', 'Leipzig', 'Dortmund', 'Essen', 'Bremen', 'Dresden', 'Hannover', 'Nürnberg',
+    ],
+  },
+  AT: { regions: [], cities: ['Wien', 'Vienna', 'Graz', 'Linz', 'Salzburg', 'Innsbruck'] },
+  CH: { regions: [], cities: ['Zürich', 'Zurich', 'Genève', 'Geneva', 'Basel', 'Bern', 'Lausanne', 'Zug'] },
+  FR: { regions: [], cities: ['Paris', 'Marseille', 'Lyon', 'Toulouse', 'Nice', 'Nantes', 'Strasbourg', 'Bordeaux', 'Lille'] },
+  BE: { regions: [], cities: ['Brussels', 'Bruxelles', 'Brussel', 'Antwerp', 'Antwerpen', 'Ghent', 'Gent', 'Liège'] },
+  NL: { regions: [], cities: ['Amsterdam', 'Rotterdam', 'Den Haag', 'The Hague', 'Utrecht', 'Eindhoven', 'Groningen'] },
+  ES: { regions: [], cities: ['Madrid', 'Barcelona', 'Valencia', 'Sevilla', 'Seville', 'Zaragoza', 'Málaga', 'Bilbao'] },
+  IT: { regions: [], cities: ['Roma', 'Rome', 'Milano', 'Milan', 'Napoli', 'Naples', 'Torino', 'Turin', 'Firenze', 'Florence', 'Bologna'] },
+  PT: { regions: [], cities: ['Lisboa', 'Lisbon', 'Porto'] },
+  PL: { regions: [], cities: ['Warszawa', 'Warsaw', 'Kraków', 'Krakow', 'Wrocław', 'Poznań', 'Gdańsk'] },
+  SE: { regions: [], cities: ['Stockholm', 'Göteborg', 'Gothenburg', 'Malmö', 'Uppsala'] },
+  DK: { regions: [], cities: ['København', 'Copenhagen', 'Aarhus', 'Odense'] },
+  NO: { regions: [], cities: ['Oslo', 'Bergen', 'Trondheim', 'Stavanger'] },
+  AE: {
+    regions: regions([
+      ['Abu Dhabi'], ['Dubai'], ['Sharjah'], ['Ajman'], ['Umm Al Quwain'], ['Ras Al Khaimah'], ['Fujairah'],
+    ]),
+    cities: ['Dubai', 'Abu Dhabi', 'Sharjah', 'Ajman', 'Al Ain', 'دبي', 'أبو ظبي'],
+  },
+  SA: { regions: [], cities: ['Riyadh', 'Jeddah', 'Dammam', 'Mecca', 'Medina', 'Khobar', 'الرياض', 'جدة'] },
+  SG: { regions: [], cities: ['Singapore'] },
+  HK: { regions: [], cities: ['Hong Kong', 'Kowloon', 'Central', '香港', '九龍'] },
+  JP: {
+    regions: regions([
+      ['東京都'], ['大阪府'], ['京都府'], ['北海道'], ['神奈川県'], ['愛知県'], ['福岡県'], ['兵庫県'], ['埼玉県'],
+      ['千葉県'], ['Tokyo'], ['Osaka'], ['Kyoto'], ['Kanagawa'], ['Aichi'], ['Fukuoka'], ['Hokkaido'],
+    ]),
+    cities: ['Yokohama', 'Nagoya', 'Sapporo', 'Kobe', '横浜市', '名古屋市', '札幌市', '神戸市'],
+  },
+  CN: {
+    regions: regions([['Guangdong'], ['Zhejiang'], ['Jiangsu'], ['广东省'], ['浙江省'], ['江苏省']]),
+    cities: ['Beijing', 'Shanghai', 'Shenzhen', 'Guangzhou', 'Hangzhou', '北京市', '上海市', '深圳市', '广州市'],
+  },
+  KR: { regions: [], cities: ['Seoul', 'Busan', 'Incheon', '서울특별시', '서울', '부산'] },
+};
@@ -0,0 +1,24 @@
+import { isHeicDataUrl, isHeicHeader } from './heicDecoder';
+
+// First 12 bytes of an ISO BMFF file with the given major brand
+const header = (brand: string): Uint8Array =>
+  Uint8Array.from([0, 0, 0, 24, ...Array.from(`ftyp${brand}`, char => char.charCodeAt(0))]);
+
+const toDataUrl = (mimeType: string, bytes: Uint8Array): string =>
+  `data:${mimeType};base64,${btoa(String.fromCharCode(...bytes, 0, 0, 0, 0))}`;
+
+describe('HEIC detection', () => {
+  test('should recognize HEIC and HEIF brands', () => {
+    expect(isHeicHeader(header('heic'))).toBe(true);
+    expect(isHeicHeader(header('mif1'))).toBe(true);
+    expect(isHeicHeader(header('isom'))).toBe(false);
+    expect(isHeicHeader(new Uint8Array(4))).toBe(false);
+  });
+
+  test('should detect HEIC data URLs without a HEIC MIME type', () => {
+    expect(isHeicDataUrl(toDataUrl('image/heic', header('heic')))).toBe(true);
+    expect(isHeicDataUrl(toDataUrl('application/octet-stream', header('heic')))).toBe(true);
+    expect(isHeicDataUrl(toDataUrl('application/octet-stream', header('isom')))).toBe(false);
+    expect(isHeicDataUrl(toDataUrl('image/jpeg', header('heic')))).toBe(false);
+  });
+});
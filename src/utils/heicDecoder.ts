@@ -0,0 +1,60 @@
+// HEIC/HEIF decoding for browsers without native support (everything but Safari).
+// The decoder is a large WASM build of libheif, so it is only loaded when a HEIC file shows up.
+
+import { blobToDataUrl, dataUrlToBlob } from './imageUtils';
+
+// Major brands in the 'ftyp' box of HEIC/HEIF files
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+const HEIC_MIME_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+// Check the ISO BMFF header: bytes 4-7 are 'ftyp', followed by the major brand
+export const isHeicHeader = (bytes: Uint8Array): boolean => {
+  if (bytes.length < 12) return false;
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+  return ascii(4, 8) === 'ftyp' && HEIC_BRANDS.includes(ascii(8, 12));
+};
+
+// iPhone uploads often arrive without a MIME type, so fall back to the extension and file header
+export const isHeicFile = async (file: File): Promise<boolean> => {
+  if (HEIC_MIME_TYPES.includes(file.type.toLowerCase())) return true;
+  if (/\.(heic|heif)$/i.test(file.name)) return true;
+  if (file.type && file.type !== 'application/octet-stream') return false;
+  const header = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  return isHeicHeader(header);
+};
+
+export const isHeicDataUrl = (dataUrl: string): boolean => {
+  const mimeType = dataUrl.slice(5, dataUrl.indexOf(';')).toLowerCase();
+  if (HEIC_MIME_TYPES.includes(mimeType)) return true;
+  if (mimeType.startsWith('image/')) return false;
+
+  // 16 base64 characters cover the 12 header bytes
+  try {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1, dataUrl.indexOf(',') + 17);
+    return isHeicHeader(Uint8Array.from(atob(base64), char => char.charCodeAt(0)));
+  } catch {
+    return false;
+  }
+};
+
+// Decode every image in a HEIC container (burst or multi-page files hold several) to JPEG data URLs
+export const decodeHeic = async (blob: Blob): Promise<string[]> => {
+  try {
+    const { default: heic2any } = await import('heic2any');
+    const result = await heic2any({ blob, toType: 'image/jpeg', quality: 0.92, multiple: true });
+    const images = Array.isArray(result) ? result : [result];
+    if (images.length === 0) {
+      throw new Error('The file contains no images');
+    }
+    return Promise.all(images.map(blobToDataUrl));
+  } catch (error) {
+    // heic2any rejects with { code, message } objects rather than Errors
+    const message = (error as { message?: string })?.message || 'Unknown error';
+    throw new Error(`Could not decode HEIC image: ${message}`);
+  }
+};
+
+export const decodeHeicDataUrl = async (dataUrl: string): Promise<string[]> => {
+  return decodeHeic(await dataUrlToBlob(dataUrl));
+};
@@ -0,0 +1,147 @@
+import {
+  adaptiveThreshold,
+  denoise,
+  estimateSkewAngle,
+  grayscale,
+  hasDarkBackground,
+  invert,
+  rotateRaster,
+  stretchContrast,
+} from './imageFilters';
+import type { RasterImage } from './imageUtils';
+
+// Filters that can be switched on and off individually
+export interface EnhancementOptions {
+  autoRotate: boolean; // Turn sideways and upside-down cards upright before the other filters
+  deskew: boolean;
+  grayscale: boolean;
+  contrast: boolean;
+  denoise: boolean;
+  invertDark: boolean;
+  binarize: boolean;
+  debug: boolean; // Keep every intermediate image for the debug view
+}
+
+export type EnhancementFilter = Exclude<keyof EnhancementOptions, 'debug'>;
+
+export const ENHANCEMENT_FILTERS: { key: EnhancementFilter; label: string; description: string }[] = [
+  { key: 'autoRotate', label: 'Auto-rotate', description: 'Turn sideways and upside-down cards upright' },
+  { key: 'deskew', label: 'Deskew', description: 'Straighten text lines' },
+  { key: 'grayscale', label: 'Grayscale', description: 'Drop colour information' },
+  { key: 'contrast', label: 'Contrast', description: 'Stretch faded or washed-out images' },
+  { key: 'denoise', label: 'Denoise', description: 'Remove speckle from textured or glossy stock' },
+  { key: 'invertDark', label: 'Invert dark cards', description: 'Turn light-on-dark text into dark-on-light' },
+  { key: 'binarize', label: 'Adaptive threshold', description: 'Black and white with local thresholds for glare' },
+];
+
+export const DEFAULT_ENHANCEMENT_OPTIONS: EnhancementOptions = {
+  autoRotate: true,
+  deskew: true,
+  grayscale: true,
+  contrast: true,
+  denoise: true,
+  invertDark: true,
+  binarize: true,
+  debug: false,
+};
+
+export interface EnhancementStep {
+  id: 'input' | EnhancementFilter;
+  label: string;
+  raster: RasterImage;
+  detail?: string; // e.g. the deskew angle
+}
+
+// An intermediate image encoded for the debug view
+export interface EnhancementDebugImage {
+  id: EnhancementStep['id'];
+  label: string;
+  detail?: string;
+  imageData: string;
+}
+
+export interface EnhancementResult {
+  image: RasterImage; // Geometry-corrected colour image; OCR word boxes refer to this
+  ocrImage: RasterImage; // Fully filtered image handed to the OCR engine
+  steps: EnhancementStep[]; // Intermediate images, only filled in debug mode
+  skewAngle: number;
+  inverted: boolean;
+}
+
+// Run the enabled filters in a fixed order. Deskew changes the geometry, so it
+// runs first on the colour image; the rest only change pixel values.
+export const enhanceRaster = (raster: RasterImage, options: EnhancementOptions): EnhancementResult => {
+  const steps: EnhancementStep[] = [];
+  const record = (id: EnhancementStep['id'], stepRaster: RasterImage, detail?: string) => {
+    if (options.debug) {
+      const label = id === 'input' ? 'Input' : ENHANCEMENT_FILTERS.find(f => f.key === id)!.label;
+      steps.push({ id, label, raster: stepRaster, detail });
+    }
+  };
+
+  record('input', raster);
+
+  let image = raster;
+  let skewAngle = 0;
+  if (options.deskew) {
+    skewAngle = estimateSkewAngle(raster);
+    if (Math.abs(skewAngle) >= 0.3) {
+      image = rotateRaster(raster, -skewAngle);
+    }
+    record('deskew', image, `${skewAngle}°`);
+  }
+
+  let current = image;
+  if (options.grayscale) {
+    current = grayscale(current);
+    record('grayscale', current);
+  }
+
+  if (options.contrast) {
+    current = stretchContrast(current);
+    record('contrast', current);
+  }
+
+  if (options.denoise) {
+    current = denoise(current);
+    record('denoise', current);
+  }
+
+  let inverted = false;
+  if (options.invertDark && hasDarkBackground(current)) {
+    current = invert(current);
+    inverted = true;
+  }
+  if (options.invertDark) {
+    record('invertDark', current, inverted ? 'Inverted' : 'Not needed');
+  }
+
+  if (options.binarize) {
+    current = adaptiveThreshold(current);
+    record('binarize', current);
+  }
+
+  return { image, ocrImage: current, steps, skewAngle, inverted };
+};
+
+const ENHANCEMENT_OPTIONS_KEY = 'bcs_enhancement_options';
+
+export const loadEnhancementOptions = (): EnhancementOptions => {
+  try {
+    const stored = localStorage.getItem(ENHANCEMENT_OPTIONS_KEY);
+    if (stored) {
+      return { ...DEFAULT_ENHANCEMENT_OPTIONS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Failed to read enhancement options:', error);
+  }
+  return { ...DEFAULT_ENHANCEMENT_OPTIONS };
+};
+
+export const saveEnhancementOptions = (options: EnhancementOptions): void => {
+  try {
+    localStorage.setItem(ENHANCEMENT_OPTIONS_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.warn('Failed to save enhancement options:', error);
+  }
+};
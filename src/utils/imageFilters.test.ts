@@ -0,0 +1,47 @@
+import { adaptiveThreshold, estimateSkewAngle, hasDarkBackground, rotateRaster } from './imageFilters';
+import { createRaster, type RasterImage } from './imageUtils';
+
+// Horizontal "text lines" of dashes on a plain background
+const drawTextLines = (width: number, height: number, ink: number, paper: number): RasterImage => {
+  const raster = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const isInk = y > 40 && y < height - 40 && x > 40 && x < width - 40 && y % 24 < 5 && x % 16 < 12;
+      raster.data[i] = raster.data[i + 1] = raster.data[i + 2] = isInk ? ink : paper;
+      raster.data[i + 3] = 255;
+    }
+  }
+  return raster;
+};
+
+describe('Image filters', () => {
+  test('should measure the angle of rotated text lines', () => {
+    const skewed = rotateRaster(drawTextLines(600, 400, 20, 240), 4);
+    expect(estimateSkewAngle(skewed)).toBeCloseTo(4, 0);
+  });
+
+  test('should find no skew in straight text', () => {
+    expect(Math.abs(estimateSkewAngle(drawTextLines(600, 400, 20, 240)))).toBeLessThan(0.5);
+  });
+
+  test('should detect light text on a dark card', () => {
+    expect(hasDarkBackground(drawTextLines(300, 200, 230, 25))).toBe(true);
+    expect(hasDarkBackground(drawTextLines(300, 200, 25, 230))).toBe(false);
+  });
+
+  test('should binarize text under uneven lighting', () => {
+    const raster = drawTextLines(300, 200, 20, 240);
+    // Darken the right half like a shadow across the card
+    for (let i = 0; i < raster.data.length; i += 4) {
+      if ((i / 4) % 300 > 150) {
+        raster.data[i] = raster.data[i + 1] = raster.data[i + 2] = raster.data[i] * 0.5;
+      }
+    }
+    const binary = adaptiveThreshold(raster);
+    const paperInShadow = (10 * 300 + 250) * 4;
+    const inkInShadow = (48 * 300 + 200) * 4;
+    expect(binary.data[paperInShadow]).toBe(255);
+    expect(binary.data[inkInShadow]).toBe(0);
+  });
+});
@@ -0,0 +1,241 @@
+import { boxBlur, createRaster, downscaleRaster, otsuThreshold, toGrayscale, type RasterImage } from './imageUtils';
+
+// Pixel filters used by the enhancement pipeline. Each one takes a raster and
+// returns a new raster; none of them touch the DOM.
+
+// Expand a single-channel image back to RGBA
+const grayToRaster = (gray: Uint8ClampedArray, width: number, height: number): RasterImage => {
+  const output = createRaster(width, height);
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    output.data[i] = output.data[i + 1] = output.data[i + 2] = gray[p];
+    output.data[i + 3] = 255;
+  }
+  return output;
+};
+
+export const grayscale = (raster: RasterImage): RasterImage =>
+  grayToRaster(toGrayscale(raster), raster.width, raster.height);
+
+// Stretch the 1st-99th percentile of luminance to the full range
+export const stretchContrast = (raster: RasterImage): RasterImage => {
+  const gray = toGrayscale(raster);
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  const clip = gray.length * 0.01;
+  let low = 0;
+  let high = 255;
+  for (let count = 0; low < 255 && count + histogram[low] <= clip; low++) count += histogram[low];
+  for (let count = 0; high > 0 && count + histogram[high] <= clip; high--) count += histogram[high];
+  if (high - low < 10) return grayToRaster(gray, raster.width, raster.height);
+
+  const range = high - low;
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = ((gray[i] - low) * 255) / range;
+  }
+  return grayToRaster(gray, raster.width, raster.height);
+};
+
+// 3x3 median filter; removes speckle from glossy or textured card stock
+export const denoise = (raster: RasterImage): RasterImage => {
+  const { width, height } = raster;
+  const gray = toGrayscale(raster);
+  const output = new Uint8ClampedArray(gray.length);
+  const window = new Array<number>(9);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = Math.min(width - 1, Math.max(0, x + dx));
+          window[n++] = gray[yy * width + xx];
+        }
+      }
+      window.sort((a, b) => a - b);
+      output[y * width + x] = window[4];
+    }
+  }
+
+  return grayToRaster(output, width, height);
+};
+
+// True when the card background is darker than its text (light text on a dark card)
+export const hasDarkBackground = (raster: RasterImage): boolean => {
+  const gray = toGrayscale(raster);
+  const threshold = otsuThreshold(gray);
+  let bright = 0;
+  let total = 0;
+  for (let i = 0; i < gray.length; i++) {
+    total += gray[i];
+    if (gray[i] > threshold) bright++;
+  }
+  // Text covers far less area than the background, so the majority class is the background
+  return bright < gray.length / 2 && total / gray.length < 128;
+};
+
+export const invert = (raster: RasterImage): RasterImage => {
+  const output = createRaster(raster.width, raster.height);
+  for (let i = 0; i < raster.data.length; i += 4) {
+    output.data[i] = 255 - raster.data[i];
+    output.data[i + 1] = 255 - raster.data[i + 1];
+    output.data[i + 2] = 255 - raster.data[i + 2];
+    output.data[i + 3] = raster.data[i + 3];
+  }
+  return output;
+};
+
+// Bradley-Roth adaptive threshold: each pixel is compared with the mean of its
+// neighbourhood, which copes with glare and uneven lighting better than one
+// global threshold
+export const adaptiveThreshold = (raster: RasterImage, sensitivity: number = 0.15): RasterImage => {
+  const { width, height } = raster;
+  const gray = toGrayscale(raster);
+  const radius = Math.max(4, Math.round(Math.max(width, height) / 32));
+  const mean = boxBlur(gray, width, height, radius);
+  const output = new Uint8ClampedArray(gray.length);
+
+  for (let i = 0; i < gray.length; i++) {
+    output[i] = gray[i] < mean[i] * (1 - sensitivity) ? 0 : 255;
+  }
+
+  return grayToRaster(output, width, height);
+};
+
+// Estimate the text-line angle in degrees with a projection profile: rows of
+// text produce the sharpest horizontal histogram when projected at their angle
+export const estimateSkewAngle = (raster: RasterImage, maxAngle: number = 10): number => {
+  const { raster: small } = downscaleRaster(raster, 800);
+  const { width, height } = small;
+  const gray = toGrayscale(small);
+  const threshold = otsuThreshold(gray);
+
+  // Text is the minority class, whether it is dark on light or light on dark
+  let dark = 0;
+  for (let i = 0; i < gray.length; i++) if (gray[i] <= threshold) dark++;
+  const textIsDark = dark < gray.length / 2;
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const isText = textIsDark ? gray[y * width + x] <= threshold : gray[y * width + x] > threshold;
+      if (isText) {
+        xs.push(x - width / 2);
+        ys.push(y - height / 2);
+      }
+    }
+  }
+  if (xs.length < 50) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const profile = new Float64Array(diagonal + 1);
+  const score = (degrees: number): number => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    profile.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      const row = Math.round(ys[i] * cos - xs[i] * sin + diagonal / 2);
+      if (row >= 0 && row <= diagonal) profile[row]++;
+    }
+    let sum = 0;
+    for (let r = 1; r <= diagonal; r++) {
+      const diff = profile[r] - profile[r - 1];
+      sum += diff * diff;
+    }
+    return sum;
+  };
+
+  const search = (from: number, to: number, step: number): number => {
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const value = score(angle);
+      if (value > bestScore) {
+        bestScore = value;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  const coarse = search(-maxAngle, maxAngle, 0.5);
+  return Math.round(search(coarse - 0.5, coarse + 0.5, 0.1) * 10) / 10;
+};
+
+// Rotate around the centre by `degrees` (clockwise on screen), keeping the size and repeating edge pixels
+export const rotateRaster = (raster: RasterImage, degrees: number): RasterImage => {
+  const { data, width, height } = raster;
+  const output = createRaster(width, height);
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const cx = width / 2;
+  const cy = height / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Inverse mapping from output to source pixel
+      const dx = x - cx;
+      const dy = y - cy;
+      const sx = Math.min(width - 1, Math.max(0, Math.round(dx * cos + dy * sin + cx)));
+      const sy = Math.min(height - 1, Math.max(0, Math.round(-dx * sin + dy * cos + cy)));
+      const src = (sy * width + sx) * 4;
+      const dst = (y * width + x) * 4;
+      output.data[dst] = data[src];
+      output.data[dst + 1] = data[src + 1];
+      output.data[dst + 2] = data[src + 2];
+      output.data[dst + 3] = data[src + 3];
+    }
+  }
+
+  return output;
+};
+
+// Rotate by a multiple of 90° clockwise. Unlike rotateRaster, width and height swap for quarter turns.
+export const rotateRightAngle = (raster: RasterImage, degrees: 90 | 180 | 270): RasterImage => {
+  const { data, width, height } = raster;
+  const output = degrees === 180 ? createRaster(width, height) : createRaster(height, width);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let tx: number;
+      let ty: number;
+      if (degrees === 90) {
+        tx = height - 1 - y;
+        ty = x;
+      } else if (degrees === 180) {
+        tx = width - 1 - x;
+        ty = height - 1 - y;
+      } else {
+        tx = y;
+        ty = width - 1 - x;
+      }
+      const src = (y * width + x) * 4;
+      const dst = (ty * output.width + tx) * 4;
+      output.data[dst] = data[src];
+      output.data[dst + 1] = data[src + 1];
+      output.data[dst + 2] = data[src + 2];
+      output.data[dst + 3] = data[src + 3];
+    }
+  }
+
+  return output;
+};
+
+export const flipHorizontal = (raster: RasterImage): RasterImage => {
+  const { data, width, height } = raster;
+  const output = createRaster(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * 4;
+      const dst = (y * width + (width - 1 - x)) * 4;
+      output.data.set(data.subarray(src, src + 4), dst);
+    }
+  }
+
+  return output;
+};
@@ -0,0 +1,51 @@
+import { applyExifOrientation, readExifOrientation } from './imageOrientation';
+import { createRaster, type RasterImage } from './imageUtils';
+
+// Minimal JPEG header with an EXIF block holding only the orientation tag
+const jpegWithOrientation = (orientation: number, littleEndian: boolean): Uint8Array => {
+  const tiff = new DataView(new ArrayBuffer(26));
+  tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, littleEndian);
+  tiff.setUint32(4, 8, littleEndian);
+  tiff.setUint16(8, 1, littleEndian);
+  tiff.setUint16(10, 0x0112, littleEndian);
+  tiff.setUint16(12, 3, littleEndian);
+  tiff.setUint32(14, 1, littleEndian);
+  tiff.setUint16(18, orientation, littleEndian);
+
+  const exif = [0x45, 0x78, 0x69, 0x66, 0, 0, ...new Uint8Array(tiff.buffer)];
+  const length = exif.length + 2;
+  return Uint8Array.from([0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, ...exif, 0xff, 0xda, 0, 2]);
+};
+
+// 2x1 image with a red left pixel and a blue right pixel
+const redBlue = (): RasterImage => {
+  const raster = createRaster(2, 1);
+  raster.data.set([255, 0, 0, 255, 0, 0, 255, 255]);
+  return raster;
+};
+
+const pixel = (raster: RasterImage, x: number, y: number) =>
+  Array.from(raster.data.slice((y * raster.width + x) * 4, (y * raster.width + x) * 4 + 3));
+
+describe('EXIF orientation', () => {
+  test('should read the orientation tag in both byte orders', () => {
+    expect(readExifOrientation(jpegWithOrientation(6, false))).toBe(6);
+    expect(readExifOrientation(jpegWithOrientation(3, true))).toBe(3);
+    expect(readExifOrientation(Uint8Array.from([0xff, 0xd8, 0xff, 0xda, 0, 2]))).toBe(1);
+    expect(readExifOrientation(Uint8Array.from([0x89, 0x50, 0x4e, 0x47]))).toBe(1);
+  });
+
+  test('should rotate and mirror pixels upright', () => {
+    const rotated = applyExifOrientation(redBlue(), 6);
+    expect([rotated.width, rotated.height]).toEqual([1, 2]);
+    expect(pixel(rotated, 0, 0)).toEqual([255, 0, 0]);
+    expect(pixel(rotated, 0, 1)).toEqual([0, 0, 255]);
+
+    const counterClockwise = applyExifOrientation(redBlue(), 8);
+    expect(pixel(counterClockwise, 0, 0)).toEqual([0, 0, 255]);
+
+    const mirrored = applyExifOrientation(redBlue(), 2);
+    expect(pixel(mirrored, 0, 0)).toEqual([0, 0, 255]);
+  });
+});
@@ -0,0 +1,104 @@
+import { flipHorizontal, rotateRightAngle } from './imageFilters';
+import { createRaster, loadImageElement, rasterToDataUrl, type RasterImage } from './imageUtils';
+
+// EXIF orientation values: 1 is upright, 2-8 describe the rotation and mirroring
+// the camera stored the pixels with.
+
+// Read the orientation tag from a JPEG's EXIF block. Returns 1 when there is none.
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // Image data starts at SOS; EXIF always comes before it
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, littleEndian);
+
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+
+    offset += 2 + length;
+  }
+
+  return 1;
+};
+
+// Turn raw sensor-order pixels upright according to the EXIF orientation
+export const applyExifOrientation = (raster: RasterImage, orientation: number): RasterImage => {
+  switch (orientation) {
+    case 2:
+      return flipHorizontal(raster);
+    case 3:
+      return rotateRightAngle(raster, 180);
+    case 4:
+      return flipHorizontal(rotateRightAngle(raster, 180));
+    case 5:
+      return flipHorizontal(rotateRightAngle(raster, 90));
+    case 6:
+      return rotateRightAngle(raster, 90);
+    case 7:
+      return flipHorizontal(rotateRightAngle(raster, 270));
+    case 8:
+      return rotateRightAngle(raster, 270);
+    default:
+      return raster;
+  }
+};
+
+// Browsers that support image-orientation already apply EXIF orientation when decoding images
+const browserAppliesExifOrientation = (): boolean =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+// The EXIF block sits at the start of the file, so only the first 64KB need decoding
+const readDataUrlOrientation = (imageData: string): number => {
+  const start = imageData.indexOf(',') + 1;
+  // 87384 base64 characters decode to 65538 bytes
+  const bytes = Uint8Array.from(atob(imageData.slice(start, start + 87384)), char => char.charCodeAt(0));
+  return readExifOrientation(bytes);
+};
+
+// Re-encode a JPEG with its pixels upright and no orientation tag, so every later
+// step sees the image the way the user does
+export const normalizeExifOrientation = async (imageData: string): Promise<string> => {
+  if (!imageData.startsWith('data:image/jpeg')) return imageData;
+
+  const orientation = readDataUrlOrientation(imageData);
+  if (orientation === 1) return imageData;
+
+  const img = await loadImageElement(imageData);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return imageData;
+  ctx.drawImage(img, 0, 0);
+
+  if (browserAppliesExifOrientation()) {
+    // Already upright; re-encoding drops the tag
+    return canvas.toDataURL('image/jpeg', 0.92);
+  }
+
+  const raw = createRaster(canvas.width, canvas.height);
+  raw.data.set(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+  console.log('Applying EXIF orientation', orientation);
+  return rasterToDataUrl(applyExifOrientation(raw, orientation), 'image/jpeg', 0.92);
+};
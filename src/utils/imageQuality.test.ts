@@ -0,0 +1,44 @@
+import { analyzeImageQuality } from './imageQuality';
+import { boxBlur, createRaster, type RasterImage } from './imageUtils';
+
+// Light gray card with rows of dark "text" strokes
+const textCard = (width: number, height: number): RasterImage => {
+  const raster = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const isText = y % 40 < 12 && x % 9 < 3 && x > 20 && x < width - 20;
+      const value = isText ? 30 : 225;
+      raster.data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return raster;
+};
+
+const blurred = (raster: RasterImage, radius: number): RasterImage => {
+  const gray = new Uint8ClampedArray(raster.width * raster.height);
+  for (let p = 0; p < gray.length; p++) gray[p] = raster.data[p * 4];
+  const soft = boxBlur(boxBlur(gray, raster.width, raster.height, radius), raster.width, raster.height, radius);
+  const output = createRaster(raster.width, raster.height);
+  soft.forEach((value, p) => output.data.set([value, value, value, 255], p * 4));
+  return output;
+};
+
+describe('Image quality', () => {
+  test('should accept a sharp card and flag a blurred one', () => {
+    const card = textCard(700, 400);
+    expect(analyzeImageQuality(card).issues).toEqual([]);
+    expect(analyzeImageQuality(blurred(card, 4)).issues).toContain('blur');
+  });
+
+  test('should flag glare and low resolution', () => {
+    const card = textCard(700, 400);
+    for (let y = 0; y < 200; y++) {
+      for (let x = 0; x < 350; x++) {
+        card.data.set([255, 255, 255, 255], (y * 700 + x) * 4);
+      }
+    }
+    expect(analyzeImageQuality(card).issues).toEqual(['glare']);
+    // The same pixels taken from a photo downscaled to half size for analysis
+    expect(analyzeImageQuality(textCard(700, 400), 2).issues).toEqual(['lowResolution']);
+  });
+});
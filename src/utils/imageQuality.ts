@@ -0,0 +1,108 @@
+import { cropToCard } from './cardDetection';
+import { dataUrlToRaster, loadImageElement, toGrayscale, type RasterImage } from './imageUtils';
+
+export type QualityIssue = 'blur' | 'glare' | 'lowResolution';
+
+export interface ImageQualityReport {
+  sharpness: number; // Laplacian variance of the sharpest text areas
+  glareRatio: number; // Share of the card that is blown out to white
+  estimatedDpi: number; // Resolution of the card, assuming a standard 3.5 inch wide card
+  issues: QualityIssue[];
+}
+
+export const QUALITY_ISSUE_MESSAGES: Record<QualityIssue, string> = {
+  blur: 'The image looks blurry. Hold the camera steady and make sure the card is in focus.',
+  glare: 'Part of the card is washed out by glare or reflections.',
+  lowResolution: 'The card is too small in the image to read small print. Move closer or use a higher resolution.',
+};
+
+// Analysed at the width OCR runs at, so the scores reflect what Tesseract will see
+const ANALYSIS_SIZE = 1280;
+const TILE_SIZE = 32;
+
+const BLUR_THRESHOLD = 40;
+const GLARE_THRESHOLD = 0.08;
+const MIN_DPI = 150;
+const CARD_WIDTH_INCHES = 3.5;
+
+// Per-tile variance of the Laplacian. Blank card areas have almost none, so the
+// score is taken from the busiest tiles, which hold the text.
+export const measureSharpness = (raster: RasterImage): number => {
+  const { width, height } = raster;
+  const gray = toGrayscale(raster);
+  const tileVariances: number[] = [];
+
+  for (let ty = 1; ty + TILE_SIZE < height; ty += TILE_SIZE) {
+    for (let tx = 1; tx + TILE_SIZE < width; tx += TILE_SIZE) {
+      let sum = 0;
+      let sumSquares = 0;
+      for (let y = ty; y < ty + TILE_SIZE; y++) {
+        for (let x = tx; x < tx + TILE_SIZE; x++) {
+          const i = y * width + x;
+          const laplacian = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+          sum += laplacian;
+          sumSquares += laplacian * laplacian;
+        }
+      }
+      const count = TILE_SIZE * TILE_SIZE;
+      const mean = sum / count;
+      tileVariances.push(sumSquares / count - mean * mean);
+    }
+  }
+
+  if (tileVariances.length === 0) return 0;
+  tileVariances.sort((a, b) => a - b);
+  return tileVariances[Math.floor(tileVariances.length * 0.9)];
+};
+
+// Share of tiles that are almost entirely clipped to white. Text on a brightly lit
+// card keeps its tiles below this, while reflections wipe out whole patches.
+export const measureGlare = (raster: RasterImage): number => {
+  const { width, height } = raster;
+  const gray = toGrayscale(raster);
+  let tiles = 0;
+  let glareTiles = 0;
+
+  for (let ty = 0; ty + TILE_SIZE <= height; ty += TILE_SIZE) {
+    for (let tx = 0; tx + TILE_SIZE <= width; tx += TILE_SIZE) {
+      let clipped = 0;
+      for (let y = ty; y < ty + TILE_SIZE; y++) {
+        for (let x = tx; x < tx + TILE_SIZE; x++) {
+          if (gray[y * width + x] >= 250) clipped++;
+        }
+      }
+      tiles++;
+      if (clipped >= TILE_SIZE * TILE_SIZE * 0.95) glareTiles++;
+    }
+  }
+
+  return tiles === 0 ? 0 : glareTiles / tiles;
+};
+
+export const analyzeImageQuality = (card: RasterImage, scale: number = 1): ImageQualityReport => {
+  const sharpness = measureSharpness(card);
+  const glareRatio = measureGlare(card);
+  const estimatedDpi = Math.max(card.width, card.height) / scale / CARD_WIDTH_INCHES;
+
+  const issues: QualityIssue[] = [];
+  if (sharpness < BLUR_THRESHOLD) issues.push('blur');
+  if (glareRatio > GLARE_THRESHOLD) issues.push('glare');
+  if (estimatedDpi < MIN_DPI) issues.push('lowResolution');
+
+  return {
+    sharpness: Math.round(sharpness),
+    glareRatio: Math.round(glareRatio * 100) / 100,
+    estimatedDpi: Math.round(estimatedDpi),
+    issues,
+  };
+};
+
+// Check a captured image before it is sent for OCR. Only the card is analysed
+// when its outline can be found, so a busy background does not skew the scores.
+export const assessImageQuality = async (imageData: string): Promise<ImageQualityReport> => {
+  const img = await loadImageElement(imageData);
+  const raster = await dataUrlToRaster(imageData, ANALYSIS_SIZE);
+  const scale = raster.width / img.naturalWidth;
+  const card = cropToCard(raster) || raster;
+  return analyzeImageQuality(card, scale);
+};
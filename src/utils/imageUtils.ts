@@ -0,0 +1,214 @@
+// Shared helpers for moving images between data URLs and raw pixel buffers.
+// The pixel-level algorithms (card detection, filters) work on RasterImage so
+// they stay independent of the DOM.
+
+// Same shape as ImageData, so either can be passed where a raster is expected
+export interface RasterImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const createRaster = (width: number, height: number): RasterImage => ({
+  data: new Uint8ClampedArray(width * height * 4),
+  width,
+  height,
+});
+
+// Load a data URL into an <img> element
+export const loadImageElement = (imageData: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = imageData;
+  });
+};
+
+// Decode a data URL into pixels, optionally scaling it down so the longest side fits maxDimension
+export const dataUrlToRaster = async (imageData: string, maxDimension?: number): Promise<RasterImage> => {
+  const img = await loadImageElement(imageData);
+  const scale = maxDimension ? Math.min(1, maxDimension / Math.max(img.width, img.height)) : 1;
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context not available');
+  }
+
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export const rasterToDataUrl = (raster: RasterImage, type: string = 'image/jpeg', quality: number = 0.92): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = raster.width;
+  canvas.height = raster.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context not available');
+  }
+
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(raster.data), raster.width, raster.height), 0, 0);
+  return canvas.toDataURL(type, quality);
+};
+
+// Encode pixels to an image file, optionally scaling down to maxWidth with the canvas' smooth resampling
+export const rasterToBlob = (
+  raster: RasterImage,
+  type: string = 'image/jpeg',
+  quality: number = 0.92,
+  maxWidth?: number
+): Promise<Blob> => {
+  const source = document.createElement('canvas');
+  source.width = raster.width;
+  source.height = raster.height;
+  const sourceCtx = source.getContext('2d');
+  if (!sourceCtx) {
+    throw new Error('Canvas 2D context not available');
+  }
+  sourceCtx.putImageData(new ImageData(new Uint8ClampedArray(raster.data), raster.width, raster.height), 0, 0);
+
+  let canvas = source;
+  const scale = maxWidth ? Math.min(1, maxWidth / raster.width) : 1;
+  if (scale < 1) {
+    canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.floor(raster.width * scale));
+    canvas.height = Math.max(1, Math.floor(raster.height * scale));
+    canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+  });
+};
+
+// Decoded natively by the browser instead of with atob on the calling thread
+export const dataUrlToBlob = async (imageData: string): Promise<Blob> => (await fetch(imageData)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+
+// Luminance (Rec. 601) of every pixel, one byte per pixel
+export const toGrayscale = (raster: RasterImage): Uint8ClampedArray => {
+  const { data, width, height } = raster;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+};
+
+// Nearest-neighbour downscale used for fast analysis passes
+export const downscaleRaster = (raster: RasterImage, maxDimension: number): { raster: RasterImage; scale: number } => {
+  const scale = Math.min(1, maxDimension / Math.max(raster.width, raster.height));
+  if (scale === 1) {
+    return { raster, scale };
+  }
+
+  const width = Math.max(1, Math.round(raster.width * scale));
+  const height = Math.max(1, Math.round(raster.height * scale));
+  const output = createRaster(width, height);
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(raster.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(raster.width - 1, Math.floor(x / scale));
+      const src = (sy * raster.width + sx) * 4;
+      const dst = (y * width + x) * 4;
+      output.data[dst] = raster.data[src];
+      output.data[dst + 1] = raster.data[src + 1];
+      output.data[dst + 2] = raster.data[src + 2];
+      output.data[dst + 3] = raster.data[src + 3];
+    }
+  }
+
+  return { raster: output, scale };
+};
+
+// Otsu's method: the threshold that best separates a grayscale histogram into two classes
+export const otsuThreshold = (gray: Uint8ClampedArray): number => {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) {
+    histogram[gray[i]]++;
+  }
+
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) {
+    sumAll += t * histogram[t];
+  }
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = gray.length - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+
+  return threshold;
+};
+
+// Separable box blur on a single-channel image
+export const boxBlur = (gray: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  if (radius <= 0) return gray;
+  const temp = new Float32Array(gray.length);
+  const output = new Uint8ClampedArray(gray.length);
+  const size = radius * 2 + 1;
+
+  for (let y = 0; y < height; y++) {
+    let sum = 0;
+    for (let x = -radius; x <= radius; x++) {
+      sum += gray[y * width + Math.min(width - 1, Math.max(0, x))];
+    }
+    for (let x = 0; x < width; x++) {
+      temp[y * width + x] = sum / size;
+      const outgoing = Math.max(0, x - radius);
+      const incoming = Math.min(width - 1, x + radius + 1);
+      sum += gray[y * width + incoming] - gray[y * width + outgoing];
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = -radius; y <= radius; y++) {
+      sum += temp[Math.min(height - 1, Math.max(0, y)) * width + x];
+    }
+    for (let y = 0; y < height; y++) {
+      output[y * width + x] = sum / size;
+      const outgoing = Math.max(0, y - radius);
+      const incoming = Math.min(height - 1, y + radius + 1);
+      sum += temp[incoming * width + x] - temp[outgoing * width + x];
+    }
+  }
+
+  return output;
+};
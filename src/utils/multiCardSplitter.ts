@@ -0,0 +1,27 @@
+import { MAX_CROP_DIMENSION, detectCardRegions, warpQuadToRect, type Quad } from './cardDetection';
+import { dataUrlToRaster, rasterToDataUrl } from './imageUtils';
+
+// Card regions found in one image. Coordinates are in the image decoded at
+// MAX_CROP_DIMENSION, whose size is given by width and height.
+export interface DetectedCardRegions {
+  imageData: string;
+  width: number;
+  height: number;
+  regions: Quad[];
+}
+
+export const findCardRegions = async (imageData: string): Promise<DetectedCardRegions> => {
+  const raster = await dataUrlToRaster(imageData, MAX_CROP_DIMENSION);
+  return {
+    imageData,
+    width: raster.width,
+    height: raster.height,
+    regions: detectCardRegions(raster),
+  };
+};
+
+// Cut each region out of the image and flatten it into its own card image
+export const extractCardRegions = async (detected: DetectedCardRegions): Promise<string[]> => {
+  const raster = await dataUrlToRaster(detected.imageData, MAX_CROP_DIMENSION);
+  return detected.regions.map(quad => rasterToDataUrl(warpQuadToRect(raster, quad), 'image/jpeg', 0.92));
+};
@@ -0,0 +1,34 @@
+import { correctOcrText } from './ocrCorrection';
+import { parseCardData } from './cardParser';
+
+describe('OCR error correction', () => {
+  test('repairs misread at signs, top-level domains and digits, and logs each change', () => {
+    const { text, corrections } = correctOcrText(`jane©acme,corn
+wvvw.acme.corn
+Tel: +91 98O2O 12345
+Smith (a) Co
+Bldg.C0, Plot No. 12`);
+
+    expect(text).toBe(`jane@acme.com
+www.acme.com
+Tel: +91 98020 12345
+Smith (a) Co
+Bldg.C0, Plot No. 12`);
+    expect(corrections).toEqual([
+      { field: 'email', original: 'jane©acme,corn', corrected: 'jane@acme.com' },
+      { field: 'website', original: 'wvvw.acme.corn', corrected: 'www.acme.com' },
+      { field: 'phone', original: '+91 98O2O 12345', corrected: '+91 98020 12345' },
+    ]);
+  });
+
+  test('reconciles the email domain with the website before fields are read', () => {
+    const result = parseCardData(`Jane Doe
+Acme Solutions
+jane (a) acrne.com
+www.acme.com`);
+
+    expect(result.email).toBe('jane@acme.com');
+    expect(result.website).toBe('www.acme.com');
+    expect(result.ocrCorrections?.map(correction => correction.field)).toEqual(['email', 'email']);
+  });
+});
@@ -0,0 +1,170 @@
+// Fixes for the characters Tesseract most often misreads in emails, web addresses and
+// phone numbers: "©" or "(a)" for "@", ",corn" for ".com", "O" for "0" and "l" for "1".
+// A substitution is only made where the result is valid in its context, i.e. the
+// domain ends in a known top-level domain or the run is otherwise all digits.
+
+export type CorrectedField = 'email' | 'website' | 'phone';
+
+export interface OcrCorrection {
+  field: CorrectedField;
+  original: string;
+  corrected: string;
+}
+
+export interface OcrCorrectionResult {
+  text: string;
+  corrections: OcrCorrection[];
+}
+
+// Top-level domains a corrected domain may end in, and the labels of second-level
+// domains such as co.uk or com.au
+const TOP_LEVEL_DOMAINS = new Set([
+  'com', 'org', 'net', 'edu', 'gov', 'mil', 'int', 'info', 'biz', 'pro', 'mobi', 'name', 'asia', 'eu',
+  'io', 'ai', 'co', 'me', 'tv', 'fm', 'ly', 'gg', 'to', 'app', 'dev', 'tech', 'online', 'site', 'store',
+  'shop', 'xyz', 'cloud', 'global', 'group', 'company', 'agency', 'consulting', 'solutions', 'studio',
+  'design', 'media', 'digital', 'network', 'systems', 'software', 'email', 'live', 'world', 'travel',
+  'health', 'law', 'bank', 'finance', 'capital', 'ventures', 'partners', 'services', 'academy', 'art',
+  'us', 'ca', 'mx', 'br', 'ar', 'cl', 'uk', 'ie', 'de', 'at', 'ch', 'fr', 'be', 'nl', 'lu', 'es', 'it',
+  'pt', 'pl', 'cz', 'sk', 'hu', 'ro', 'bg', 'gr', 'se', 'dk', 'no', 'fi', 'is', 'ru', 'ua', 'tr', 'il',
+  'ae', 'sa', 'qa', 'kw', 'om', 'bh', 'eg', 'ma', 'ng', 'ke', 'za', 'in', 'pk', 'bd', 'lk', 'np', 'sg',
+  'my', 'id', 'ph', 'th', 'vn', 'hk', 'tw', 'cn', 'jp', 'kr', 'au', 'nz', 'ac', 'ltd', 'plc', 'ne', 'or',
+]);
+
+// Misreads within a domain label, tried in turn and together on a label that is not a known TLD
+const DOMAIN_CONFUSABLES: [RegExp, string][] = [
+  [/rn/g, 'm'],
+  [/0/g, 'o'],
+  [/1/g, 'l'],
+  [/vv/g, 'w'],
+  [/cl/g, 'd'],
+];
+
+// Sequences that may be a misread, counted to decide which of two spellings is the original
+const SUSPICIOUS_SEQUENCES = /rn|vv|cl|[01]/g;
+
+const AT_SIGN_CONFUSABLES = /^(?:©|®|\(a\)|\(at\)|\[at\]|\(@\)|\[@\])$/i;
+
+// An email with "@" or one of its misreads, and a domain whose dots may have been read as commas.
+// Spaces are allowed around a misread "@" but not in the domain, so a list like "acme,com, Tel" ends at the domain.
+const EMAIL_CANDIDATE = /([\w.+-]+)(\s?(?:@|©|®|\(a\)|\(at\)|\[at\]|\(@\)|\[@\])\s?)([\w-]+(?:[.,][\w-]+)+)/gi;
+
+// www. addresses, including "vvww" and "wvvw", with dots that may have been read as commas
+const WEBSITE_CANDIDATE = /(?<![\w.@])((?:https?:\/\/)?(?:w|vv){3}[.,])([\w-]+(?:[.,][\w-]+)+)/gi;
+
+// A bare domain such as "acme.corn", whose last label is a misread of a TLD
+const DOMAIN_CANDIDATE = /(?<![\w.@/-])([a-z][\w-]+(?:\.[\w-]+)*\.)(\w{3,6})(?![\w@-])/gi;
+
+// Phone-like runs in which a few digits were read as letters
+const PHONE_CANDIDATE = /(?<![\p{L}\d/_@])(\+?\(?[\dOolI|][\dOolI|\s().-]{5,}[\dOolI|])(?![\p{L}\d/_@])/gu;
+const DIGIT_CONFUSABLES: Record<string, string> = { O: '0', o: '0', l: '1', I: '1', '|': '1' };
+
+const isTopLevelDomain = (label: string): boolean => TOP_LEVEL_DOMAINS.has(label.toLowerCase());
+
+// The first spelling of a misread TLD that is a known one, e.g. "com" for "corn" or "c0m"
+const fixTopLevelDomain = (label: string): string | undefined => {
+  if (isTopLevelDomain(label)) return label;
+  const lower = label.toLowerCase();
+  const variants = DOMAIN_CONFUSABLES.reduce(
+    (found, [pattern, replacement]) => [...found, ...found.map(variant => variant.replace(pattern, replacement))],
+    [lower]
+  );
+  return variants.find(isTopLevelDomain);
+};
+
+// A domain with commas read back as dots and its TLD repaired, or undefined when it does
+// not end in a known TLD either way
+const fixDomain = (domain: string): string | undefined => {
+  const labels = domain.split(/[.,]/);
+  const tld = fixTopLevelDomain(labels[labels.length - 1]);
+  if (!tld || labels.some(label => !label)) return undefined;
+  return [...labels.slice(0, -1), tld].join('.');
+};
+
+// Labels with the same canonical form may be misreads of each other
+const canonicalDomain = (domain: string): string =>
+  DOMAIN_CONFUSABLES.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), domain.toLowerCase());
+
+const suspiciousCount = (domain: string): number => (domain.match(SUSPICIOUS_SEQUENCES) || []).length;
+
+const addCorrection = (corrections: OcrCorrection[], field: CorrectedField, original: string, corrected: string) => {
+  if (original !== corrected) corrections.push({ field, original, corrected });
+};
+
+// The email and website of a card usually share a domain. When they differ only by
+// misreads, as in jane@acrne.com and www.acme.com, the spelling with fewer suspicious
+// sequences is used for both.
+const reconcileDomains = (text: string, corrections: OcrCorrection[]): OcrCorrectionResult => {
+  const emailDomains = Array.from(text.matchAll(/[\w.+-]+@([\w-]+(?:\.[\w-]+)+)/g), match => match[1]);
+  const websiteDomains = Array.from(text.matchAll(/(?<![\w.@])(?:https?:\/\/)?www\.([\w-]+(?:\.[\w-]+)+)/gi), match => match[1]);
+
+  let reconciled = text;
+  emailDomains.forEach(emailDomain => {
+    websiteDomains.forEach(websiteDomain => {
+      if (emailDomain.toLowerCase() === websiteDomain.toLowerCase()) return;
+      if (canonicalDomain(emailDomain) !== canonicalDomain(websiteDomain)) return;
+      const emailSuspicious = suspiciousCount(emailDomain);
+      const websiteSuspicious = suspiciousCount(websiteDomain);
+      if (emailSuspicious === websiteSuspicious) return;
+      const [field, marker, wrong, right]: [CorrectedField, string, string, string] =
+        emailSuspicious > websiteSuspicious
+          ? ['email', '@', emailDomain, websiteDomain]
+          : ['website', 'www.', websiteDomain, emailDomain];
+      reconciled = reconciled.split(`${marker}${wrong}`).join(`${marker}${right}`);
+      addCorrection(corrections, field, `${marker}${wrong}`, `${marker}${right}`);
+    });
+  });
+  return { text: reconciled, corrections };
+};
+
+// Correct the card text before fields are read from it. Every change is returned so the
+// card can show which values were corrected.
+export const correctOcrText = (input: string): OcrCorrectionResult => {
+  const corrections: OcrCorrection[] = [];
+
+  let text = input.replace(EMAIL_CANDIDATE, (match, local: string, at: string, domain: string) => {
+    const trimmedAt = at.trim();
+    if (trimmedAt !== '@' && !AT_SIGN_CONFUSABLES.test(trimmedAt)) return match;
+    const fixed = fixDomain(domain);
+    // Without a valid domain this is not an email, e.g. "Smith (a) Co"
+    if (!fixed) return match;
+    const corrected = `${local}@${fixed}`;
+    addCorrection(corrections, 'email', match, corrected);
+    return corrected;
+  });
+
+  text = text.replace(WEBSITE_CANDIDATE, (match, prefix: string, domain: string) => {
+    const fixed = fixDomain(domain);
+    if (!fixed) return match;
+    const corrected = `${prefix.replace(/(?:w|vv){3}[.,]$/i, www => (/^www\.$/i.test(www) ? www : 'www.'))}${fixed}`;
+    addCorrection(corrections, 'website', match, corrected);
+    return corrected;
+  });
+
+  text = text.replace(DOMAIN_CANDIDATE, (match, head: string, tld: string) => {
+    if (isTopLevelDomain(tld)) return match;
+    // Only misreads of three letters or more, so abbreviations such as "Bldg.C0" stay as they are
+    const fixed = fixTopLevelDomain(tld);
+    if (!fixed) return match;
+    const corrected = `${head}${fixed}`;
+    addCorrection(corrections, 'website', match, corrected);
+    return corrected;
+  });
+
+  text = text.replace(PHONE_CANDIDATE, (match: string) => {
+    const digits = (match.match(/\d/g) || []).length;
+    const letters = (match.match(/[Ool|I]/g) || []).length;
+    // Mostly digits, so the letters are misread digits rather than part of a word
+    if (letters === 0 || digits < 5 || letters > 2 || letters * 4 > digits) return match;
+    const corrected = match.replace(/[Ool|I]/g, char => DIGIT_CONFUSABLES[char]);
+    addCorrection(corrections, 'phone', match, corrected);
+    return corrected;
+  });
+
+  return reconcileDomains(text, corrections);
+};
+
+// The corrections made in one field, for "auto-corrected" hints
+export const fieldCorrections = (
+  card: { ocrCorrections?: OcrCorrection[] },
+  field: CorrectedField
+): OcrCorrection[] => (card.ocrCorrections || []).filter(correction => correction.field === field);
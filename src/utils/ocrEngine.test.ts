@@ -0,0 +1,56 @@
+import { createHttpOcrEngine, parseHttpOcrResponse } from './ocrEngine';
+
+describe('parseHttpOcrResponse', () => {
+  test('keeps well-formed words and clamps their confidence', () => {
+    const result = parseHttpOcrResponse({
+      text: 'Jane Doe\njane@example.com',
+      words: [
+        { text: 'Jane', confidence: 96, bbox: { x0: 10, y0: 10, x1: 60, y1: 30 } },
+        { text: 'Doe', confidence: 120, bbox: { x0: 70, y0: 10, x1: 110, y1: 30 } },
+        { text: 'jane@example.com', bbox: { x0: 10, y0: 40, x1: 200, y1: 60 } },
+        { text: 'stray', confidence: 50 },
+      ],
+    });
+
+    expect(result.text).toBe('Jane Doe\njane@example.com');
+    expect(result.words.map(word => [word.text, word.confidence])).toEqual([
+      ['Jane', 96],
+      ['Doe', 100],
+      ['jane@example.com', 0],
+    ]);
+  });
+
+  test('rejects replies without text', () => {
+    expect(() => parseHttpOcrResponse({ words: [] })).toThrow('no text');
+    expect(() => parseHttpOcrResponse({ text: 'x', words: 'x' })).toThrow('invalid word list');
+  });
+});
+
+describe('createHttpOcrEngine', () => {
+  const originalFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('posts the image and languages and reports server errors', async () => {
+    const requests: { url: string; init: RequestInit }[] = [];
+    let status = 200;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      return new Response(JSON.stringify({ text: 'ACME Corp', words: [] }), { status });
+    }) as typeof fetch;
+
+    const engine = createHttpOcrEngine({ endpoint: 'https://ocr.example.com/recognize', apiKey: 'secret' });
+    const image = new Blob(['image'], { type: 'image/png' });
+    await expect(engine.recognize(image, { langs: 'jpn+eng' })).resolves.toEqual({ text: 'ACME Corp', words: [] });
+
+    const form = requests[0].init.body as FormData;
+    expect(requests[0].url).toBe('https://ocr.example.com/recognize');
+    expect(form.get('languages')).toBe('jpn+eng');
+    expect(form.get('image')).toBeInstanceOf(Blob);
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+
+    status = 503;
+    await expect(engine.recognize(image, { langs: 'eng' })).rejects.toThrow('OCR server responded with 503');
+  });
+});
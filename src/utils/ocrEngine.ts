@@ -0,0 +1,191 @@
+import type { PSM } from 'tesseract.js';
+import { extractWords, type OcrBox, type OcrWord } from './fieldConfidence';
+import { getOcrWorkerPool } from './ocrWorkerPool';
+import { dataUrlToBlob } from './imageUtils';
+
+export type OcrEngineId = 'tesseract' | 'http';
+
+export interface OcrEngineRequest {
+  langs: string; // Tesseract language string, e.g. 'eng' or 'jpn+eng'
+  region?: OcrBox; // Only read this part of the image
+  pageSegMode?: PSM; // Layout hint; engines that cannot use it ignore it
+  invertText?: boolean; // Also look for light text on a dark background
+  signal?: AbortSignal;
+}
+
+// Full text for the parser, and the words it is made of for confidence scores and field boxes
+export interface OcrEngineResult {
+  text: string;
+  words: OcrWord[];
+}
+
+// Turns an image into text. Orientation and script detection stay on the local
+// Tesseract pool whichever engine reads the card.
+export interface OcrEngine {
+  id: OcrEngineId;
+  recognize: (image: Blob | string, request: OcrEngineRequest) => Promise<OcrEngineResult>;
+}
+
+export const createTesseractEngine = (): OcrEngine => ({
+  id: 'tesseract',
+  recognize: async (image, { langs, region, pageSegMode, invertText, signal }) => {
+    const { data: { text, blocks } } = await getOcrWorkerPool().recognize(image, {
+      langs,
+      params: {
+        ...(invertText !== undefined && { tessedit_do_invert: invertText ? '1' : '0' }),
+        ...(pageSegMode && { tessedit_pageseg_mode: pageSegMode }),
+      },
+      rectangle: region && {
+        left: Math.round(region.x0),
+        top: Math.round(region.y0),
+        width: Math.round(region.x1 - region.x0),
+        height: Math.round(region.y1 - region.y0),
+      },
+      // Word-level results, used to score each field
+      output: { blocks: true },
+      signal,
+    });
+    return { text, words: extractWords(blocks) };
+  },
+});
+
+export interface HttpOcrEngineOptions {
+  endpoint: string;
+  apiKey?: string; // Sent as a bearer token
+}
+
+const isBox = (value: unknown): value is OcrBox =>
+  !!value && ['x0', 'y0', 'x1', 'y1'].every(key => typeof (value as Record<string, unknown>)[key] === 'number');
+
+// Check the server's reply against the contract described on createHttpOcrEngine
+export const parseHttpOcrResponse = (body: unknown): OcrEngineResult => {
+  const { text, words } = (body || {}) as { text?: unknown; words?: unknown };
+  if (words !== undefined && !Array.isArray(words)) {
+    throw new Error('OCR server returned an invalid word list');
+  }
+
+  const parsedWords: OcrWord[] = ((words as unknown[]) || [])
+    .filter((word): word is { text: string; confidence?: unknown; bbox: OcrBox } => {
+      const candidate = word as Record<string, unknown>;
+      return typeof candidate?.text === 'string' && !!candidate.text.trim() && isBox(candidate.bbox);
+    })
+    .map(word => ({
+      text: word.text,
+      confidence: typeof word.confidence === 'number' ? Math.max(0, Math.min(100, word.confidence)) : 0,
+      bbox: { x0: word.bbox.x0, y0: word.bbox.y0, x1: word.bbox.x1, y1: word.bbox.y1 },
+    }));
+
+  if (typeof text !== 'string' && parsedWords.length === 0) {
+    throw new Error('OCR server returned no text');
+  }
+
+  return {
+    text: typeof text === 'string' ? text : parsedWords.map(word => word.text).join(' '),
+    words: parsedWords,
+  };
+};
+
+// Posts the card image to a self-hosted OCR server as multipart form data:
+//   image     the image file
+//   languages Tesseract language string, e.g. 'jpn+eng'
+//   region    optional JSON box {x0, y0, x1, y1} to read
+//   psm       optional Tesseract page segmentation mode
+// The server answers with JSON {text, words: [{text, confidence (0-100), bbox: {x0, y0, x1, y1}}]},
+// with boxes in pixels of the uploaded image. The server must allow CORS from the app's origin.
+export const createHttpOcrEngine = ({ endpoint, apiKey }: HttpOcrEngineOptions): OcrEngine => ({
+  id: 'http',
+  recognize: async (image, { langs, region, pageSegMode, signal }) => {
+    const blob = typeof image === 'string' ? await dataUrlToBlob(image) : image;
+    const form = new FormData();
+    form.append('image', blob, 'card');
+    form.append('languages', langs);
+    if (region) form.append('region', JSON.stringify(region));
+    if (pageSegMode) form.append('psm', String(pageSegMode));
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      body: form,
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`OCR server responded with ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new Error('OCR server returned invalid JSON');
+    }
+    return parseHttpOcrResponse(body);
+  },
+});
+
+export interface OcrEngineSettings {
+  engine: OcrEngineId;
+  httpEndpoint: string;
+  httpApiKey: string;
+}
+
+export const DEFAULT_OCR_ENGINE_SETTINGS: OcrEngineSettings = {
+  engine: 'tesseract',
+  httpEndpoint: '',
+  httpApiKey: '',
+};
+
+export const OCR_ENGINE_CHOICES: { id: OcrEngineId; label: string; description: string }[] = [
+  { id: 'tesseract', label: 'Tesseract', description: 'Reads cards in the browser, works offline' },
+  { id: 'http', label: 'OCR server', description: "Sends card images to your organization's OCR server" },
+];
+
+export const isValidOcrEndpoint = (endpoint: string): boolean => {
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+export const createOcrEngine = (settings: OcrEngineSettings): OcrEngine =>
+  settings.engine === 'http' && isValidOcrEndpoint(settings.httpEndpoint)
+    ? createHttpOcrEngine({ endpoint: settings.httpEndpoint, apiKey: settings.httpApiKey || undefined })
+    : createTesseractEngine();
+
+// Engine used by the app, chosen in the workspace's settings
+let activeEngine: OcrEngine | null = null;
+
+export const getOcrEngine = (): OcrEngine => {
+  if (!activeEngine) {
+    activeEngine = createTesseractEngine();
+  }
+  return activeEngine;
+};
+
+export const configureOcrEngine = (settings: OcrEngineSettings): void => {
+  activeEngine = createOcrEngine(settings);
+};
+
+// Each workspace (signed-in account) keeps its own engine choice
+const ocrEngineSettingsKey = (workspaceId: string) => `bcs_ocr_engine_${workspaceId}`;
+
+export const loadOcrEngineSettings = (workspaceId: string): OcrEngineSettings => {
+  try {
+    const stored = localStorage.getItem(ocrEngineSettingsKey(workspaceId));
+    if (stored) {
+      return { ...DEFAULT_OCR_ENGINE_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Failed to read OCR engine settings:', error);
+  }
+  return { ...DEFAULT_OCR_ENGINE_SETTINGS };
+};
+
+export const saveOcrEngineSettings = (workspaceId: string, settings: OcrEngineSettings): void => {
+  try {
+    localStorage.setItem(ocrEngineSettingsKey(workspaceId), JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save OCR engine settings:', error);
+  }
+};
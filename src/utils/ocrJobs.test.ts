@@ -0,0 +1,74 @@
+import { OCR_ATTEMPTS, reserveAttemptSlot, runOcrAttempts } from './ocrJobs';
+import { createOcrWorkerPool } from './ocrWorkerPool';
+
+describe('runOcrAttempts', () => {
+  test('retries with the fallback configuration after a failure', async () => {
+    const labels: string[] = [];
+    const result = await runOcrAttempts(
+      async (attempt) => {
+        labels.push(attempt.label);
+        if (labels.length === 1) throw new Error('Recognition failed');
+        return 'card';
+      },
+      { signal: new AbortController().signal }
+    );
+
+    expect(result).toBe('card');
+    expect(labels).toEqual(OCR_ATTEMPTS.slice(0, 2).map(attempt => attempt.label));
+  });
+
+  test('aborts attempts that time out and reports the timeout', async () => {
+    const pool = createOcrWorkerPool({ size: 1, maxQueueSize: 1 });
+    const aborted: boolean[] = [];
+    const run = async (_: unknown, signal: AbortSignal) => {
+      const slot = await reserveAttemptSlot(pool, { signal, timeoutMs: 10 });
+      try {
+        return await new Promise<string>((_resolve, reject) => {
+          slot.signal.addEventListener('abort', () => {
+            aborted.push(true);
+            reject(slot.signal.reason);
+          });
+        });
+      } finally {
+        slot.release();
+      }
+    };
+
+    await expect(runOcrAttempts(run, { signal: new AbortController().signal })).rejects.toThrow('Timed out');
+    expect(aborted).toHaveLength(OCR_ATTEMPTS.length);
+    await pool.terminate();
+  });
+
+  test('starts the time limit once a job has a pool slot, not while it is queued', async () => {
+    // Room for two jobs at a time, so six jobs of 30ms take longer than the 50ms limit together
+    const pool = createOcrWorkerPool({ size: 1, maxQueueSize: 1 });
+    const scan = async (_: unknown, signal: AbortSignal) => {
+      const slot = await reserveAttemptSlot(pool, { signal, timeoutMs: 50 });
+      try {
+        await new Promise(resolve => setTimeout(resolve, 30));
+        slot.signal.throwIfAborted();
+        return 'card';
+      } finally {
+        slot.release();
+      }
+    };
+
+    const jobs = Array.from({ length: 6 }, () => runOcrAttempts(scan, { signal: new AbortController().signal }));
+    await expect(Promise.all(jobs)).resolves.toEqual(Array(6).fill('card'));
+    await pool.terminate();
+  });
+
+  test('does not retry a cancelled job', async () => {
+    const controller = new AbortController();
+    let attempts = 0;
+    const run = (_: unknown, signal: AbortSignal) =>
+      new Promise<string>((_resolve, reject) => {
+        attempts++;
+        signal.addEventListener('abort', () => reject(new Error('Worker stopped')));
+        controller.abort(new Error('Cancelled'));
+      });
+
+    await expect(runOcrAttempts(run, { signal: controller.signal })).rejects.toThrow('Cancelled');
+    expect(attempts).toBe(1);
+  });
+});
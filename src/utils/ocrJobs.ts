@@ -0,0 +1,132 @@
+import { PSM } from 'tesseract.js';
+import type { ProcessImageOptions } from './ocrProcessor';
+import type { OcrWorkerPool } from './ocrWorkerPool';
+
+// A scan started from the capture panel. Jobs stay listed while they run and
+// after they fail, so they can be cancelled or retried.
+export interface OcrJob {
+  id: string;
+  imageData: string;
+  backImageData?: string; // Set for two-sided cards
+  language?: string;
+  status: 'processing' | 'failed';
+  attempt: number; // 1-based index into OCR_ATTEMPTS of the running or last attempt
+  error?: string;
+}
+
+// A configuration to scan with. Later attempts only run when the earlier ones fail or time out.
+export interface OcrAttempt {
+  label: string;
+  options: Pick<ProcessImageOptions, 'pageSegMode'>;
+}
+
+export const OCR_ATTEMPTS: OcrAttempt[] = [
+  { label: 'Single block', options: {} },
+  // Finds text scattered around logos and photos, which can trip up block layout analysis
+  { label: 'Sparse text', options: { pageSegMode: PSM.SPARSE_TEXT } },
+];
+
+export interface OcrJobSettings {
+  timeoutSeconds: number; // Per attempt
+}
+
+export const OCR_TIMEOUT_CHOICES = [30, 60, 120, 300];
+
+export const DEFAULT_OCR_JOB_SETTINGS: OcrJobSettings = {
+  timeoutSeconds: 60,
+};
+
+export const createOcrJobId = (): string => `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export interface RunOcrAttemptsOptions {
+  signal: AbortSignal; // Cancels the whole job
+  onAttempt?: (attemptNumber: number, attempt: OcrAttempt) => void;
+}
+
+// Run a scan with each configuration in OCR_ATTEMPTS until one succeeds, e.g. after the
+// first one timed out. A cancelled job is not retried.
+export const runOcrAttempts = async <T>(
+  run: (attempt: OcrAttempt, signal: AbortSignal) => Promise<T>,
+  { signal, onAttempt }: RunOcrAttemptsOptions
+): Promise<T> => {
+  let lastError = new Error('OCR job failed');
+
+  for (let i = 0; i < OCR_ATTEMPTS.length; i++) {
+    signal.throwIfAborted();
+    const attempt = OCR_ATTEMPTS[i];
+    onAttempt?.(i + 1, attempt);
+
+    try {
+      return await run(attempt, signal);
+    } catch (error) {
+      signal.throwIfAborted();
+      lastError = error as Error;
+      console.warn(`OCR attempt ${i + 1} (${attempt.label}) failed:`, lastError.message);
+    }
+  }
+
+  throw lastError;
+};
+
+// A pool slot held for one scan, with a signal that is aborted when the scan is
+// cancelled or runs out of time
+export interface AttemptSlot {
+  signal: AbortSignal;
+  release: () => void;
+}
+
+export interface ReserveAttemptSlotOptions {
+  signal?: AbortSignal; // Cancels the scan, including while it waits for a slot
+  timeoutMs?: number; // Time limit of the scan once it has a slot
+}
+
+// Wait for a slot in the OCR pool, then start the scan's time limit. Time spent waiting
+// behind a full pool does not count, so the last jobs of a large batch are not timed
+// out before OCR has even started on them.
+export const reserveAttemptSlot = async (
+  pool: Pick<OcrWorkerPool, 'reserve'>,
+  { signal, timeoutMs }: ReserveAttemptSlotOptions = {}
+): Promise<AttemptSlot> => {
+  const slot = await pool.reserve(signal);
+
+  const controller = new AbortController();
+  const cancel = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', cancel, { once: true });
+  const timer = timeoutMs === undefined
+    ? undefined
+    : setTimeout(
+      () => controller.abort(new Error(`Timed out after ${Math.round(timeoutMs / 1000)} seconds`)),
+      timeoutMs
+    );
+
+  return {
+    signal: controller.signal,
+    release: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+      slot.release();
+    },
+  };
+};
+
+const OCR_JOB_SETTINGS_KEY = 'bcs_ocr_job_settings';
+
+export const loadOcrJobSettings = (): OcrJobSettings => {
+  try {
+    const stored = localStorage.getItem(OCR_JOB_SETTINGS_KEY);
+    if (stored) {
+      return { ...DEFAULT_OCR_JOB_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Failed to read OCR job settings:', error);
+  }
+  return { ...DEFAULT_OCR_JOB_SETTINGS };
+};
+
+export const saveOcrJobSettings = (settings: OcrJobSettings): void => {
+  try {
+    localStorage.setItem(OCR_JOB_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save OCR job settings:', error);
+  }
+};
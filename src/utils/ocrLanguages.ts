@@ -0,0 +1,79 @@
+// Languages offered in the scan UI. `code` is the Tesseract traineddata name.
+export interface OcrLanguage {
+  code: string;
+  label: string;
+  script: string; // Script name as reported by Tesseract orientation/script detection
+}
+
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: 'eng', label: 'English', script: 'Latin' },
+  { code: 'deu', label: 'German', script: 'Latin' },
+  { code: 'fra', label: 'French', script: 'Latin' },
+  { code: 'spa', label: 'Spanish', script: 'Latin' },
+  { code: 'hin', label: 'Hindi', script: 'Devanagari' },
+  { code: 'ara', label: 'Arabic', script: 'Arabic' },
+  { code: 'chi_sim', label: 'Chinese (Simplified)', script: 'Han' },
+  { code: 'chi_tra', label: 'Chinese (Traditional)', script: 'Han' },
+  { code: 'jpn', label: 'Japanese', script: 'Japanese' },
+  { code: 'kor', label: 'Korean', script: 'Hangul' },
+  { code: 'rus', label: 'Russian', script: 'Cyrillic' },
+];
+
+// Traineddata to load for each script reported by OSD. Latin script alone
+// can't tell English from German, so those cards get both.
+const SCRIPT_LANGUAGES: Record<string, string[]> = {
+  Latin: ['eng', 'deu'],
+  Devanagari: ['hin'],
+  Arabic: ['ara'],
+  Han: ['chi_sim', 'chi_tra'],
+  HanS: ['chi_sim'],
+  HanT: ['chi_tra'],
+  Japanese: ['jpn'],
+  Katakana: ['jpn'],
+  Hiragana: ['jpn'],
+  Hangul: ['kor'],
+  Korean: ['kor'],
+  Cyrillic: ['rus'],
+};
+
+const DEFAULT_LANGUAGE_KEY = 'bcs_ocr_language';
+
+export const isSupportedLanguage = (code: string): boolean =>
+  code === AUTO_DETECT_LANGUAGE || OCR_LANGUAGES.some(lang => lang.code === code);
+
+// Build the Tesseract language string for a selection. English is always
+// included because emails, websites and most company names are Latin-script.
+export const buildLanguageString = (codes: string[]): string => {
+  const unique = Array.from(new Set(['eng', ...codes.filter(code => code !== AUTO_DETECT_LANGUAGE)]));
+  // Put the non-English language first so it takes priority in recognition
+  return unique.sort((a, b) => (a === 'eng' ? 1 : 0) - (b === 'eng' ? 1 : 0)).join('+');
+};
+
+export const languagesForScript = (script: string | null | undefined): string => {
+  if (!script) return 'eng';
+  const codes = SCRIPT_LANGUAGES[script];
+  return codes ? buildLanguageString(codes) : 'eng';
+};
+
+export const loadDefaultOcrLanguage = (): string => {
+  try {
+    const stored = localStorage.getItem(DEFAULT_LANGUAGE_KEY);
+    if (stored && isSupportedLanguage(stored)) {
+      return stored;
+    }
+  } catch (error) {
+    console.warn('Failed to read default OCR language:', error);
+  }
+  return 'eng';
+};
+
+export const saveDefaultOcrLanguage = (code: string): void => {
+  if (!isSupportedLanguage(code)) return;
+  try {
+    localStorage.setItem(DEFAULT_LANGUAGE_KEY, code);
+  } catch (error) {
+    console.warn('Failed to save default OCR language:', error);
+  }
+};
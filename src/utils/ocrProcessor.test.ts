@@ -34,6 +34,20 @@ www.innovate.co.uk
 London, UK SW1A 1AA
 `;
 
+const mockBusinessCardText4 = `
+山田 太郎
+営業部 部長
+yamada@example.co.jp
+〒100-0005 東京都千代田区丸の内1丁目1番地
+`;
+
+const mockBusinessCardText5 = `
+أحمد الفارسي
+مدير المبيعات
+ahmed@example.ae
++٩٧١ ٤ ١٢٣ ٤٥٦٧
+`;
+
 describe('OCR Processor Tests', () => {
   test('should correctly parse business card with standard format', () => {
     const result = parseCardData(mockBusinessCardText1);
@@ -42,7 +56,7 @@ describe('OCR Processor Tests', () => {
     expect(result.designation).toBe('CEO');
     expect(result.company).toBe('ACME CORPORATION');
     expect(result.email).toBe('john.doe@acme.com');
-    expect(result.phone).toBe('+1 (555) 123-4567');
+    expect(result.phone).toBe('+15551234567');
     expect(result.website).toBe('www.acme.com');
   });
 
@@ -53,7 +67,7 @@ describe('OCR Processor Tests', () => {
     expect(result.designation).toBe('Marketing Director');
     expect(result.company).toBe('GLOBAL TECH SOLUTIONS');
     expect(result.email).toBe('jane.smith@globaltech.io');
-    expect(result.phone).toBe('(456) 987-6543');
+    expect(result.phone).toBe('4569876543');
     expect(result.website).toBe('www.globaltech.io');
   });
 
@@ -64,7 +78,23 @@ describe('OCR Processor Tests', () => {
     expect(result.designation).toBe('CHIEF TECHNOLOGY OFFICER');
     expect(result.company).toBe('INNOVATE LTD');
     expect(result.email).toBe('robert.johnson@innovate.co.uk');
-    expect(result.phone).toBe('+44 20 7123 4567');
+    expect(result.phone).toBe('+442071234567');
     expect(result.website).toBe('www.innovate.co.uk');
   });
-});
\ No newline at end of file
+
+  test('should keep Japanese names and addresses', () => {
+    const result = parseCardData(mockBusinessCardText4);
+    
+    expect(result.name).toBe('山田 太郎');
+    expect(result.designation).toBe('営業部 部長');
+    expect(result.address).toContain('東京都千代田区丸の内1丁目1番地');
+  });
+
+  test('should keep Arabic names and read Arabic-Indic digits', () => {
+    const result = parseCardData(mockBusinessCardText5);
+    
+    expect(result.name).toBe('أحمد الفارسي');
+    expect(result.designation).toBe('مدير المبيعات');
+    expect(result.phone).toBe('+97141234567');
+  });
+});
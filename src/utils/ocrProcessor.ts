@@ -1,105 +1,44 @@
-import { createWorker, PSM } from 'tesseract.js';
+import type { DetectData, PSM } from 'tesseract.js';
+import { getOcrWorkerPool, type OcrWorkerPool } from './ocrWorkerPool';
+import { AUTO_DETECT_LANGUAGE, buildLanguageString, languagesForScript } from './ocrLanguages';
+import { dataUrlToBlob } from './imageUtils';
+import { DEFAULT_ENHANCEMENT_OPTIONS, type EnhancementDebugImage, type EnhancementOptions } from './imageEnhancement';
+import { pairCards } from './cardMerge';
+import {
+  computeFieldConfidence,
+  computeFieldSources,
+  extractWords,
+  type CardField,
+  type FieldConfidence,
+  type FieldSources,
+  type OcrBox,
+  type OcrWord,
+} from './fieldConfidence';
+import { applyQrCardData, type QrCardData } from './qrCode';
+import { decodeHeicDataUrl, isHeicDataUrl } from './heicDecoder';
+import { normalizeScriptCharacters, parseCardData } from './cardParser';
+import { getImagePreprocessor, type ImagePreprocessor } from './preprocessClient';
+import { getOcrEngine, type OcrEngineId } from './ocrEngine';
+import { reserveAttemptSlot } from './ocrJobs';
+import type { ContactValue } from './contactValues';
+import type { PostalAddress } from './postalAddress';
+import type { PersonName } from './personName';
+import type { SocialProfile } from './socialProfiles';
+import type { OcrCorrection } from './ocrCorrection';
+import { normalizeCardPhones, type CountryCode } from './phoneNumbers';
+import type { Rotation } from './preprocessing';
 
-// Helper function to convert HEIC to JPEG
-const convertHeicToJpeg = (imageData: string): Promise<string> => {
-  return new Promise((resolve) => {
-    // If it's not HEIC, return as is
-    if (!imageData.startsWith('data:image/heic')) {
-      resolve(imageData);
-      return;
-    }
-
-    // For HEIC images, we need to convert them to JPEG
-    // Since HEIC conversion is complex, we'll use a canvas-based approach
-    // This will work for most cases where the browser can decode HEIC
-    const img = new Image();
-    img.onload = () => {
-      // Create canvas for conversion
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        resolve(imageData); // Return original if context not available
-        return;
-      }
-      
-      // Set canvas dimensions to match image
-      canvas.width = img.width;
-      canvas.height = img.height;
-      
-      // Draw image on canvas
-      ctx.drawImage(img, 0, 0);
-      
-      // Convert to JPEG
-      const jpegData = canvas.toDataURL('image/jpeg', 0.85);
-      resolve(jpegData);
-    };
-    img.onerror = () => {
-      // If HEIC conversion fails, return original
-      console.warn('Failed to convert HEIC to JPEG, using original data');
-      resolve(imageData);
-    };
-    img.src = imageData;
-  });
-};
-
-// Helper function to convert data URL to Blob
-const dataURLToBlob = (dataURL: string): Blob => {
-  const parts = dataURL.split(';base64,');
-  const contentType = parts[0].split(':')[1];
-  const raw = atob(parts[1]);
-  const rawLength = raw.length;
-  const uInt8Array = new Uint8Array(rawLength);
+// Text parsing lives in its own module so it can also run in the preprocessing worker
+export { parseCardData };
 
-  for (let i = 0; i < rawLength; ++i) {
-    uInt8Array[i] = raw.charCodeAt(i);
+// Helper function to convert HEIC to JPEG. Multi-image containers are split
+// when the file is added, so only the first image is used here.
+const convertHeicToJpeg = async (imageData: string): Promise<string> => {
+  if (!isHeicDataUrl(imageData)) {
+    return imageData;
   }
-
-  return new Blob([uInt8Array], { type: contentType });
-};
-
-// Helper function to resize image for better OCR performance
-const resizeImageForOCR = async (imageData: string): Promise<string> => {
-  // Validate input
-  if (!imageData || !imageData.startsWith('data:image/')) {
-    console.warn('Invalid image data provided to resize function');
-    return imageData; // Return original if invalid
-  }
-
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.onload = () => {
-      // Create canvas for resizing
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        resolve(imageData); // Return original if context not available
-        return;
-      }
-      
-      // Calculate new dimensions (max 1280px width for performance)
-      const maxWidth = 1280;
-      const scale = Math.min(1, maxWidth / img.width);
-      const newWidth = Math.floor(img.width * scale);
-      const newHeight = Math.floor(img.height * scale);
-      
-      canvas.width = newWidth;
-      canvas.height = newHeight;
-      
-      // Draw resized image
-      ctx.drawImage(img, 0, 0, newWidth, newHeight);
-      
-      // Return resized image data
-      resolve(canvas.toDataURL('image/jpeg', 0.85));
-    };
-    img.onerror = () => {
-      // If image fails to load, return original
-      console.warn('Failed to load image for resizing');
-      resolve(imageData);
-    };
-    img.src = imageData;
-  });
+  const [jpegImageData] = await decodeHeicDataUrl(imageData);
+  return jpegImageData;
 };
 
 // Helper function to validate and prepare image for OCR
@@ -113,8 +52,7 @@ const prepareImageForOCR = async (imageData: string): Promise<Blob | string> =>
   if (imageData.startsWith('data:image/')) {
     try {
       // Try to convert to blob for better Tesseract compatibility
-      const blob = dataURLToBlob(imageData);
-      return blob;
+      return await dataUrlToBlob(imageData);
     } catch (error) {
       console.warn('Failed to convert data URL to blob, using original data', error);
       return imageData;
@@ -128,16 +66,143 @@ const prepareImageForOCR = async (imageData: string): Promise<Blob | string> =>
 export interface CardData {
   id: string;
   name: string;
+  nameParts?: PersonName; // The name split into prefix, given, middle and family name, suffix and credentials
   company: string;
   designation: string;
   email: string;
   phone: string;
   website: string;
   address: string;
+  addressParts?: PostalAddress; // The address split into street, city, region, postal code and country
+  emails?: ContactValue[]; // Every email, phone number and website on the card, typed.
+  phones?: ContactValue[]; // The first entry of each is also in email, phone and website.
+  websites?: ContactValue[];
+  socialProfiles?: SocialProfile[]; // LinkedIn, X and other profiles and messaging handles
+  socialProfilesEdited?: boolean; // Profiles corrected by hand, which a re-parse leaves alone
   imageData: string; // Base64 encoded image data
+  backImageData?: string; // Base64 encoded image of the back side, for two-sided cards
+  sides?: CardSide[]; // Front and back as parsed on their own, kept so a pair can be split again
+  confidence?: FieldConfidence; // OCR confidence of each field, from the words it was read from
+  sources?: FieldSources; // Boxes of the words each field was read from
+  qrFields?: CardField[]; // Fields taken from a QR code on the card instead of OCR
+  qrPayload?: string; // Text of that QR code, so a re-parse keeps the profiles it holds
+  ocrCorrections?: OcrCorrection[]; // Misread characters fixed in the email, website and phone fields
+  rawText?: string; // Text exactly as the OCR engine read it, before parsing
+  ocr?: OcrMetadata; // How and when the text was read
+  editedFields?: CardField[]; // Fields corrected by hand, which a re-parse leaves alone
+}
+
+export interface OcrMetadata {
+  engine: OcrEngineId;
+  languages: string; // Tesseract language string the card was read with
+  startedAt: string; // ISO timestamps
+  completedAt: string;
+  parsedAt: string; // Moves on when the text is parsed again
+  words: OcrWord[]; // Word boxes, so a re-parse can score the new values
+}
+
+// One side of a two-sided card
+export type CardSide = Omit<CardData, 'id' | 'backImageData' | 'sides'>;
+
+export interface ProcessImageOptions {
+  language?: string; // OCR language code from OCR_LANGUAGES, or 'auto' to detect the script
+  enhancement?: EnhancementOptions;
+  onEnhancementDebug?: (images: EnhancementDebugImage[]) => void; // Called with intermediate images in debug mode
+  pageSegMode?: PSM; // Page segmentation mode, instead of the engine's single-block default
+  signal?: AbortSignal; // Cancels the scan, e.g. when the user stops it
+  timeoutMs?: number; // Time limit of the scan, counted from when it gets a slot in the OCR pool
+  defaultCountry?: CountryCode; // For phone numbers without a country code when the card names no country
 }
 
-export const processImage = async (imageData: string): Promise<CardData> => {
+// Resolve the traineddata combination to load for a scan. Reuses an earlier
+// orientation/script detection result when there is one.
+const resolveOcrLanguages = async (
+  pool: OcrWorkerPool,
+  image: Blob | string,
+  language: string,
+  osd: DetectData | null = null,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (language !== AUTO_DETECT_LANGUAGE) {
+    return buildLanguageString([language]);
+  }
+
+  try {
+    const data = osd?.script ? osd : (await pool.detect(image, signal)).data;
+    console.log('Detected script:', data.script, 'confidence:', data.script_confidence);
+    return languagesForScript(data.script);
+  } catch (detectError) {
+    console.warn('Script detection failed, falling back to English', detectError);
+    return 'eng';
+  }
+};
+
+// OSD orientation confidence below this is treated as a guess
+const MIN_ORIENTATION_CONFIDENCE = 2;
+
+// Size of the previews OCR'd when scoring candidate rotations
+const ROTATION_SCORING_SIZE = 800;
+
+// Score a candidate rotation by how much confidently read text OCR finds in it. Scoring
+// always uses the local Tesseract pool, so it costs no round trips to an OCR server.
+const scoreRotation = async (
+  pool: OcrWorkerPool,
+  image: Blob,
+  langs: string,
+  signal?: AbortSignal
+): Promise<number> => {
+  const { data: { blocks } } = await pool.recognize(image, {
+    langs,
+    output: { blocks: true },
+    signal,
+  });
+  return extractWords(blocks)
+    .filter(word => word.text.replace(/[^\p{L}\p{N}]/gu, '').length >= 3)
+    .reduce((score, word) => score + word.confidence, 0);
+};
+
+// Find the rotation that turns sideways and upside-down cards upright. Tesseract's orientation
+// detection is used when it is confident; otherwise the likely rotations are read and scored.
+const detectCardRotation = async (
+  pool: OcrWorkerPool,
+  preprocessor: ImagePreprocessor,
+  imageData: string,
+  language: string,
+  signal?: AbortSignal
+): Promise<{ rotation: Rotation; osd: DetectData | null }> => {
+  let osd: DetectData | null = null;
+  try {
+    osd = (await pool.detect(await dataUrlToBlob(imageData), signal)).data;
+  } catch (detectError) {
+    console.warn('Orientation detection failed, scoring rotations instead', detectError);
+  }
+
+  if (osd?.orientation_degrees != null && (osd.orientation_confidence ?? 0) >= MIN_ORIENTATION_CONFIDENCE) {
+    console.log('Detected orientation:', osd.orientation_degrees, 'confidence:', osd.orientation_confidence);
+    const degrees = osd.orientation_degrees;
+    return { rotation: degrees === 90 || degrees === 180 || degrees === 270 ? degrees : 0, osd };
+  }
+
+  const langs = language === AUTO_DETECT_LANGUAGE ? 'eng' : buildLanguageString([language]);
+  const { previews } = await preprocessor.run({
+    type: 'rotationPreviews',
+    imageData,
+    maxDimension: ROTATION_SCORING_SIZE,
+  });
+  let rotation: Rotation = 0;
+  let bestScore = -1;
+  for (const preview of previews) {
+    const score = await scoreRotation(pool, preview.image, langs, signal);
+    if (score > bestScore) {
+      bestScore = score;
+      rotation = preview.rotation;
+    }
+  }
+  console.log('Rotation chosen by OCR score:', rotation);
+  return { rotation, osd };
+};
+
+export const processImage = async (imageData: string, options: ProcessImageOptions = {}): Promise<CardData> => {
   // Validate input
   if (!imageData) {
     throw new Error('No image data provided');
@@ -147,58 +212,128 @@ export const processImage = async (imageData: string): Promise<CardData> => {
   const isCrossOriginIsolated = window.crossOriginIsolated;
   console.log('Cross-origin isolation status:', isCrossOriginIsolated);
   
-  // First, convert HEIC to JPEG if needed
-  let jpegImageData: string = imageData;
-  try {
-    jpegImageData = await convertHeicToJpeg(imageData);
-  } catch (heicError) {
-    console.warn('HEIC conversion failed, using original image', heicError);
-    jpegImageData = imageData;
-  }
-  
-  // Then, resize the image for better OCR performance
-  let resizedImageData: string = jpegImageData;
-  try {
-    resizedImageData = await resizeImageForOCR(jpegImageData);
-  } catch (resizeError) {
-    console.warn('Image resize failed, using original image', resizeError);
-    resizedImageData = jpegImageData;
-  }
-  
-  // Prepare image for OCR using the most compatible format
-  let preparedImage: Blob | string;
-  try {
-    preparedImage = await prepareImageForOCR(resizedImageData);
-  } catch (prepareError) {
-    console.error('Image preparation error:', prepareError);
-    throw new Error(`Failed to prepare image: ${prepareError.message || 'Unknown preparation error'}`);
-  }
-  
-  const worker = await createWorker('eng');
+  // Wait for room in the OCR pool before decoding, so large batches are
+  // preprocessed only as fast as the workers can consume them
+  const pool = getOcrWorkerPool();
+  const startedAt = new Date().toISOString();
+  const { signal, release } = await reserveAttemptSlot(pool, options);
   
   try {
-    // Configure worker for better performance with business cards
-    await worker.setParameters({
-      tessedit_do_invert: '0', // Skip inversion for better performance
-      preserve_interword_spaces: '1', // Preserve spaces between words
-      classify_bln_numeric_mode: '0', // Don't assume numeric mode
-      tessedit_pageseg_mode: PSM.SINGLE_BLOCK, // Assume a single uniform block of text
-    });
+    // First, convert HEIC to JPEG if needed
+    // Tesseract cannot read HEIC either, so a failed conversion ends the scan.
+    // heic2any already decodes in its own worker; only its final canvas encode
+    // needs the DOM, so this step stays on the main thread.
+    const jpegImageData = await convertHeicToJpeg(imageData);
+    signal?.throwIfAborted();
+    
+    // Decoding and filtering run in the preprocessing worker, so the page stays
+    // responsive while a batch is scanned
+    const preprocessor = getImagePreprocessor();
+    
+    // Apply the EXIF orientation, find the card, correct keystone distortion,
+    // crop away the table and resize for better OCR performance
+    let resizedImageData: string = jpegImageData;
+    try {
+      resizedImageData = (await preprocessor.run({ type: 'prepare', imageData: jpegImageData })).imageData;
+    } catch (prepareError) {
+      console.warn('Image preparation failed, using original image', prepareError);
+    }
+    signal?.throwIfAborted();
+    
+    // Turn sideways and upside-down cards upright before deskewing
+    const enhancement = options.enhancement || DEFAULT_ENHANCEMENT_OPTIONS;
+    let rotation: Rotation = 0;
+    let osd: DetectData | null = null;
+    if (enhancement.autoRotate) {
+      try {
+        ({ rotation, osd } = await detectCardRotation(
+          pool,
+          preprocessor,
+          resizedImageData,
+          options.language || 'eng',
+          signal
+        ));
+      } catch (rotateError) {
+        console.warn('Rotation detection failed, using image as-is', rotateError);
+      }
+    }
+    signal?.throwIfAborted();
+    
+    // Clean up the image with the enabled enhancement filters and look for a QR code
+    let cardImageData: string = resizedImageData;
+    let preparedImage: Blob | string | null = null;
+    let qrData: QrCardData | null = null;
+    try {
+      const enhanced = await preprocessor.run({
+        type: 'enhance',
+        imageData: resizedImageData,
+        rotation,
+        options: enhancement,
+      });
+      cardImageData = enhanced.imageData;
+      preparedImage = enhanced.ocrImage;
+      qrData = enhanced.qr;
+      if (enhancement.debug) {
+        options.onEnhancementDebug?.(enhanced.debugImages);
+      }
+    } catch (enhanceError) {
+      console.warn('Image enhancement failed, using unfiltered image', enhanceError);
+    }
+    signal?.throwIfAborted();
+    
+    // Without the filtered image, prepare the unfiltered one using the most compatible format
+    if (!preparedImage) {
+      try {
+        preparedImage = await prepareImageForOCR(cardImageData);
+      } catch (prepareError) {
+        console.error('Image preparation error:', prepareError);
+        throw new Error(`Failed to prepare image: ${prepareError.message || 'Unknown preparation error'}`);
+      }
+    }
+    
+    const langs = await resolveOcrLanguages(pool, preparedImage, options.language || 'eng', osd, signal);
     
     // Perform OCR with error handling
     try {
-      console.log('Starting OCR recognition with prepared image type:', typeof preparedImage);
-      const { data: { text } } = await worker.recognize(preparedImage);
+      console.log('Starting OCR recognition with prepared image type:', typeof preparedImage, 'languages:', langs);
+      const engine = getOcrEngine();
+      const { text, words } = await engine.recognize(preparedImage, {
+        langs,
+        // Without our own inversion filter, let the engine try inverted text itself
+        invertText: !enhancement.invertDark,
+        pageSegMode: options.pageSegMode,
+        signal,
+      });
       console.log('OCR recognition completed successfully');
+      const completedAt = new Date().toISOString();
       
       // Parse extracted text
-      const parsedData = parseCardData(text, resizedImageData);
+      const parsedData = {
+        ...(await preprocessor.run({ type: 'parse', text, defaultCountry: options.defaultCountry })),
+        imageData: cardImageData,
+      };
       
-      return {
-        id: Date.now().toString(),
+      const cardData: CardData = {
+        // Several workers can finish within the same millisecond, so add a random suffix
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
         ...parsedData,
+        confidence: computeFieldConfidence(parsedData, words),
+        sources: computeFieldSources(parsedData, words),
+        rawText: text,
+        ocr: { engine: engine.id, languages: langs, startedAt, completedAt, parsedAt: new Date().toISOString(), words },
       };
+      
+      if (!qrData) {
+        return cardData;
+      }
+      // Numbers from the QR code are stored in E.164 like the ones OCR read
+      const withQr = applyQrCardData(cardData, qrData);
+      return { ...withQr, ...normalizeCardPhones(withQr, options.defaultCountry) };
     } catch (ocrError: any) {
+      // Report a timeout or cancellation as such, rather than as whatever the stopped step failed with
+      if (signal.aborted) {
+        throw signal.reason;
+      }
       console.error('OCR processing error:', ocrError);
       // Try to provide more specific error information
       let errorMessage = 'Unknown OCR error';
@@ -210,502 +345,75 @@ export const processImage = async (imageData: string): Promise<CardData> => {
       throw new Error(`Failed to process image: ${errorMessage}`);
     }
   } finally {
-    await worker.terminate();
+    release();
   }
 };
 
-export const parseCardData = (text: string, imageData: string = ''): Omit<CardData, 'id'> => {
-  // Clean and normalize text
-  const normalizedText = text
-    .replace(/\s+/g, ' ') // normalize whitespace
-    .replace(/['']/g, "'") // normalize quotes
-    .trim();
-  
-  const lines = text.split('\n').filter(line => line.trim());
-  
-  // Enhanced email regex - case insensitive
-  const emailRegex = /[\w.+-]+@[\w-]+\.[\w.-]+/gi;
-  const emailMatches = normalizedText.match(emailRegex);
-  const emails: string[] = emailMatches ? Array.from(emailMatches).map(e => e.toLowerCase()) : [];
-  
-  // PHONE EXTRACTION:
-  // Completely rewrite phone extraction with simpler, more effective approach
-  let cleanPhones: string[] = [];
-  
-  // Simple but effective phone regex that captures + format numbers
-  const simplePhoneRegex = /[\+]?[\d\s\-\(\)]{7,20}/g;
-  const simplePhoneMatches = normalizedText.match(simplePhoneRegex);
-  if (simplePhoneMatches) {
-    for (const phone of simplePhoneMatches) {
-      // Clean the phone number - keep only digits and + at the beginning
-      let cleanPhone = phone.replace(/[^+\d]/g, '');
-      // Ensure + is only at the beginning if present
-      if (cleanPhone.startsWith('+')) {
-        cleanPhone = '+' + cleanPhone.substring(1);
-      }
-      // Validate the cleaned phone - 7-15 digits
-      const digitsOnly = cleanPhone.replace(/\+/g, '');
-      if (digitsOnly.length >= 7 && digitsOnly.length <= 15 && /\d/.test(digitsOnly)) {
-        // Avoid duplicates
-        if (!cleanPhones.includes(cleanPhone)) {
-          cleanPhones.push(cleanPhone);
-        }
-      }
-    }
-  }
-  
-  // Enhanced phone regex - supports various formats including country codes
-  // More comprehensive regex to capture different phone number formats
-  const phoneRegex = /(\+?\d{1,4}[-.\s]?)?\(?\d{1,4}\)?[-.\s]?\d{1,4}[-.\s]?\d{1,4}[-.\s]?\d{1,9}/g;
-  const phoneMatches = normalizedText.match(phoneRegex);
-  const phones: string[] = phoneMatches ? Array.from(new Set(phoneMatches.map(p => p.trim()))) : [];
-  
-  // Website regex - find www. patterns or domains with suffixes
-  const websiteRegex = /((https?:\/\/)?(www\.)?[\w-]+\.[\w.-]+)/gi;
-  const websiteMatches = normalizedText.match(websiteRegex);
-  const websiteFromText = websiteMatches ? websiteMatches[0].toLowerCase() : '';
-  
-  // Extract company name from website domain
-  const companyFromWebsite = (() => {
-    if (websiteFromText) {
-      try {
-        // Extract domain name from website (e.g., www.abc.com -> abc)
-        const domainMatch = websiteFromText.match(/(?:www\.)?([\w-]+)\./i);
-        if (domainMatch && domainMatch[1]) {
-          return domainMatch[1].charAt(0).toUpperCase() + domainMatch[1].slice(1);
-        }
-      } catch (e) {
-        console.warn('Error extracting company name from website:', e);
-      }
-    }
-    return '';
-  })();
-  
-  // Extract company name and website from email domain
-  const { companyFromEmail, websiteFromEmail } = (() => {
-    if (emails.length > 0) {
-      const emailParts = emails[0].split('@');
-      if (emailParts.length === 2) {
-        const domain = emailParts[1];
-        // Extract company name from email domain (part after @ and before .com)
-        const domainParts = domain.split('.');
-        const companyFromEmail = domainParts.length >= 2 
-          ? domainParts[0].charAt(0).toUpperCase() + domainParts[0].slice(1)
-          : '';
-        // ONLY use website from email if it was explicitly found in text
-        // DO NOT generate website URL from email domain
-        const websiteFromEmail = websiteFromText || ''; // Keep empty if not found in text
-        return { companyFromEmail, websiteFromEmail };
-      }
-    }
-    return { companyFromEmail: '', websiteFromEmail: '' };
-  })();
-  
-  // Comprehensive designation keywords
-  const designationKeywords: string[] = [
-    'Lead', 'Investment Executive', 'Co-Founder', 'Business Development Manager', 'BDE', 
-    'Director', 'Head', 'Vice President', 'Senior Consultant', 'Consultant', 'Sr Consultant', 
-    'AI', "Founder's", 'Founder', 'Investor Relations',
-    'Chairman', 'Chairperson', 'CEO', 'Chief Executive Officer', 'President', 
-    'COO', 'Chief Operating Officer', 'CFO', 'Chief Financial Officer',
-    'CIO', 'Chief Information Officer', 'CTO', 'Chief Technology Officer',
-    'CMO', 'Chief Marketing Officer', 'CHRO', 'Chief Human Resources Officer',
-    'CSO', 'Chief Strategy Officer', 'CPO', 'Chief Product Officer',
-    'CLO', 'Chief Legal Officer', 'CAO', 'Chief Administrative Officer',
-    'Vice President', 'VP', 'Director', 'Senior Manager', 'Manager',
-    'Assistant Manager', 'Team Lead', 'Supervisor', 'Executive', 'Associate',
-    'Coordinator', 'Assistant', 'Intern', 'Trainee', 'Software Engineer',
-    'Senior Software Engineer', 'Lead Developer', 'Principal Engineer',
-    'Solutions Architect', 'Cloud Architect', 'DevOps Engineer',
-    'Data Engineer', 'ML Engineer', 'AI Engineer', 'Data Analyst',
-    'Business Analyst', 'Data Scientist', 'AI Researcher', 'BI Developer',
-    'Product Manager', 'Product Owner', 'Program Manager', 'Scrum Master',
-    'Project Manager', 'IT Support Engineer', 'Systems Administrator',
-    'Network Engineer', 'Cybersecurity Analyst', 'Security Architect',
-    'Plant Manager', 'Production Manager', 'Quality Control Officer',
-    'QA/QC Engineer', 'Maintenance Engineer', 'Manufacturing Engineer',
-    'Machine Operator', 'Line Supervisor', 'Process Engineer',
-    'Investment Banker', 'Financial Analyst', 'Portfolio Manager',
-    'Loan Officer', 'Branch Manager', 'Relationship Manager',
-    'Actuary', 'Underwriter', 'Claims Officer', 'Auditor', 'Tax Consultant',
-    'Sales Executive', 'Sales Manager', 'Business Development Manager',
-    'Key Account Manager', 'Area Sales Manager', 'Regional Sales Manager',
-    'Marketing Executive', 'Digital Marketing Specialist', 'SEO Specialist',
-    'Brand Manager', 'Content Strategist', 'HR Manager', 'HR Business Partner',
-    'Talent Acquisition Specialist', 'Recruitment Manager', 'HR Generalist',
-    'Employee Relations Manager', 'Training & Development Manager',
-    'Compensation & Benefits Analyst', 'Teacher', 'Lecturer', 'Professor',
-    'Academic Coordinator', 'Principal', 'Dean', 'Trainer',
-    'Instructional Designer', 'Research Scholar', 'Store Manager',
-    'Retail Associate', 'Cashier', 'Sales Advisor', 'Hotel Manager',
-    'Front Desk Executive', 'Chef', 'Housekeeping Supervisor',
-    'Travel Consultant', 'Tour Guide', 'Supply Chain Manager',
-    'Logistics Coordinator', 'Warehouse Manager', 'Inventory Analyst',
-    'Procurement Manager', 'Fleet Manager', 'Transport Supervisor',
-    'Dispatcher', 'Civil Engineer', 'Site Engineer', 'Project Engineer',
-    'Architect', 'Interior Designer', 'Safety Officer',
-    'Construction Supervisor', 'Structural Engineer', 'Graphic Designer',
-    'UI/UX Designer', 'Video Editor', 'Animator', 'Creative Director',
-    'Copywriter', 'Journalist', 'Photographer', 'Social Media Manager',
-    'Petroleum Engineer', 'Drilling Engineer', 'Geologist',
-    'Refinery Operator', 'HSE Officer', 'Pipeline Engineer',
-    'Field Technician', 'Officer', 'Inspector', 'Superintendent',
-    'Director-General', 'Commissioner', 'Specialist', 'Analyst',
-    'Clerk', 'Assistant', 'Lawyer', 'Attorney', 'Legal Advisor',
-    'Corporate Counsel', 'Paralegal', 'Legal Associate', 'Compliance Officer'
-  ];
-  
-  let designation = '';
-  let name = '';
-  let company = '';
-  let address = ''; // Initialize address here
-  
-  // Extract email username for validation (part before @)
-  let emailUsername = '';
-  if (emails.length > 0 && emails[0].includes('@')) {
-    emailUsername = emails[0].split('@')[0].toLowerCase();
-  }
-  
-  // NEW RULE IMPLEMENTATION:
-  // 1. Check email address for name (emailUsername)
-  // 2. Look in the entire card to search for the name
-  // 3. Put correct name in column after this validation
-  if (emailUsername) {
-    // Look for exact or close matches to the email username in the entire card
-    const potentialNames: {name: string, lineIndex: number}[] = [];
-    
-    // Collect all potential names from the card
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // Skip empty lines
-      if (!line) continue;
-      
-      // Skip lines with numbers, emails, phones, websites
-      const hasNumbers = /\d/.test(line);
-      const hasEmail = emails.some(e => line.toLowerCase().includes(e));
-      const hasPhone = cleanPhones.some(p => line.includes(p.replace(/[\s-]/g, '')));
-      const isWebsite = line.toLowerCase().includes('www.') || line.toLowerCase().includes('.com') || line.toLowerCase().includes('.org');
-      
-      if (hasNumbers || hasEmail || hasPhone || isWebsite) continue;
-      
-      // Skip if it's a designation
-      const isDesignation = designationKeywords.some(kw => 
-        line.toLowerCase().includes(kw.toLowerCase())
-      );
-      
-      if (isDesignation) continue;
-      
-      // Check for names with reasonable length (1-4 words)
-      const words = line.split(' ');
-      const isReasonableLength = words.length >= 1 && words.length <= 4;
-      
-      if (isReasonableLength) {
-        // Additional validation: should not contain special characters typical of non-names
-        const hasSpecialChars = /[!@#$%^&*(),.?":{}|<>]/.test(line);
-        if (!hasSpecialChars) {
-          potentialNames.push({name: line, lineIndex: i});
-        }
-      }
-    }
-    
-    // Look for exact or close matches to the email username
-    for (const potentialName of potentialNames) {
-      // Convert name to lowercase for comparison and remove spaces
-      const nameForComparison = potentialName.name.toLowerCase().replace(/\s+/g, '');
-      
-      // Check if name matches or is similar to email username
-      if (emailUsername === nameForComparison || 
-          emailUsername.includes(nameForComparison) || 
-          nameForComparison.includes(emailUsername)) {
-        name = potentialName.name;
-        break;
-      }
-    }
-  }
-  
-  // ONLY FALLBACK: If no matching name found in card, extract from email
-  if (!name && emailUsername) {
-    // Convert email username to proper name format (replace dots with spaces and capitalize)
-    let extractedName = emailUsername.replace(/\./g, ' ') // Replace dots with spaces
-      .replace(/\b\w/g, char => char.toUpperCase()) // Capitalize first letter of each word
-      .trim();
-    
-    // Validate the extracted name (1-4 words, no numbers)
-    const words = extractedName.split(' ');
-    const hasNumbers = /\d/.test(extractedName);
-    const isReasonableLength = words.length >= 1 && words.length <= 4;
-    
-    if (isReasonableLength && !hasNumbers) {
-      name = extractedName;
-    }
-  }
-  
-  // Ensure name is never blank - fallback to first potential name if nothing else works
-  if (!name) {
-    // Look for any potential name in the card as last resort
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // Skip empty lines
-      if (!line) continue;
-      
-      // Skip lines with numbers, emails, phones, websites
-      const hasNumbers = /\d/.test(line);
-      const hasEmail = emails.some(e => line.toLowerCase().includes(e));
-      const hasPhone = cleanPhones.some(p => line.includes(p.replace(/[\s-]/g, '')));
-      const isWebsite = line.toLowerCase().includes('www.') || line.toLowerCase().includes('.com') || line.toLowerCase().includes('.org');
-      
-      if (hasNumbers || hasEmail || hasPhone || isWebsite) continue;
-      
-      // Skip if it's a designation
-      const isDesignation = designationKeywords.some(kw => 
-        line.toLowerCase().includes(kw.toLowerCase())
-      );
-      
-      if (isDesignation) continue;
-      
-      // Check for names with reasonable length (1-4 words)
-      const words = line.split(' ');
-      const isReasonableLength = words.length >= 1 && words.length <= 4;
-      
-      if (isReasonableLength) {
-        // Additional validation: should not contain special characters typical of non-names
-        const hasSpecialChars = /[!@#$%^&*(),.?":{}|<>]/.test(line);
-        if (!hasSpecialChars) {
-          name = line;
-          break;
-        }
-      }
-    }
-  }
-  
-  // DESIGNATION EXTRACTION:
-  // Extract designation separately to avoid contamination with other fields
-  for (const line of lines) {
-    for (const keyword of designationKeywords) {
-      // Check for exact matches or partial matches
-      if (line.toLowerCase().includes(keyword.toLowerCase())) {
-        // Ensure this line is not already captured as name, company, email, phone, website, or address
-        const isAlreadyCaptured = 
-          (name && line.toLowerCase().includes(name.toLowerCase())) ||
-          (company && line.toLowerCase().includes(company.toLowerCase())) ||
-          emails.some(e => line.toLowerCase().includes(e)) ||
-          phones.some(p => line.includes(p.replace(/[\s-]/g, ''))) ||
-          (websiteFromEmail && line.toLowerCase().includes(websiteFromEmail.toLowerCase())) ||
-          (websiteFromText && line.toLowerCase().includes(websiteFromText.toLowerCase())) ||
-          (address && line.toLowerCase().includes(address.toLowerCase()));
-        
-        if (!isAlreadyCaptured) {
-          designation = line.trim();
-          break;
-        }
-      }
-    }
-    if (designation) break;
-  }
-  
-  // COMPANY EXTRACTION:
-  // Contains business suffix OR bold/large text near top
-  // From email after @ and before .com/.co/.in
-  company = companyFromEmail || companyFromWebsite;
-  
-  // WEBSITE EXTRACTION:
-  // Use ONLY websites found in the text, never generate from company name or email
-  // Specifically look for websites starting with www.
-  let finalWebsite = '';
-  
-  // More precise regex to capture websites starting with www.
-  const wwwWebsiteRegex = /(https?:\/\/)?(www\.[\w-]+\.[\w.-]+)/gi;
-  const wwwWebsiteMatches = normalizedText.match(wwwWebsiteRegex);
-  
-  if (wwwWebsiteMatches && wwwWebsiteMatches.length > 0) {
-    // Take the first match that starts with www.
-    for (const match of wwwWebsiteMatches) {
-      if (match.toLowerCase().includes('www.')) {
-        finalWebsite = match.toLowerCase();
-        break;
-      }
-    }
-  }
-  
-  // Fallback to previous method if no www. website found
-  if (!finalWebsite) {
-    if (websiteFromText && websiteFromText.includes('www')) {
-      finalWebsite = websiteFromText;
-    } else if (websiteFromEmail && websiteFromEmail.includes('www')) {
-      finalWebsite = websiteFromEmail;
-    }
-  }
-  
-  // Ensure website always starts with www. and has proper format
-  if (finalWebsite) {
-    // Remove any cleaning that might have removed dots
-    // Extract domain part and ensure proper www. format
-    const domainMatch = finalWebsite.match(/(?:https?:\/\/)?(www\.[^\s]+)/i);
-    if (domainMatch && domainMatch[1]) {
-      finalWebsite = domainMatch[1]; // Use the www. version directly
-    }
-  }
-  
-  // ADDRESS EXTRACTION:
-  // Implement the specific rules you provided
-  // Characteristics: Longest multi-line block containing words + digits + commas
-  // Must contain address indicators (Road, Street, Lane, Floor, City, ZIP)
-  
-  // Address indicators as specified
-  const addressKeywords = [
-    'road', 'street', 'st', 'ave', 'avenue', 'lane', 'block', 'tower', 'floor', 
-    'city', 'zip', 'postal', 'po box', 'building', 'bldg', 'suite', 'apartment', 'apt',
-    'drive', 'dr', 'court', 'ct', 'place', 'pl', 'boulevard', 'blvd', 'circle', 'cr',
-    'india', 'us', 'usa', 'united states', 'uk', 'united kingdom', 'canada', 'australia'
-  ];
-  
-  // Find the longest continuous text block that matches address criteria
-  let bestAddressCandidate = '';
-  
-  // Process lines from bottom up since addresses are often at the bottom
-  for (let i = lines.length - 1; i >= 0; i--) {
-    const line = lines[i].trim();
-    
-    // Skip empty lines
-    if (!line) continue;
-    
-    // Skip if it's clearly not an address (phone numbers, emails, websites)
-    const hasEmail = emails.some(e => line.toLowerCase().includes(e.toLowerCase()));
-    const hasPhone = cleanPhones.some(p => line.includes(p.replace(/[\s-]/g, '')));
-    const hasWebsite = (finalWebsite && line.toLowerCase().includes(finalWebsite.toLowerCase()));
-    
-    if (hasEmail || hasPhone || hasWebsite) continue;
-    
-    // Check if line has address characteristics
-    const hasNumbers = /\d/.test(line);
-    const hasCommas = line.includes(',');
-    const hasAddressKeyword = addressKeywords.some(keyword => 
-      line.toLowerCase().includes(keyword.toLowerCase())
-    );
-    
-    // Must have numbers and either commas or address keywords
-    if (hasNumbers && (hasCommas || hasAddressKeyword)) {
-      // Additional validation - should not contain designation keywords
-      const isDesignation = designationKeywords.some(kw => 
-        line.toLowerCase().includes(kw.toLowerCase())
-      );
-      
-      // Also check that it doesn't contain junk characters like $
-      const hasJunkChars = /[\$]/.test(line);
-      
-      if (!isDesignation && !hasJunkChars) {
-        // This looks like a good address candidate
-        // Check if it's longer than our current best
-        if (line.length > bestAddressCandidate.length) {
-          bestAddressCandidate = line;
-        }
-      }
-    }
-  }
-  
-  // If we didn't find a good candidate, try a different approach
-  // Look for multi-line blocks that might contain addresses
-  if (!bestAddressCandidate) {
-    // Join consecutive lines and look for address patterns
-    for (let i = Math.max(0, lines.length - 10); i < lines.length; i++) {
-      // Try combining current line with next few lines
-      for (let j = 1; j <= 3 && i + j < lines.length; j++) {
-        const combinedLines = lines.slice(i, i + j + 1).join(', ').trim();
-        
-        // Skip if empty
-        if (!combinedLines) continue;
-        
-        // Skip if it's clearly not an address
-        const hasEmail = emails.some(e => combinedLines.toLowerCase().includes(e.toLowerCase()));
-        const hasPhone = cleanPhones.some(p => combinedLines.includes(p.replace(/[\s-]/g, '')));
-        const hasWebsite = (finalWebsite && combinedLines.toLowerCase().includes(finalWebsite.toLowerCase()));
-        
-        if (hasEmail || hasPhone || hasWebsite) continue;
-        
-        // Check address characteristics
-        const hasNumbers = /\d/.test(combinedLines);
-        const hasCommas = combinedLines.includes(',');
-        const hasAddressKeyword = addressKeywords.some(keyword => 
-          combinedLines.toLowerCase().includes(keyword.toLowerCase())
-        );
-        
-        // Must have numbers and either commas or address keywords
-        if (hasNumbers && (hasCommas || hasAddressKeyword)) {
-          // Additional validation
-          const isDesignation = designationKeywords.some(kw => 
-            combinedLines.toLowerCase().includes(kw.toLowerCase())
-          );
-          
-          // Also check that it doesn't contain junk characters like $
-          const hasJunkChars = /[\$]/.test(combinedLines);
-          
-          if (!isDesignation && !hasJunkChars) {
-            // This looks like a good address candidate
-            if (combinedLines.length > bestAddressCandidate.length) {
-              bestAddressCandidate = combinedLines;
-            }
-          }
-        }
-      }
-    }
-  }
-  
-  // Set the address ONLY if we found a valid candidate
-  // If no valid address found, address remains empty string as initialized
-  if (bestAddressCandidate) {
-    address = bestAddressCandidate;
+// Scan both sides of a card and merge them into one record
+export const processTwoSidedCard = async (
+  frontImageData: string,
+  backImageData: string,
+  options: ProcessImageOptions = {}
+): Promise<CardData> => {
+  const [front, back] = await Promise.all([
+    processImage(frontImageData, options),
+    processImage(backImageData, options),
+  ]);
+  return pairCards(front, back);
+};
+
+export interface RegionReadResult {
+  text: string;
+  confidence: number | undefined;
+  boxes: OcrBox[];
+}
+
+// Tidy up text read from a hand-picked region for the field it is assigned to
+const cleanRegionText = (field: CardField, text: string): string => {
+  const lines = normalizeScriptCharacters(text)
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  switch (field) {
+    case 'email':
+      return lines.join('').replace(/\s/g, '').toLowerCase();
+    case 'website':
+      return lines.join('').replace(/\s/g, '');
+    case 'address':
+      return lines.join(', ');
+    default:
+      return lines.join(' ');
   }
-  // If no valid address found, address remains empty string (blank)
+};
 
-  // Remove ALL junk characters from all fields EXCEPT email and website
-  const cleanText = (text: string): string => {
-    if (!text) return '';
-    return text
-      .replace(/[!*~"'/\-\\(),.?;:#^&[\]{}|<>`=+_]/g, '') // Remove ALL junk characters except @ and .
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
-  };
-  
-  // Special cleaner for website that preserves dots
-  const cleanWebsite = (text: string): string => {
-    if (!text) return '';
-    return text
-      .replace(/[!*~"'/\-\\(),?;:#^&[\]{}|<>`=+_\$]/g, '') // Remove junk characters but keep dots and @
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
-  };
-  
-  // Special cleaner for designation that removes junk characters including $
-  const cleanDesignation = (text: string): string => {
-    if (!text) return '';
-    return text
-      .replace(/[!*~"'/\-\\(),.?;:#^&[\]{}|<>`=+_\$]/g, '') // Remove junk characters including $
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
-  };
-  
-  // Ensure email is always populated if we have one (and always contains @)
-  const finalEmail = emails[0] || '';
-  
-  // Ensure phone is never blank - try multiple approaches
-  let finalPhone = '';
-  if (cleanPhones.length > 0) {
-    finalPhone = cleanPhones[0];
-  } else if (phones.length > 0) {
-    // Fallback to original phone matches if clean phones is empty
-    finalPhone = phones[0];
+// Re-read one rectangle of a card image, e.g. when the user marks where the phone number is
+export const recognizeCardRegion = async (
+  imageData: string,
+  region: OcrBox,
+  field: CardField,
+  language: string = 'eng',
+  signal?: AbortSignal // Cancels the read, e.g. when the review dialog is closed
+): Promise<RegionReadResult> => {
+  const pool = getOcrWorkerPool();
+  const slot = await pool.reserve(signal);
+
+  try {
+    const preparedImage = await prepareImageForOCR(imageData);
+    signal?.throwIfAborted();
+    const langs = await resolveOcrLanguages(pool, preparedImage, language, null, signal);
+    const { text, words } = await getOcrEngine().recognize(preparedImage, { langs, region, signal });
+
+    const confidence = words.length > 0
+      ? Math.round(words.reduce((sum, word) => sum + word.confidence, 0) / words.length)
+      : undefined;
+
+    return {
+      text: cleanRegionText(field, text),
+      confidence,
+      boxes: words.length > 0 ? words.map(word => ({ ...word.bbox })) : [{ ...region }],
+    };
+  } finally {
+    slot.release();
   }
-  
-  return {
-    name: name ? cleanText(name) : '',
-    company: company ? cleanText(company) : '',
-    designation: designation ? cleanDesignation(designation) : '', // Use special cleaner for designation
-    email: finalEmail, // Keep email as is to preserve @
-    phone: finalPhone,
-    website: finalWebsite ? cleanWebsite(finalWebsite) : '', // Use special cleaner for website
-    address: address ? cleanText(address) : '', // Only set if we found a valid address
-    imageData: imageData, // Base64 encoded image data
-  };
 };
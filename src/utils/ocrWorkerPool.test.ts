@@ -0,0 +1,121 @@
+import type { Worker } from 'tesseract.js';
+import { createOcrWorkerPool } from './ocrWorkerPool';
+
+// Lets the pool start workers and hand out jobs
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Workers that recognize the image's name once the test finishes the job
+const stubWorkers = () => {
+  const running: { image: string; finish: () => void }[] = [];
+  const terminated: string[] = [];
+  let started = 0;
+  const startWorker = async (key: string): Promise<Worker> => {
+    const id = `${key}-${++started}`;
+    return {
+      recognize: (image: string) =>
+        new Promise(resolve => running.push({ image, finish: () => resolve({ data: { text: image } }) })),
+      detect: async () => ({ data: { script: 'Latin' } }),
+      setParameters: async () => ({}),
+      reinitialize: async () => ({}),
+      terminate: async () => {
+        terminated.push(id);
+        return {};
+      },
+    } as unknown as Worker;
+  };
+  return { startWorker, running, terminated };
+};
+
+describe('createOcrWorkerPool', () => {
+  // Worker asset paths are made absolute against the page address
+  const originalLocation = globalThis.location;
+  beforeAll(() => {
+    globalThis.location = { href: 'http://localhost/' } as Location;
+  });
+  afterAll(() => {
+    globalThis.location = originalLocation;
+  });
+
+  test('runs jobs in the order they were queued', async () => {
+    const { startWorker, running } = stubWorkers();
+    const pool = createOcrWorkerPool({ size: 1, maxQueueSize: 4 }, startWorker);
+    const results = ['first', 'second', 'third'].map(image => pool.recognize(image));
+
+    await flush();
+    expect(running.map(job => job.image)).toEqual(['first']);
+    expect(pool.getStats()).toMatchObject({ workers: 1, busyWorkers: 1, queuedJobs: 2 });
+
+    for (let i = 0; i < 3; i++) {
+      running[i].finish();
+      await flush();
+    }
+    expect(running.map(job => job.image)).toEqual(['first', 'second', 'third']);
+    expect((await Promise.all(results)).map(result => result.data.text)).toEqual(['first', 'second', 'third']);
+    await pool.terminate();
+  });
+
+  test('holds back reservations beyond the pool and queue size, and wakes them in order', async () => {
+    const pool = createOcrWorkerPool({ size: 1, maxQueueSize: 1 }, stubWorkers().startWorker);
+    const first = await pool.reserve();
+    await pool.reserve();
+
+    const woken: string[] = [];
+    const third = pool.reserve().then(slot => {
+      woken.push('third');
+      return slot;
+    });
+    const fourth = pool.reserve().then(slot => {
+      woken.push('fourth');
+      return slot;
+    });
+    await flush();
+    expect(woken).toEqual([]);
+    expect(pool.getStats().reservedSlots).toBe(2);
+
+    first.release();
+    first.release(); // Releasing twice frees one slot
+    await flush();
+    expect(woken).toEqual(['third']);
+
+    (await third).release();
+    await fourth;
+    expect(woken).toEqual(['third', 'fourth']);
+    await pool.terminate();
+  });
+
+  test('stops the worker of a cancelled job and moves on to the next one', async () => {
+    const { startWorker, running, terminated } = stubWorkers();
+    const pool = createOcrWorkerPool({ size: 1, maxQueueSize: 4 }, startWorker);
+    const controller = new AbortController();
+    const cancelled = pool.recognize('cancelled', { signal: controller.signal });
+    const next = pool.recognize('next');
+
+    await flush();
+    controller.abort(new Error('Cancelled'));
+    await expect(cancelled).rejects.toThrow('Cancelled');
+    expect(terminated).toEqual(['eng-1']);
+
+    await flush();
+    running[1].finish();
+    await expect(next).resolves.toMatchObject({ data: { text: 'next' } });
+    await pool.terminate();
+  });
+
+  test('rejects running and queued jobs and waiting reservations on shutdown', async () => {
+    const { startWorker, terminated } = stubWorkers();
+    const pool = createOcrWorkerPool({ size: 1, maxQueueSize: 1 }, startWorker);
+    const runningJob = pool.recognize('running');
+    const queuedJob = pool.recognize('queued');
+    await pool.reserve();
+    await pool.reserve();
+    const waiting = pool.reserve();
+    await flush();
+
+    await pool.terminate();
+    await expect(runningJob).rejects.toThrow('shut down');
+    await expect(queuedJob).rejects.toThrow('shut down');
+    await expect(waiting).rejects.toThrow('shut down');
+    await expect(pool.recognize('late')).rejects.toThrow('shut down');
+    expect(terminated).toEqual(['eng-1']);
+  });
+});
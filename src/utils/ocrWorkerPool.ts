@@ -0,0 +1,392 @@
+import {
+  createWorker,
+  OEM,
+  PSM,
+  type DetectResult,
+  type ImageLike,
+  type OutputFormats,
+  type Rectangle,
+  type RecognizeResult,
+  type Worker,
+  type WorkerParams,
+} from 'tesseract.js';
+import { languageDataPath, tesseractCorePath, tesseractWorkerPath } from './offlineAssets';
+
+// Pool configuration
+export interface OcrWorkerPoolOptions {
+  size: number; // Maximum number of warm Tesseract workers
+  maxQueueSize: number; // Jobs allowed to wait for a worker before callers are held back
+}
+
+// A reserved slot in the pool. Callers hold a slot from the moment they start
+// preparing an image until recognition finishes, so a large batch upload only
+// preprocesses as many images as the pool can actually absorb.
+export interface OcrPoolSlot {
+  release: () => void;
+}
+
+export interface OcrWorkerPoolStats {
+  workers: number;
+  busyWorkers: number;
+  queuedJobs: number;
+  reservedSlots: number;
+}
+
+export interface RecognizeJobOptions {
+  langs?: string; // Tesseract language string, e.g. 'eng' or 'jpn+eng'
+  params?: Partial<WorkerParams>; // Overrides for the default recognition parameters
+  output?: Partial<OutputFormats>; // Extra result formats, e.g. { blocks: true } for word data
+  rectangle?: Rectangle; // Only recognize this part of the image
+  signal?: AbortSignal; // Cancels the job, stopping its worker if it is already running
+}
+
+// Workers are keyed by the traineddata they have loaded. Orientation/script
+// detection needs the legacy engine, so it runs on its own 'osd' workers.
+const OSD_KEY = 'osd';
+
+interface PooledWorker {
+  worker: Worker;
+  key: string;
+  busy: boolean;
+  params: string; // Serialized parameters currently applied to the worker
+}
+
+interface QueuedJob {
+  kind: 'recognize' | 'detect';
+  key: string;
+  image: ImageLike;
+  params: Partial<WorkerParams>;
+  output: Partial<OutputFormats>;
+  rectangle?: Rectangle;
+  signal?: AbortSignal;
+  resolve: (result: RecognizeResult | DetectResult) => void;
+  reject: (error: Error) => void;
+}
+
+// Parameters applied to every worker when it is created; jobs can override them
+const WORKER_PARAMETERS: Partial<WorkerParams> = {
+  tessedit_do_invert: '0', // Dark cards are inverted by the enhancement pipeline
+  preserve_interword_spaces: '1', // Preserve spaces between words
+  classify_bln_numeric_mode: '0', // Don't assume numeric mode
+  tessedit_pageseg_mode: PSM.SINGLE_BLOCK, // Assume a single uniform block of text
+};
+
+// The reason passed to abort(), or a generic cancellation error
+const abortReason = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new Error('OCR job was cancelled');
+
+const getDefaultPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  // Leave one core for the UI thread, and cap the pool since every worker holds its own WASM heap
+  return Math.min(4, Math.max(1, cores - 1));
+};
+
+export const DEFAULT_POOL_OPTIONS: OcrWorkerPoolOptions = {
+  size: getDefaultPoolSize(),
+  maxQueueSize: 8,
+};
+
+// Starts a worker with the traineddata of a pool key loaded
+export type OcrWorkerFactory = (key: string) => Promise<Worker>;
+
+const createKeyedWorker: OcrWorkerFactory = async key => {
+  // Serve the engine from the app rather than the CDN, so it works offline
+  const assetPaths = {
+    workerPath: tesseractWorkerPath(),
+    corePath: tesseractCorePath(),
+    langPath: languageDataPath(key),
+  };
+  if (key === OSD_KEY) {
+    return createWorker(OSD_KEY, OEM.TESSERACT_ONLY, { ...assetPaths, legacyCore: true, legacyLang: true });
+  }
+  const worker = await createWorker(key, OEM.LSTM_ONLY, assetPaths);
+  await worker.setParameters(WORKER_PARAMETERS);
+  return worker;
+};
+
+export const createOcrWorkerPool = (
+  options: Partial<OcrWorkerPoolOptions> = {},
+  startWorker: OcrWorkerFactory = createKeyedWorker
+) => {
+  const size = Math.max(1, options.size ?? DEFAULT_POOL_OPTIONS.size);
+  const maxQueueSize = Math.max(1, options.maxQueueSize ?? DEFAULT_POOL_OPTIONS.maxQueueSize);
+  const maxReservedSlots = size + maxQueueSize;
+
+  const workers: PooledWorker[] = [];
+  const queue: QueuedJob[] = [];
+  const runningJobs = new Set<QueuedJob>();
+  const slotWaiters: Array<() => void> = [];
+  const startingKeys: string[] = [];
+  let reservedSlots = 0;
+  let isTerminated = false;
+
+  const spawnWorker = async (key: string): Promise<void> => {
+    startingKeys.push(key);
+    try {
+      const worker = await startWorker(key);
+
+      if (isTerminated) {
+        await worker.terminate();
+        return;
+      }
+
+      workers.push({ worker, key, busy: false, params: JSON.stringify(WORKER_PARAMETERS) });
+    } catch (error) {
+      console.error(`Failed to start OCR worker (${key}):`, error);
+      // Fail the oldest job waiting for this language, otherwise it would wait forever
+      const index = queue.findIndex(job => job.key === key);
+      if (index !== -1) {
+        const [job] = queue.splice(index, 1);
+        job.reject(new Error(`Failed to start OCR engine: ${(error as Error)?.message || 'Unknown error'}`));
+      }
+    } finally {
+      startingKeys.splice(startingKeys.indexOf(key), 1);
+    }
+    dispatch();
+  };
+
+  const retireWorker = (pooled: PooledWorker): void => {
+    const index = workers.indexOf(pooled);
+    if (index === -1) return;
+    workers.splice(index, 1);
+    pooled.worker.terminate().catch(error => console.warn('Failed to terminate OCR worker:', error));
+  };
+
+  const runJob = async (pooled: PooledWorker, job: QueuedJob): Promise<void> => {
+    pooled.busy = true;
+    runningJobs.add(job);
+    // Tesseract cannot interrupt a recognition, so a cancelled job takes its worker down with it
+    const handleAbort = () => {
+      // The stopped worker never settles, so the job is no longer running from here
+      runningJobs.delete(job);
+      job.reject(abortReason(job.signal!));
+      retireWorker(pooled);
+      dispatch();
+    };
+    job.signal?.addEventListener('abort', handleAbort, { once: true });
+    try {
+      if (job.kind === 'detect') {
+        job.resolve(await pooled.worker.detect(job.image));
+      } else {
+        // Switch an idle worker to the requested languages instead of starting a new one
+        if (pooled.key !== job.key) {
+          await pooled.worker.reinitialize(job.key);
+          await pooled.worker.setParameters(WORKER_PARAMETERS);
+          pooled.key = job.key;
+          pooled.params = JSON.stringify(WORKER_PARAMETERS);
+        }
+        const params = { ...WORKER_PARAMETERS, ...job.params };
+        if (pooled.params !== JSON.stringify(params)) {
+          await pooled.worker.setParameters(params);
+          pooled.params = JSON.stringify(params);
+        }
+        job.resolve(await pooled.worker.recognize(job.image, job.rectangle ? { rectangle: job.rectangle } : {}, job.output));
+      }
+    } catch (error) {
+      job.reject(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      runningJobs.delete(job);
+      job.signal?.removeEventListener('abort', handleAbort);
+      pooled.busy = false;
+      dispatch();
+    }
+  };
+
+  // Hand queued jobs to idle workers in FIFO order, starting new workers up to the pool size
+  const dispatch = (): void => {
+    if (isTerminated) return;
+
+    while (queue.length > 0) {
+      const job = queue[0];
+      const idleWorkers = workers.filter(w => !w.busy);
+      const sameKey = idleWorkers.find(w => w.key === job.key);
+      // Recognition workers can be reinitialized; OSD workers run a different engine.
+      // The language data location is fixed when a worker starts, so bundled and
+      // CDN languages can't share one.
+      const reusable = job.key === OSD_KEY
+        ? undefined
+        : idleWorkers.find(w => w.key !== OSD_KEY && languageDataPath(w.key) === languageDataPath(job.key));
+      const idle = sameKey || (startingKeys.includes(job.key) ? undefined : reusable);
+
+      if (idle) {
+        queue.shift();
+        runJob(idle, job);
+        continue;
+      }
+
+      // The pool is full of workers for other languages: replace an idle one
+      const capacityLeft = size - workers.length - startingKeys.length;
+      if (capacityLeft <= 0 && idleWorkers.length > 0 && !startingKeys.includes(job.key)) {
+        retireWorker(idleWorkers[0]);
+        spawnWorker(job.key);
+      }
+      break;
+    }
+
+    // Start workers for waiting jobs that no starting worker will pick up
+    const pendingStarts = [...startingKeys];
+    for (const job of queue) {
+      if (workers.length + startingKeys.length >= size) break;
+      const startIndex = pendingStarts.indexOf(job.key);
+      if (startIndex !== -1) {
+        pendingStarts.splice(startIndex, 1);
+        continue;
+      }
+      spawnWorker(job.key);
+    }
+  };
+
+  const enqueue = <T extends RecognizeResult | DetectResult>(
+    kind: QueuedJob['kind'],
+    key: string,
+    image: ImageLike,
+    params: Partial<WorkerParams> = {},
+    output: Partial<OutputFormats> = {},
+    rectangle?: Rectangle,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    if (isTerminated) {
+      return Promise.reject(new Error('OCR worker pool has been shut down'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const job: QueuedJob = { kind, key, image, params, output, rectangle, signal, resolve: resolve as QueuedJob['resolve'], reject };
+      queue.push(job);
+      // Jobs still waiting are simply dropped; running ones are stopped in runJob
+      signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(job);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(abortReason(signal));
+        }
+      }, { once: true });
+      dispatch();
+    });
+  };
+
+  const recognize = (image: ImageLike, jobOptions: RecognizeJobOptions = {}): Promise<RecognizeResult> =>
+    enqueue<RecognizeResult>(
+      'recognize',
+      jobOptions.langs || 'eng',
+      image,
+      jobOptions.params,
+      jobOptions.output,
+      jobOptions.rectangle,
+      jobOptions.signal
+    );
+
+  // Orientation and script detection (OSD)
+  const detect = (image: ImageLike, signal?: AbortSignal): Promise<DetectResult> =>
+    enqueue<DetectResult>('detect', OSD_KEY, image, {}, {}, undefined, signal);
+
+  // Wait until the pool can take another image. Resolves in FIFO order.
+  const reserve = (signal?: AbortSignal): Promise<OcrPoolSlot> => {
+    if (isTerminated) {
+      return Promise.reject(new Error('OCR worker pool has been shut down'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+
+    const createSlot = (): OcrPoolSlot => {
+      let released = false;
+      return {
+        release: () => {
+          if (released) return;
+          released = true;
+          reservedSlots--;
+          const next = slotWaiters.shift();
+          next?.();
+        },
+      };
+    };
+
+    if (reservedSlots < maxReservedSlots && slotWaiters.length === 0) {
+      reservedSlots++;
+      return Promise.resolve(createSlot());
+    }
+
+    return new Promise<OcrPoolSlot>((resolve, reject) => {
+      const handleAbort = () => {
+        slotWaiters.splice(slotWaiters.indexOf(wake), 1);
+        reject(abortReason(signal!));
+      };
+      const wake = () => {
+        signal?.removeEventListener('abort', handleAbort);
+        if (isTerminated) {
+          reject(new Error('OCR worker pool has been shut down'));
+          return;
+        }
+        reservedSlots++;
+        resolve(createSlot());
+      };
+      slotWaiters.push(wake);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+  };
+
+  // Start workers ahead of time so the first scan does not pay the startup cost
+  const warmUp = (langs: string = 'eng', count: number = 1): void => {
+    if (isTerminated) return;
+    const missingWorkers = Math.min(count, size) - workers.length - startingKeys.length;
+    for (let i = 0; i < missingWorkers; i++) {
+      spawnWorker(langs);
+    }
+  };
+
+  const terminate = async (): Promise<void> => {
+    if (isTerminated) return;
+    isTerminated = true;
+
+    const shutdownError = new Error('OCR worker pool has been shut down');
+    queue.splice(0).forEach(job => job.reject(shutdownError));
+    // Terminating a worker leaves its recognize() pending, so settle running jobs first
+    runningJobs.forEach(job => job.reject(shutdownError));
+    runningJobs.clear();
+    slotWaiters.splice(0).forEach(wake => wake());
+
+    await Promise.all(
+      workers.splice(0).map(({ worker }) =>
+        worker.terminate().catch(error => console.warn('Failed to terminate OCR worker:', error))
+      )
+    );
+  };
+
+  const getStats = (): OcrWorkerPoolStats => ({
+    workers: workers.length,
+    busyWorkers: workers.filter(w => w.busy).length,
+    queuedJobs: queue.length,
+    reservedSlots,
+  });
+
+  return { recognize, detect, reserve, warmUp, terminate, getStats };
+};
+
+export type OcrWorkerPool = ReturnType<typeof createOcrWorkerPool>;
+
+// Shared pool used by the app. Created lazily and torn down on sign-out.
+let sharedPool: OcrWorkerPool | null = null;
+let sharedPoolOptions: Partial<OcrWorkerPoolOptions> = {};
+
+export const getOcrWorkerPool = (): OcrWorkerPool => {
+  if (!sharedPool) {
+    sharedPool = createOcrWorkerPool(sharedPoolOptions);
+  }
+  return sharedPool;
+};
+
+// Change the pool configuration. The running pool is drained and replaced on next use.
+export const configureOcrWorkerPool = async (options: Partial<OcrWorkerPoolOptions>): Promise<void> => {
+  sharedPoolOptions = { ...sharedPoolOptions, ...options };
+  await shutdownOcrWorkerPool();
+};
+
+export const shutdownOcrWorkerPool = async (): Promise<void> => {
+  if (!sharedPool) return;
+  const pool = sharedPool;
+  sharedPool = null;
+  await pool.terminate();
+};
@@ -0,0 +1,75 @@
+import { OCR_LANGUAGES } from './ocrLanguages';
+
+// Tesseract's worker script, WASM core and the bundled traineddata are copied from
+// node_modules into /tesseract at build time (see vite.config.ts), so scanning does
+// not depend on the CDN. The service worker caches them after first use.
+
+const ASSET_BASE = `${import.meta.env.BASE_URL}tesseract`;
+
+// Traineddata shipped with the app. Other languages are downloaded from the CDN
+// and cached by the service worker once they have been used.
+export const BUNDLED_LANGUAGES = ['eng', 'osd'];
+
+const CDN_LANGUAGE_BASE = 'https://cdn.jsdelivr.net/npm/@tesseract.js-data';
+
+// Core builds Tesseract picks from, depending on SIMD support and whether the legacy engine is needed
+const CORE_FILES = [
+  'tesseract-core-simd-lstm.wasm.js',
+  'tesseract-core-lstm.wasm.js',
+  'tesseract-core-simd.wasm.js',
+  'tesseract-core.wasm.js',
+];
+
+// Tesseract loads these from inside a blob: worker, where root-relative paths don't resolve
+const absoluteUrl = (path: string): string => new URL(path, globalThis.location?.href).href;
+
+export const tesseractWorkerPath = (): string => absoluteUrl(`${ASSET_BASE}/worker.min.js`);
+
+export const tesseractCorePath = (): string => absoluteUrl(`${ASSET_BASE}/core`);
+
+// Local path when every language in a Tesseract language string is bundled.
+// Undefined lets Tesseract use its CDN default.
+export const languageDataPath = (langs: string): string | undefined =>
+  langs.split('+').every(lang => BUNDLED_LANGUAGES.includes(lang)) ? absoluteUrl(`${ASSET_BASE}/lang`) : undefined;
+
+export const languageDataUrl = (lang: string): string =>
+  BUNDLED_LANGUAGES.includes(lang)
+    ? absoluteUrl(`${ASSET_BASE}/lang/${lang}.traineddata.gz`)
+    : `${CDN_LANGUAGE_BASE}/${lang}/4.0.0_best_int/${lang}.traineddata.gz`;
+
+export interface OfflineStatus {
+  appShell: boolean; // Pages and scripts are served by the service worker
+  engine: boolean; // Tesseract worker script and a core build are cached
+  languages: string[]; // Codes of the languages whose traineddata is cached
+}
+
+const isCached = async (url: string): Promise<boolean> => !!(await caches.match(url));
+
+// What the service worker has cached, for the offline indicator
+export const getOfflineStatus = async (): Promise<OfflineStatus> => {
+  if (typeof caches === 'undefined' || !('serviceWorker' in navigator)) {
+    return { appShell: false, engine: false, languages: [] };
+  }
+
+  const [workerCached, coreCached, languageCached] = await Promise.all([
+    isCached(tesseractWorkerPath()),
+    Promise.all(CORE_FILES.map(file => isCached(`${tesseractCorePath()}/${file}`))),
+    Promise.all(OCR_LANGUAGES.map(lang => isCached(languageDataUrl(lang.code)))),
+  ]);
+
+  return {
+    appShell: !!navigator.serviceWorker.controller,
+    engine: workerCached && coreCached.some(Boolean),
+    languages: OCR_LANGUAGES.filter((_, index) => languageCached[index]).map(lang => lang.code),
+  };
+};
+
+// Download a language's traineddata so the service worker caches it for offline scans
+export const cacheLanguageData = async (lang: string): Promise<void> => {
+  const response = await fetch(languageDataUrl(lang));
+  if (!response.ok) {
+    throw new Error(`Failed to download ${lang} language data (${response.status})`);
+  }
+  // Wait for the whole file, so success means the service worker has it
+  await response.arrayBuffer();
+};
@@ -0,0 +1,20 @@
+import { parsePageRange } from './pageRange';
+
+describe('Page range parsing', () => {
+  test('should parse single pages and ranges', () => {
+    expect(parsePageRange('1-3, 5', 10)).toEqual([1, 2, 3, 5]);
+  });
+
+  test('should support open-ended ranges and remove duplicates', () => {
+    expect(parsePageRange('8-, 9, -2', 10)).toEqual([1, 2, 8, 9, 10]);
+  });
+
+  test('should reject pages outside the document', () => {
+    expect(() => parsePageRange('4-12', 10)).toThrow('outside pages 1-10');
+  });
+
+  test('should reject malformed input', () => {
+    expect(() => parsePageRange('one', 10)).toThrow('not a valid page');
+    expect(() => parsePageRange(' , ', 10)).toThrow('at least one page');
+  });
+});
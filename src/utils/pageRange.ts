@@ -0,0 +1,30 @@
+// Parse a page selection such as "1-3, 5, 8-" into sorted, unique page numbers.
+// Open-ended ranges ("8-") run to the last page. Throws on malformed input.
+export const parsePageRange = (input: string, pageCount: number): number[] => {
+  const pages = new Set<number>();
+  const parts = input.split(',').map(part => part.trim()).filter(Boolean);
+
+  if (parts.length === 0) {
+    throw new Error('Enter at least one page');
+  }
+
+  for (const part of parts) {
+    const match = part.match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`"${part}" is not a valid page or range`);
+    }
+
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : pageCount) : start;
+
+    if (start < 1 || end > pageCount || start > end) {
+      throw new Error(`"${part}" is outside pages 1-${pageCount}`);
+    }
+
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+};
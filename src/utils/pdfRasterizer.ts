@@ -0,0 +1,53 @@
+import { GlobalWorkerOptions, getDocument, type PDFDocumentProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Rendered page width in pixels. Matches the card cropping resolution, so a
+// page holding a single card keeps enough detail for OCR after cropping.
+const TARGET_PAGE_WIDTH = 2000;
+const MAX_RENDER_SCALE = 4;
+
+export const loadPdfDocument = async (file: File): Promise<PDFDocumentProxy> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  return getDocument({ data }).promise;
+};
+
+// Render one page (1-based) to a JPEG data URL
+export const renderPdfPage = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<string> => {
+  const page = await pdf.getPage(pageNumber);
+  try {
+    const baseViewport = page.getViewport({ scale: 1 });
+    const scale = Math.min(MAX_RENDER_SCALE, TARGET_PAGE_WIDTH / baseViewport.width);
+    const viewport = page.getViewport({ scale });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context not available');
+    }
+
+    // PDF pages are transparent where nothing is drawn
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    return canvas.toDataURL('image/jpeg', 0.92);
+  } finally {
+    page.cleanup();
+  }
+};
+
+// Render the given pages one at a time, handing each image over as soon as it is ready
+export const renderPdfPages = async (
+  pdf: PDFDocumentProxy,
+  pageNumbers: number[],
+  onPage: (imageData: string, pageNumber: number) => void
+): Promise<void> => {
+  for (const pageNumber of pageNumbers) {
+    const imageData = await renderPdfPage(pdf, pageNumber);
+    onPage(imageData, pageNumber);
+  }
+};
@@ -0,0 +1,73 @@
+import { getNameParts, parsePersonName, setNameParts, setNameText } from './personName';
+import { parseCardData } from './cardParser';
+
+describe('Person name parsing', () => {
+  test('separates honorifics, middle names and credentials', () => {
+    expect(parsePersonName('Dr. Anil Kumar Sharma, PhD')).toEqual({
+      prefix: 'Dr.',
+      given: 'Anil',
+      middle: 'Kumar',
+      family: 'Sharma',
+      suffix: '',
+      credentials: 'PhD',
+    });
+    expect(parsePersonName('John Smith Jr. MBA CPA')).toMatchObject({
+      given: 'John',
+      family: 'Smith',
+      suffix: 'Jr.',
+      credentials: 'MBA, CPA',
+    });
+    expect(parsePersonName('Jack Ma')).toMatchObject({ given: 'Jack', family: 'Ma', credentials: '' });
+  });
+
+  test('reads a leading "Sr." as an honorific and a trailing one as Senior', () => {
+    expect(parsePersonName('Sr. Maria Lopez')).toMatchObject({ prefix: 'Sr.', given: 'Maria', family: 'Lopez' });
+    expect(parsePersonName('Sra. Ana García')).toMatchObject({ prefix: 'Sra.', given: 'Ana', family: 'García' });
+    expect(parsePersonName('John Smith Sr.')).toMatchObject({ prefix: '', given: 'John', family: 'Smith', suffix: 'Sr.' });
+  });
+
+  test('recognizes family-name-first, initials and family name particles', () => {
+    expect(parsePersonName('YAMADA Taro')).toMatchObject({ family: 'YAMADA', given: 'Taro' });
+    expect(parsePersonName('Yamada Taro')).toMatchObject({ family: 'Yamada', given: 'Taro' });
+    expect(parsePersonName('Taro Yamada')).toMatchObject({ given: 'Taro', family: 'Yamada' });
+    expect(parsePersonName('王伟')).toMatchObject({ family: '王', given: '伟' });
+    expect(parsePersonName('K. S. Ramesh')).toMatchObject({ given: 'Ramesh', family: 'K. S.' });
+    expect(parsePersonName('Mohammed bin Rashid Al Maktoum')).toMatchObject({
+      given: 'Mohammed',
+      middle: 'bin Rashid',
+      family: 'Al Maktoum',
+    });
+    expect(parsePersonName('Ludwig van Beethoven')).toMatchObject({ given: 'Ludwig', family: 'van Beethoven' });
+  });
+  test('reads honorifics, initials and credentials from a scanned card', () => {
+    const result = parseCardData(`Dr. Anil Kumar Sharma, PhD
+Chief Technology Officer
+Infotech Solutions Pvt. Ltd.
+anil.sharma@infotech.in
++91 98201 23456`);
+
+    expect(result.name).toBe('Dr. Anil Kumar Sharma, PhD');
+    expect(getNameParts(result)).toEqual({
+      prefix: 'Dr.',
+      given: 'Anil',
+      middle: 'Kumar',
+      family: 'Sharma',
+      suffix: '',
+      credentials: 'PhD',
+    });
+    expect(parseCardData('K. S. Ramesh\nSenior Manager\nks.ramesh@acme.in').name).toBe('K. S. Ramesh');
+  });
+  test('rewrites the name from corrected parts in its printed order', () => {
+    // Romanized family-first names with a family name that is not on the list are read
+    // given name first until corrected
+    const card = setNameText('Hoshino Gen');
+    expect(card.nameParts).toMatchObject({ given: 'Hoshino', family: 'Gen' });
+
+    const corrected = setNameParts({ ...card.nameParts!, given: 'Gen', family: 'Hoshino' }, card.name);
+    expect(corrected.name).toBe('Hoshino Gen');
+    expect(getNameParts(corrected)).toMatchObject({ given: 'Gen', family: 'Hoshino' });
+    expect(setNameParts({ ...setNameText('Yamada Taro').nameParts!, prefix: 'Dr.', credentials: 'PhD' }, 'Yamada Taro').name).toBe(
+      'Dr. Yamada Taro, PhD'
+    );
+  });
+});
@@ -0,0 +1,254 @@
+import type { CardData } from './ocrProcessor';
+
+// A name split into the parts of a vCard N, plus the post-nominal letters that
+// cards print after it. `CardData.name` stays the name as printed; the parts are
+// stored next to it so a wrong split can be corrected.
+export interface PersonName {
+  prefix: string; // Honorifics such as "Dr." or "Shri"
+  given: string;
+  middle: string;
+  family: string;
+  suffix: string; // Generational suffixes such as "Jr." or "III"
+  credentials: string; // Post-nominals such as "PhD, CPA", comma separated
+}
+
+export type PersonNamePart = keyof PersonName;
+
+export const PERSON_NAME_PARTS: PersonNamePart[] = ['prefix', 'given', 'middle', 'family', 'suffix', 'credentials'];
+
+export const PERSON_NAME_LABELS: Record<PersonNamePart, string> = {
+  prefix: 'Prefix',
+  given: 'Given name',
+  middle: 'Middle name',
+  family: 'Family name',
+  suffix: 'Suffix',
+  credentials: 'Credentials',
+};
+
+export const EMPTY_PERSON_NAME: PersonName = { prefix: '', given: '', middle: '', family: '', suffix: '', credentials: '' };
+
+// Compared in lower case without dots, so "Dr", "Dr." and "DR." all match. "Sr." is left
+// out, since after a name it stands for Senior; before at least two more words it is read
+// as Señor, as in "Sr. Juan Pérez".
+const PREFIXES = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'professor', 'sir', 'dame', 'lord', 'lady', 'rev', 'fr', 'hon',
+  'capt', 'col', 'gen', 'lt', 'maj', 'sgt', 'cdr', 'eng', 'er', 'adv', 'ca', 'shri', 'shree', 'smt',
+  'kumari', 'km', 'sheikh', 'shaikh', 'sheikha', 'mme', 'mlle', 'herr', 'frau', 'sra', 'srta', 'dott', 'ing',
+]);
+
+const GENERATIONAL_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv']);
+
+// Written as they usually appear on cards; matched without dots and, except in
+// all-caps names, case-sensitively so "Ma" in "Jack Ma" is not read as an MA
+const CREDENTIALS = [
+  'PhD', 'DPhil', 'EdD', 'MD', 'DO', 'DDS', 'DMD', 'MBBS', 'MS', 'MCh', 'DNB', 'DM', 'FRCS', 'FRCP', 'MRCP',
+  'MRCS', 'FACS', 'FACP', 'RN', 'NP', 'PA', 'PharmD', 'DVM', 'JD', 'LLB', 'LLM', 'Esq', 'QC', 'KC', 'MBA',
+  'EMBA', 'PGDM', 'MA', 'MSc', 'MPhil', 'MEng', 'MTech', 'BTech', 'BE', 'BA', 'BSc', 'BCom', 'MCom', 'CPA',
+  'CA', 'ACA', 'FCA', 'ACCA', 'FCCA', 'CMA', 'CS', 'CFA', 'CFP', 'FRM', 'PMP', 'CISSP', 'CISA', 'CISM', 'PE',
+  'CEng', 'RA', 'AIA', 'SPHR', 'PHR', 'OBE', 'MBE', 'CBE', 'KBE',
+];
+const CREDENTIAL_KEYS = new Map(CREDENTIALS.map(credential => [credential.toLowerCase(), credential]));
+
+// Particles that belong to the family name: "van Beethoven", "de la Cruz", "Al Maktoum"
+const FAMILY_PARTICLES = new Set([
+  'van', 'von', 'der', 'den', 'de', 'del', 'della', 'di', 'da', 'das', 'dos', 'du', 'la', 'le', 'ter', 'ten',
+  'al', 'el', 'bin', 'ibn', 'bint', 'ben',
+]);
+
+// First halves of Arabic given names written as two words, such as "Abdul Rahman"
+const COMPOUND_GIVEN = new Set(['abdul', 'abd', 'abdel', 'abdal', 'abu']);
+
+// Common Japanese family names that are not also Western given names, so a romanised
+// "Yamada Taro" can be read family name first. Other romanised family-first names are
+// read given name first and have to be corrected by hand.
+const JAPANESE_FAMILY_NAMES = new Set([
+  'sato', 'suzuki', 'takahashi', 'tanaka', 'watanabe', 'ito', 'yamamoto', 'nakamura', 'kobayashi', 'kato',
+  'yoshida', 'yamada', 'sasaki', 'yamaguchi', 'matsumoto', 'inoue', 'kimura', 'hayashi', 'shimizu', 'yamazaki',
+  'ikeda', 'hashimoto', 'yamashita', 'ishikawa', 'nakajima', 'maeda', 'fujita', 'ogawa', 'goto', 'okada',
+  'hasegawa', 'murakami', 'kondo', 'ishii', 'saito', 'sakamoto', 'endo', 'aoki', 'fujii', 'nishimura',
+  'fukuda', 'miura', 'fujiwara', 'okamoto', 'matsuda', 'nakagawa', 'nakano', 'harada', 'tamura', 'takeuchi',
+  'kaneko', 'wada', 'nakayama', 'ishida', 'ueda', 'morita', 'shibata', 'sakai', 'kudo', 'yokoyama',
+  'miyazaki', 'miyamoto', 'uchida', 'takagi', 'ando', 'taniguchi', 'maruyama', 'imai', 'fujimoto', 'takeda',
+  'murata', 'ueno', 'sugiyama', 'masuda', 'hirano', 'otsuka', 'kubo', 'matsui', 'iwasaki', 'sakurai',
+  'kinoshita', 'noguchi', 'matsuo', 'kikuchi', 'nomura',
+]);
+
+// Two-character Chinese family names; other Chinese and Korean family names are one character
+const COMPOUND_CJK_FAMILY = ['欧阳', '司马', '上官', '诸葛', '东方', '皇甫', '尉迟', '公孙', '慕容', '令狐', '南宫', '夏侯'];
+
+const keyOf = (token: string): string => token.replace(/\./g, '').toLowerCase();
+
+const isInitial = (token: string): boolean => /^\p{Lu}\.?$/u.test(token) || /^(\p{Lu}\.){2,}$/u.test(token);
+
+const isAllCaps = (text: string): boolean => /\p{Lu}/u.test(text) && text === text.toUpperCase();
+
+const credentialOf = (token: string, allCaps: boolean): string | undefined => {
+  const bare = token.replace(/\./g, '');
+  const credential = CREDENTIAL_KEYS.get(bare.toLowerCase());
+  if (!credential) return undefined;
+  // Short credentials are also names ("Ma", "Pa"), so only trust their usual spelling
+  if (bare === credential || bare === credential.toUpperCase()) {
+    return allCaps && credential.length < 3 ? undefined : credential;
+  }
+  return undefined;
+};
+
+const isSuffix = (token: string): boolean => GENERATIONAL_SUFFIXES.has(keyOf(token));
+
+// Names in Han or Hangul written without spaces: the family name comes first and is
+// one character, or two for compound Chinese names and four-character Japanese names
+const splitCjkName = (name: string): Pick<PersonName, 'given' | 'family'> => {
+  const compound = COMPOUND_CJK_FAMILY.find(family => name.startsWith(family));
+  const familyLength = compound ? compound.length : /^\p{Script=Han}{4}$/u.test(name) ? 2 : 1;
+  return { family: name.slice(0, familyLength), given: name.slice(familyLength) };
+};
+
+// Split a name as printed on a card into its parts. Recognizes honorifics, post-nominal
+// credentials, family-name-first order (CJK names, "YAMADA Taro", "Sharma, Anil" and
+// "Yamada Taro" for common Japanese family names), South Indian initials ("K. S. Ramesh")
+// and Arabic and European family name particles.
+export const parsePersonName = (name: string): PersonName => {
+  const parts: PersonName = { ...EMPTY_PERSON_NAME };
+  const allCaps = isAllCaps(name);
+  const credentials: string[] = [];
+  const suffixes: string[] = [];
+
+  // Everything after the first comma is credentials and suffixes, unless it is the
+  // given name of a "Family, Given" name. After a comma short credentials are trusted
+  // even in all-caps names, as in "ROBERT JOHNSON, MD".
+  const [main, ...rest] = name.split(',').map(segment => segment.trim()).filter(Boolean);
+  if (!main) return parts;
+  let familyFirst = false;
+  let tokens = main.split(/\s+/);
+  rest.forEach(segment => {
+    const segmentTokens = segment.split(/\s+/);
+    if (segmentTokens.every(token => isSuffix(token) || credentialOf(token, false))) {
+      segmentTokens.forEach(token =>
+        isSuffix(token) ? suffixes.push(token) : credentials.push(credentialOf(token, false) as string)
+      );
+    } else if (!familyFirst) {
+      familyFirst = true;
+      tokens = [...tokens, ...segmentTokens];
+    }
+  });
+
+  const prefixes: string[] = [];
+  while (tokens.length > 1 && (PREFIXES.has(keyOf(tokens[0])) || (keyOf(tokens[0]) === 'sr' && tokens.length > 2))) {
+    prefixes.push(tokens.shift() as string);
+  }
+  const trailing: string[] = [];
+  while (tokens.length > 1) {
+    const last = tokens[tokens.length - 1];
+    if (isSuffix(last)) {
+      trailing.unshift(last);
+    } else if (credentialOf(last, allCaps)) {
+      trailing.unshift(credentialOf(last, allCaps) as string);
+    } else {
+      break;
+    }
+    tokens.pop();
+  }
+  suffixes.unshift(...trailing.filter(isSuffix));
+  credentials.unshift(...trailing.filter(token => !isSuffix(token)));
+  parts.prefix = prefixes.join(' ');
+  parts.suffix = suffixes.join(' ');
+  parts.credentials = credentials.join(', ');
+
+  if (tokens.length === 1) {
+    if (/^[\p{Script=Han}\p{Script=Hangul}]{2,}$/u.test(tokens[0])) {
+      return { ...parts, ...splitCjkName(tokens[0]) };
+    }
+    return { ...parts, given: tokens[0] };
+  }
+
+  // "YAMADA Taro" and "Yamada, Taro" put the family name first, and so do CJK names with a
+  // space and "Yamada Taro", where only the first word is a known Japanese family name
+  const familyInCaps = !allCaps && isAllCaps(tokens[0]) && tokens[0].replace(/\./g, '').length > 1;
+  const japaneseFamilyFirst =
+    tokens.length === 2 && JAPANESE_FAMILY_NAMES.has(keyOf(tokens[0])) && !JAPANESE_FAMILY_NAMES.has(keyOf(tokens[1]));
+  if (familyFirst || familyInCaps || japaneseFamilyFirst || /^[\p{Script=Han}\p{Script=Hangul}]+$/u.test(tokens[0])) {
+    return { ...parts, family: tokens[0], given: tokens[1], middle: tokens.slice(2).join(' ') };
+  }
+
+  // South Indian initials stand for the family or father's name: "K. S. Ramesh", "Ramesh K."
+  const lastIsName = !isInitial(tokens[tokens.length - 1]);
+  if (lastIsName && tokens.slice(0, -1).every(isInitial)) {
+    return { ...parts, given: tokens[tokens.length - 1], family: tokens.slice(0, -1).join(' ') };
+  }
+  if (!isInitial(tokens[0]) && tokens.slice(1).every(isInitial)) {
+    return { ...parts, given: tokens[0], family: tokens.slice(1).join(' ') };
+  }
+
+  let familyStart = tokens.length - 1;
+  while (familyStart > 1 && FAMILY_PARTICLES.has(keyOf(tokens[familyStart - 1]))) {
+    familyStart--;
+  }
+  const givenLength = COMPOUND_GIVEN.has(keyOf(tokens[0])) && familyStart >= 2 ? 2 : 1;
+  return {
+    ...parts,
+    given: tokens.slice(0, givenLength).join(' '),
+    middle: tokens.slice(givenLength, familyStart).join(' '),
+    family: tokens.slice(familyStart).join(' '),
+  };
+};
+
+// The words of a card line read as a person's name, as printed and without honorifics, suffixes and
+// credentials. Undefined when the line has dots or commas that names are not printed
+// with: names only have them after honorifics and initials, before credentials
+// ("Dr. K. S. Ramesh, PhD") and after a family name in capitals ("YAMADA, Taro").
+export const nameLineWords = (line: string): string[] | undefined => {
+  const [main, ...rest] = line.split(',').map(segment => segment.trim());
+  if (!main) return undefined;
+  const tokens = main.split(/\s+/);
+  const allCaps = isAllCaps(line);
+  const commasFit = rest.every((segment, index) => {
+    const segmentTokens = segment.split(/\s+/).filter(Boolean);
+    if (segmentTokens.length === 0) return false;
+    if (segmentTokens.every(token => isSuffix(token) || credentialOf(token, false))) return true;
+    return index === 0 && tokens.length === 1 && isAllCaps(tokens[0]) && segmentTokens.every(token => /^\p{Lu}/u.test(token));
+  });
+  const dotsFit = tokens.every(token =>
+    !token.includes('.') || PREFIXES.has(keyOf(token)) || isInitial(token) || isSuffix(token) || credentialOf(token, allCaps)
+  );
+  if (!commasFit || !dotsFit) return undefined;
+
+  // In the order they are printed, so "K. S. Ramesh" can be compared with ks.ramesh
+  const parts = parsePersonName(line);
+  const nameWords = new Set([parts.given, parts.middle, parts.family].join(' ').split(/\s+/).filter(Boolean));
+  return line.split(/[\s,]+/).filter(token => nameWords.has(token));
+};
+
+const isCjkName = (text: string): boolean => /^[\p{Script=Han}\p{Script=Hangul}]+$/u.test(text);
+
+// Whether a name is written family name first, judged by where the parts sit in it
+const writesFamilyFirst = (name: string, parts: PersonName): boolean => {
+  const familyAt = parts.family ? name.indexOf(parts.family) : -1;
+  const givenAt = parts.given ? name.indexOf(parts.given) : -1;
+  if (familyAt !== -1 && givenAt !== -1) return familyAt < givenAt;
+  return isCjkName(parts.family + parts.given);
+};
+
+// Write parts back as a name, in the order and spacing of the name they were split from
+export const formatPersonName = (parts: PersonName, printedName: string = ''): string => {
+  const familyFirst = writesFamilyFirst(printedName, parts);
+  const core = familyFirst ? [parts.family, parts.given, parts.middle] : [parts.given, parts.middle, parts.family];
+  const separator = isCjkName(core.join('')) && printedName && !/\s/.test(printedName) ? '' : ' ';
+  const name = [parts.prefix, core.filter(Boolean).join(separator), parts.suffix].filter(Boolean).join(' ');
+  return [name, parts.credentials].filter(Boolean).join(', ');
+};
+
+// The card's name parts, split from the name for cards scanned before parts were stored
+export const getNameParts = (card: Pick<CardData, 'name' | 'nameParts'>): PersonName =>
+  card.nameParts ?? (card.name ? parsePersonName(card.name) : { ...EMPTY_PERSON_NAME });
+
+// Updates that set the name and the parts split from it
+export const setNameText = (name: string): Pick<CardData, 'name' | 'nameParts'> => ({
+  name,
+  nameParts: name ? parsePersonName(name) : { ...EMPTY_PERSON_NAME },
+});
+
+// Updates that set edited name parts and the name written from them
+export const setNameParts = (parts: PersonName, printedName: string = ''): Pick<CardData, 'name' | 'nameParts'> => ({
+  name: formatPersonName(parts, printedName),
+  nameParts: { ...parts },
+});
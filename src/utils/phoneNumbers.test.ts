@@ -0,0 +1,74 @@
+import { formatPhoneNumber, inferPhoneCountry, normalizePhoneList } from './phoneNumbers';
+import { parseCardData } from './cardParser';
+
+describe('Phone number normalization', () => {
+  test('infers the country from the address, then the domain, then the default', () => {
+    expect(inferPhoneCountry({ address: '12 Queen St, Belfast, Northern Ireland', email: 'a@acme.ie' })).toBe('GB');
+    expect(inferPhoneCountry({ address: '5 Main Rd, Pune', email: 'priya@example.co.in' }, 'US')).toBe('IN');
+    expect(inferPhoneCountry({ email: 'dev@startup.io', website: 'www.startup.io' }, 'DE')).toBe('DE');
+  });
+
+  test('stores local numbers in E.164 and flags invalid ones', () => {
+    const result = parseCardData(`Priya Sharma
+Manager
+Tel: 022 2345 6789
+Mob: 98201 23456
+priya@example.co.in`);
+
+    expect(result.phone).toBe('+912223456789');
+    expect(result.phones).toEqual([
+      { value: '+912223456789', type: 'work' },
+      { value: '+919820123456', type: 'mobile' },
+    ]);
+
+    expect(
+      normalizePhoneList(
+        [
+          { value: '+1 212 055 0100', type: 'work' },
+          { value: '+1 212-555-0100', type: 'main' },
+          { value: '(212) 555 0100', type: 'work' },
+        ],
+        'US'
+      )
+    ).toEqual([
+      { value: '+12125550100', type: 'main' },
+      { value: '+12120550100', type: 'work', invalid: true },
+    ]);
+  });
+
+  test('drops postal codes and other numbers that cannot be phone numbers', () => {
+    expect(normalizePhoneList([{ value: '400069', type: 'work' }], 'IN')).toEqual([]);
+    expect(normalizePhoneList([{ value: '62701', type: 'work' }, { value: '555 0100', type: 'work' }], 'US')).toEqual([]);
+
+    const mumbai = parseCardData(`Priya Sharma
+Manager
+Plot 12, Andheri East, Mumbai, Maharashtra 400069
+Mob: 98201 23456
+priya@example.co.in`);
+    expect(mumbai.phones).toEqual([{ value: '+919820123456', type: 'mobile' }]);
+
+    const springfield = parseCardData(`John Smith
+Sales Manager
+123 Main St, Springfield, IL 62701
+(217) 555-0100
+john@acme.com`);
+    expect(springfield.phone).toBe('+12175550100');
+    expect(springfield.phones).toEqual([{ value: '+12175550100', type: 'work' }]);
+  });
+
+  test('recognises phone lines that print the number with spaces', () => {
+    const result = parseCardData(`Anil Kumar
+Sales Manager Mob: +91 98200 12345
+Regional Manager
+anil@example.co.in`);
+
+    expect(result.designation).toBe('Regional Manager');
+    expect(result.phones).toEqual([{ value: '+919820012345', type: 'mobile' }]);
+  });
+
+  test('formats stored numbers for display', () => {
+    expect(formatPhoneNumber('+442071234567', 'international')).toBe('+44 20 7123 4567');
+    expect(formatPhoneNumber('+442071234567', 'national')).toBe('020 7123 4567');
+    expect(formatPhoneNumber('5550100', 'national')).toBe('5550100');
+  });
+});
@@ -0,0 +1,120 @@
+import { getCountries, isSupportedCountry, parsePhoneNumberFromString, type CountryCode } from 'libphonenumber-js/max';
+import { findCountryInText } from './countries';
+import { getContactList, setContactList, type ContactValue } from './contactValues';
+import type { CardData } from './ocrProcessor';
+
+export type { CountryCode };
+
+export type PhoneDisplayFormat = 'international' | 'national';
+
+export interface PhoneSettings {
+  defaultCountry: CountryCode | ''; // Empty means the browser's region
+  display: PhoneDisplayFormat;
+}
+
+export const DEFAULT_PHONE_SETTINGS: PhoneSettings = {
+  defaultCountry: '',
+  display: 'international',
+};
+
+export const PHONE_COUNTRIES: CountryCode[] = getCountries();
+
+// ccTLDs that are mostly registered for their look rather than by businesses in the country
+const VANITY_TLDS = ['ai', 'am', 'cc', 'co', 'fm', 'gg', 'io', 'la', 'ly', 'me', 'nu', 'sh', 'so', 'tk', 'to', 'tv', 'ws'];
+
+// Country of a domain's top-level domain, e.g. example.co.uk -> GB
+export const countryFromDomain = (domain: string): CountryCode | undefined => {
+  const tld = domain.toLowerCase().replace(/[/?#].*$/, '').split('.').pop() || '';
+  if (tld.length !== 2 || VANITY_TLDS.includes(tld)) return undefined;
+  const code = tld === 'uk' ? 'GB' : tld.toUpperCase();
+  return isSupportedCountry(code) ? code : undefined;
+};
+
+// Region of a locale such as en-IN, for when the user has not picked a default country
+export const countryFromLocale = (locale: string | undefined = globalThis.navigator?.language): CountryCode | undefined => {
+  const region = locale?.split(/[-_]/)[1]?.toUpperCase();
+  return region && isSupportedCountry(region) ? region : undefined;
+};
+
+export const resolveDefaultCountry = (settings: PhoneSettings): CountryCode | undefined =>
+  settings.defaultCountry || countryFromLocale();
+
+// Country to read numbers without a country code in: the one named in the address,
+// then the one of the website or email domain, then the user's default
+export const inferPhoneCountry = (
+  card: Partial<Pick<CardData, 'address' | 'addressParts' | 'email' | 'website' | 'emails' | 'websites'>>,
+  defaultCountry?: CountryCode
+): CountryCode | undefined => {
+  const domains = [
+    ...getContactList(card, 'website').map(entry => entry.value.replace(/^(https?:\/\/)?(www\.)?/i, '')),
+    ...getContactList(card, 'email').map(entry => entry.value.split('@')[1] || ''),
+  ];
+  return (
+    card.addressParts?.countryCode ||
+    (card.address && findCountryInText(card.address)) ||
+    domains.map(countryFromDomain).find(Boolean) ||
+    defaultCountry
+  );
+};
+
+// A number in E.164 form when it is valid, otherwise its digits flagged as invalid. Numbers
+// with a length no phone number in their country has, like postal codes, are not possible.
+export const normalizePhoneNumber = (
+  raw: string,
+  country?: CountryCode
+): { value: string; valid: boolean; possible: boolean } => {
+  const parsed = parsePhoneNumberFromString(raw, country);
+  if (parsed?.isValid()) {
+    return { value: parsed.number, valid: true, possible: true };
+  }
+  // Without a country code or a country to read the number in, its length cannot be checked
+  const possible = parsed ? parsed.isPossible() : !country && !raw.trim().startsWith('+');
+  const value = raw.trim().startsWith('+') ? `+${raw.replace(/\D/g, '')}` : raw.replace(/\D/g, '');
+  return { value, valid: false, possible };
+};
+
+// Normalize a phone list, dropping numbers that cannot be phone numbers or turn out to be
+// the same, and putting valid numbers first
+export const normalizePhoneList = (list: ContactValue[], country?: CountryCode): ContactValue[] => {
+  const seen = new Set<string>();
+  const normalized: ContactValue[] = [];
+  list.forEach(entry => {
+    const { value, valid, possible } = normalizePhoneNumber(entry.value, country);
+    if (!value || !possible || seen.has(value)) return;
+    seen.add(value);
+    normalized.push(valid ? { value, type: entry.type } : { value, type: entry.type, invalid: true });
+  });
+  return [...normalized.filter(entry => !entry.invalid), ...normalized.filter(entry => entry.invalid)];
+};
+
+// Updates that normalize a card's phone numbers in the country inferred for it
+export const normalizeCardPhones = (card: Partial<CardData>, defaultCountry?: CountryCode): Partial<CardData> =>
+  setContactList('phone', normalizePhoneList(getContactList(card, 'phone'), inferPhoneCountry(card, defaultCountry)));
+
+export const formatPhoneNumber = (value: string, display: PhoneDisplayFormat): string => {
+  const parsed = parsePhoneNumberFromString(value);
+  if (!parsed?.isValid()) return value;
+  return display === 'national' ? parsed.formatNational() : parsed.formatInternational();
+};
+
+const PHONE_SETTINGS_KEY = 'bcs_phone_settings';
+
+export const loadPhoneSettings = (): PhoneSettings => {
+  try {
+    const stored = localStorage.getItem(PHONE_SETTINGS_KEY);
+    if (stored) {
+      return { ...DEFAULT_PHONE_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Failed to read phone settings:', error);
+  }
+  return { ...DEFAULT_PHONE_SETTINGS };
+};
+
+export const savePhoneSettings = (settings: PhoneSettings): void => {
+  try {
+    localStorage.setItem(PHONE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save phone settings:', error);
+  }
+};
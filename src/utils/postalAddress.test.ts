@@ -0,0 +1,74 @@
+import { parseCardData } from './cardParser';
+import { formatPostalAddress, parsePostalAddress, setAddressParts } from './postalAddress';
+
+describe('Postal address parsing', () => {
+  test('splits US, Indian and UK addresses by their postal code formats', () => {
+    expect(parsePostalAddress('123 Main St, Suite 400, Springfield, IL 62701, USA')).toEqual({
+      street: '123 Main St, Suite 400',
+      city: 'Springfield',
+      region: 'IL',
+      postalCode: '62701',
+      country: 'United States',
+      countryCode: 'US',
+    });
+    expect(parsePostalAddress('Plot 12, Andheri East, Mumbai, Maharashtra 400069')).toEqual({
+      street: 'Plot 12, Andheri East',
+      city: 'Mumbai',
+      region: 'Maharashtra',
+      postalCode: '400069',
+      country: 'India',
+      countryCode: 'IN',
+    });
+    expect(parsePostalAddress('10 Downing Street, London SW1A 2AA')).toMatchObject({
+      street: '10 Downing Street',
+      city: 'London',
+      postalCode: 'SW1A 2AA',
+      countryCode: 'GB',
+    });
+  });
+
+  test('puts the postal code where the country writes it', () => {
+    const berlin = parsePostalAddress('Unter den Linden 1, 10117 Berlin, Germany');
+    expect(berlin).toMatchObject({ street: 'Unter den Linden 1', city: 'Berlin', region: '', postalCode: '10117' });
+    expect(formatPostalAddress(berlin)).toBe('Unter den Linden 1, 10117 Berlin, Germany');
+
+    const edited = setAddressParts({ ...berlin, street: 'Friedrichstraße 43', country: 'Deutschland' });
+    expect(edited.address).toBe('Friedrichstraße 43, 10117 Berlin, Deutschland');
+    expect(edited.addressParts?.countryCode).toBe('DE');
+  });
+
+  test('reads the parts of an address on a scanned card', () => {
+    const oneLine = parseCardData(`Priya Nair
+Account Director
+77 Elm Street, Suite 400, Springfield, MA 02110, USA
+priya.nair@elmworks.com`);
+    expect(oneLine.addressParts).toMatchObject({
+      street: '77 Elm Street, Suite 400',
+      city: 'Springfield',
+      region: 'MA',
+      postalCode: '02110',
+      countryCode: 'US',
+    });
+
+    const twoLines = parseCardData(`John Carter
+Sales Manager
+123 Business Street
+New York, NY 10001
+john.carter@example.com`);
+    expect(twoLines.address).toBe('123 Business Street, New York, NY 10001');
+    expect(twoLines.addressParts).toMatchObject({ street: '123 Business Street', city: 'New York', region: 'NY', postalCode: '10001' });
+  });
+
+  test('leaves the address empty on a card with only contact lines', () => {
+    const result = parseCardData(`Anil Kumar
+Regional Manager
+M: +91 98200 12345
+T: 022 2345 6789
+F: 022 2345 6790
+WhatsApp: +91 98200 12345
+linkedin.com/in/anilkumar
+anil.kumar@example.co.in`);
+    expect(result.address).toBe('');
+    expect(result.phones).toHaveLength(3);
+  });
+});
@@ -0,0 +1,299 @@
+import type { CountryCode } from 'libphonenumber-js/max';
+import { countryName, findCountryMatch, namePattern, type TextMatch } from './countries';
+import { GEO_DATA } from './geoData';
+import type { CardData } from './ocrProcessor';
+
+// An address split into the parts of a vCard ADR. `CardData.address` stays the
+// single-line text shown in the table; these are kept in step with it.
+export interface PostalAddress {
+  street: string;
+  city: string;
+  region: string; // State, province or county
+  postalCode: string;
+  country: string;
+  countryCode?: CountryCode;
+}
+
+export type PostalAddressPart = Exclude<keyof PostalAddress, 'countryCode'>;
+
+export const POSTAL_ADDRESS_PARTS: PostalAddressPart[] = ['street', 'city', 'region', 'postalCode', 'country'];
+
+export const POSTAL_ADDRESS_LABELS: Record<PostalAddressPart, string> = {
+  street: 'Street',
+  city: 'City',
+  region: 'State / region',
+  postalCode: 'Postal code',
+  country: 'Country',
+};
+
+export const EMPTY_POSTAL_ADDRESS: PostalAddress = { street: '', city: '', region: '', postalCode: '', country: '' };
+
+// Postal code formats of the countries we have geo data for and their neighbours
+const POSTAL_CODE_PATTERNS: Partial<Record<CountryCode, RegExp>> = {
+  US: /\b\d{5}(?:-\d{4})?\b/g,
+  CA: /\b[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d\b/g,
+  GB: /\b(?:GIR ?0AA|[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2})\b/g,
+  IE: /\b(?:[AC-FHKNPRTV-Y]\d{2}|D6W) ?[\dAC-FHKNPRTV-Y]{4}\b/g,
+  IN: /\b[1-9]\d{2} ?\d{3}\b/g, // PIN
+  AU: /\b\d{4}\b/g,
+  NZ: /\b\d{4}\b/g,
+  AT: /\b\d{4}\b/g,
+  BE: /\b\d{4}\b/g,
+  CH: /\b\d{4}\b/g,
+  DK: /\b\d{4}\b/g,
+  NO: /\b\d{4}\b/g,
+  ZA: /\b\d{4}\b/g,
+  LU: /\b(?:L-)?\d{4}\b/g,
+  NL: /\b[1-9]\d{3} ?[A-Z]{2}\b/g,
+  DE: /\b\d{5}\b/g,
+  FR: /\b\d{5}\b/g,
+  ES: /\b\d{5}\b/g,
+  IT: /\b\d{5}\b/g,
+  FI: /\b\d{5}\b/g,
+  GR: /\b\d{3} ?\d{2}\b/g,
+  CZ: /\b\d{3} ?\d{2}\b/g,
+  SE: /\b\d{3} ?\d{2}\b/g,
+  PL: /\b\d{2}-\d{3}\b/g,
+  PT: /\b\d{4}-\d{3}\b/g,
+  BR: /\b\d{5}-?\d{3}\b/g,
+  MX: /\b\d{5}\b/g,
+  SA: /\b\d{5}(?:-\d{4})?\b/g,
+  KR: /\b\d{5}\b/g,
+  MY: /\b\d{5}\b/g,
+  TR: /\b\d{5}\b/g,
+  SG: /\b\d{6}\b/g,
+  CN: /\b\d{6}\b/g,
+  RU: /\b\d{6}\b/g,
+  JP: /〒?\s?\b\d{3}-\d{4}\b/g,
+};
+
+// Formats that give the country away when nothing else names it. The first ones are
+// checked before place names; a six-digit code is only read as an Indian PIN and a bare
+// five-digit code is kept without a country when no place name settles it.
+const DISTINCTIVE_POSTAL_CODES: { country: CountryCode; pattern: RegExp }[] = [
+  { country: 'CA', pattern: POSTAL_CODE_PATTERNS.CA },
+  { country: 'GB', pattern: POSTAL_CODE_PATTERNS.GB },
+  { country: 'JP', pattern: POSTAL_CODE_PATTERNS.JP },
+  { country: 'PT', pattern: POSTAL_CODE_PATTERNS.PT },
+  { country: 'PL', pattern: POSTAL_CODE_PATTERNS.PL },
+  { country: 'US', pattern: /\b\d{5}-\d{4}\b/g },
+];
+
+const FALLBACK_POSTAL_CODES: { country?: CountryCode; pattern: RegExp }[] = [
+  { country: 'NL', pattern: POSTAL_CODE_PATTERNS.NL },
+  { country: 'IN', pattern: POSTAL_CODE_PATTERNS.IN },
+  { pattern: /\b\d{5}\b/g },
+];
+
+// Countries that write the postal code before the city, e.g. "10117 Berlin"
+const POSTAL_CODE_FIRST: CountryCode[] = [
+  'AT', 'BE', 'CH', 'CZ', 'DE', 'DK', 'ES', 'FI', 'FR', 'GR', 'IT', 'LU', 'NL', 'NO', 'PL', 'PT', 'SE',
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// State abbreviations such as "NY" or "IN" are also words, so they only count where a
+// state is written: before a postal code, or at the end of a part of the address
+const abbreviationPattern = (abbreviation: string): RegExp =>
+  new RegExp(`(?<=^|[\\s,])${escapeRegExp(abbreviation)}(?=\\s*(?:,|$|\\d|[A-Z]\\d))`, 'g');
+
+interface GeoMatch extends TextMatch<string> {
+  country: CountryCode;
+}
+
+const GEO_PATTERNS = Object.entries(GEO_DATA).map(([country, data]) => ({
+  country: country as CountryCode,
+  regions: data.regions.flatMap(region => [
+    { value: region.name, pattern: namePattern(region.name, 'gi') },
+    ...(region.abbreviation ? [{ value: region.abbreviation, pattern: abbreviationPattern(region.abbreviation) }] : []),
+  ]),
+  cities: data.cities.map(city => ({ value: city, pattern: namePattern(city, 'gi') })),
+}));
+
+// search() ignores the lastIndex of the shared global patterns
+const hasPostalCode = (text: string, country: CountryCode): boolean =>
+  !!POSTAL_CODE_PATTERNS[country] && text.search(POSTAL_CODE_PATTERNS[country]) !== -1;
+
+const overlaps = (a: TextMatch<unknown>, b: TextMatch<unknown> | undefined): boolean =>
+  !!b && a.index < b.index + b.length && b.index < a.index + a.length;
+
+const matchEnd = (match: TextMatch<unknown>): number => match.index + match.length;
+
+// The last of several matches in the text, preferring the longer one where two end together
+const isLater = (match: TextMatch<unknown>, than: TextMatch<unknown> | undefined): boolean =>
+  !than || matchEnd(match) > matchEnd(than) || (matchEnd(match) === matchEnd(than) && match.length > than.length);
+
+// Last region or city of the given kind named in the text, outside the parts already taken
+const findPlace = (
+  text: string,
+  kind: 'regions' | 'cities',
+  country: CountryCode | undefined,
+  taken: TextMatch<unknown>[]
+): GeoMatch | undefined => {
+  let found: GeoMatch | undefined;
+  GEO_PATTERNS.filter(geo => !country || geo.country === country).forEach(geo => {
+    geo[kind].forEach(place => {
+      for (const match of text.matchAll(place.pattern)) {
+        const candidate = { value: place.value, index: match.index ?? 0, length: match[0].length, country: geo.country };
+        if (taken.some(span => overlaps(candidate, span))) continue;
+        // Of places written the same way in several countries, keep the one whose postal code format fits
+        const fitsBetter =
+          found && matchEnd(candidate) === matchEnd(found) && candidate.length === found.length &&
+          !hasPostalCode(text, found.country) && hasPostalCode(text, candidate.country);
+        if (isLater(candidate, found) || fitsBetter) {
+          found = candidate;
+        }
+      }
+    });
+  });
+  return found;
+};
+
+const lastMatch = (text: string, pattern: RegExp, taken: TextMatch<unknown>[]): TextMatch<string> | undefined => {
+  let found: TextMatch<string> | undefined;
+  for (const match of text.matchAll(pattern)) {
+    const candidate = { value: match[0], index: match.index ?? 0, length: match[0].length };
+    if (!taken.some(span => overlaps(candidate, span))) {
+      found = candidate;
+    }
+  }
+  return found;
+};
+
+// Blank out the parts that were recognized so the rest of the text is left
+const blankOut = (text: string, spans: TextMatch<unknown>[]): string =>
+  spans.reduce(
+    (rest, span) => rest.slice(0, span.index) + ' '.repeat(span.length) + rest.slice(matchEnd(span)),
+    text
+  );
+
+const cleanSegment = (segment: string): string => segment.replace(/\s+/g, ' ').replace(/^[\s.;:\-–]+|[\s.;:\-–]+$/g, '');
+
+const splitSegments = (text: string): string[] => text.split(/[,\n]/);
+
+// Last match of the first postal code format found in the text
+const guessPostalCode = (
+  text: string,
+  guesses: { country?: CountryCode; pattern: RegExp }[],
+  taken: TextMatch<unknown>[]
+): { country?: CountryCode; match: TextMatch<string> } | undefined => {
+  for (const guess of guesses) {
+    const match = lastMatch(text, guess.pattern, taken);
+    if (match) return { country: guess.country, match };
+  }
+  return undefined;
+};
+
+// Whether the text is a postal code and nothing else, like the "100-0005" of "〒100-0005",
+// which would otherwise pass for a phone number
+export const isPostalCode = (text: string): boolean =>
+  [...DISTINCTIVE_POSTAL_CODES, ...FALLBACK_POSTAL_CODES].some(
+    ({ pattern }) => text.match(pattern)?.length === 1 && !text.replace(pattern, '').trim()
+  );
+
+// Whether a line of a card holds the locality of an address: a postal code or a country
+// next to place names, as in "New York, NY 10001" or "Bengaluru, India". Street lines
+// are read above it and a country line below it.
+export const isLocalityLine = (line: string): boolean =>
+  /\p{L}{2,}/u.test(line) &&
+  (!!findCountryMatch(line) ||
+    [...DISTINCTIVE_POSTAL_CODES, ...FALLBACK_POSTAL_CODES].some(({ pattern }) => line.search(pattern) !== -1));
+
+// Split a free-text address into its parts. The country comes from its name, then from a
+// postal code format only it uses, then from the last state or city named.
+export const parsePostalAddress = (address: string): PostalAddress => {
+  const text = address.replace(/\r/g, '');
+  const countryMatch = findCountryMatch(text);
+  let country = countryMatch?.value ?? guessPostalCode(text, DISTINCTIVE_POSTAL_CODES, [])?.country;
+  if (!country) {
+    const regionAnywhere = findPlace(text, 'regions', undefined, []);
+    const cityAnywhere = findPlace(text, 'cities', undefined, []);
+    country = (cityAnywhere && isLater(cityAnywhere, regionAnywhere) ? cityAnywhere : regionAnywhere)?.country;
+  }
+
+  const region = findPlace(text, 'regions', country, []);
+  const taken: TextMatch<unknown>[] = region ? [region] : [];
+  let postal: TextMatch<string> | undefined;
+  if (country) {
+    postal = POSTAL_CODE_PATTERNS[country] && lastMatch(text, POSTAL_CODE_PATTERNS[country], taken);
+  } else {
+    const guess = guessPostalCode(text, FALLBACK_POSTAL_CODES, taken);
+    postal = guess?.match;
+    country = guess?.country;
+  }
+  if (postal) taken.push(postal);
+
+  let city: TextMatch<string> | undefined = findPlace(text, 'cities', country, taken);
+  let regionName = region?.value ?? '';
+  if (city) {
+    taken.push(city);
+  } else if (region && GEO_DATA[region.country]?.cities.some(name => name.toLowerCase() === region.value.toLowerCase())) {
+    // City states and capitals such as Berlin, Delhi or Dubai
+    city = region;
+    regionName = '';
+  }
+
+  const spans = [...taken];
+  if (countryMatch && !spans.some(span => overlaps(countryMatch, span))) {
+    spans.push(countryMatch);
+  }
+  const segments = splitSegments(text);
+  const rest = splitSegments(blankOut(text, spans));
+
+  // A city we have no list entry for is usually what is left next to the postal code
+  // or state, e.g. "Springfield" in "Springfield, IL 62701"
+  const anchor = postal ?? region;
+  if (!city && anchor) {
+    let offset = 0;
+    const anchorSegment = segments.findIndex(segment => {
+      const end = offset + segment.length;
+      offset = end + 1;
+      return anchor.index < end;
+    });
+    const besideAnchor = cleanSegment(rest[anchorSegment] ?? '');
+    const beforeAnchor = cleanSegment(rest[anchorSegment - 1] ?? '');
+    const guess = besideAnchor || (anchorSegment > 0 && beforeAnchor);
+    if (guess && !/\d/.test(guess)) {
+      city = { value: guess, index: 0, length: 0 };
+      rest[besideAnchor ? anchorSegment : anchorSegment - 1] = '';
+    }
+  }
+
+  return {
+    street: rest.map(cleanSegment).filter(Boolean).join(', '),
+    city: city?.value.trim() ?? '',
+    region: regionName,
+    postalCode: postal?.value.replace(/^〒\s*/, '') ?? '',
+    country: country ? countryName(country) : '',
+    ...(country ? { countryCode: country } : {}),
+  };
+};
+
+// One-line form of an address in the order its country writes it
+export const formatPostalAddress = (parts: PostalAddress): string => {
+  const postalFirst = parts.countryCode && POSTAL_CODE_FIRST.includes(parts.countryCode);
+  const locality = postalFirst
+    ? [[parts.postalCode, parts.city].filter(Boolean).join(' '), parts.region]
+    : parts.region
+      ? [parts.city, `${parts.region} ${parts.postalCode}`]
+      : [`${parts.city} ${parts.postalCode}`];
+  return [parts.street, ...locality, parts.country].map(part => part.trim()).filter(Boolean).join(', ');
+};
+
+// The card's address parts, split from the text for cards scanned before parts existed
+export const getAddressParts = (card: Partial<CardData>): PostalAddress =>
+  card.addressParts ?? (card.address ? parsePostalAddress(card.address) : { ...EMPTY_POSTAL_ADDRESS });
+
+// Updates that set the address text and the parts split from it
+export const setAddressText = (address: string): Pick<CardData, 'address' | 'addressParts'> => ({
+  address,
+  addressParts: address ? parsePostalAddress(address) : { ...EMPTY_POSTAL_ADDRESS },
+});
+
+// Updates that set edited address parts and the text built from them
+export const setAddressParts = (parts: PostalAddress): Pick<CardData, 'address' | 'addressParts'> => {
+  const countryMatch = parts.country ? findCountryMatch(parts.country) : undefined;
+  const addressParts: PostalAddress = { ...parts, countryCode: countryMatch?.value };
+  if (!addressParts.countryCode) delete addressParts.countryCode;
+  return { address: formatPostalAddress(addressParts), addressParts };
+};
@@ -0,0 +1,114 @@
+import { normalizeExifOrientation } from './imageOrientation';
+import { dataUrlToRaster, rasterToBlob } from './imageUtils';
+import {
+  runPreprocessTask,
+  type PreprocessRequest,
+  type PreprocessResponse,
+  type PreprocessResults,
+  type PreprocessTask,
+  type RasterCodec,
+} from './preprocessing';
+
+// Runs preprocessing tasks in a dedicated worker so large batches don't freeze
+// the UI, or on the main thread where OffscreenCanvas is missing.
+
+export interface ImagePreprocessor {
+  run: <T extends PreprocessTask>(task: T) => Promise<PreprocessResults[T['type']]>;
+  usesWorker: () => boolean;
+  terminate: () => void;
+}
+
+interface PendingTask {
+  task: PreprocessTask;
+  resolve: (result: PreprocessResults[PreprocessTask['type']]) => void;
+  reject: (error: Error) => void;
+}
+
+// Main-thread codec for the fallback path
+const canvasCodec: RasterCodec = {
+  decode: async (imageData, maxDimension) => dataUrlToRaster(await normalizeExifOrientation(imageData), maxDimension),
+  encode: rasterToBlob,
+};
+
+export const supportsWorkerPreprocessing = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof OffscreenCanvas.prototype.convertToBlob === 'function' &&
+  typeof createImageBitmap === 'function';
+
+export const createImagePreprocessor = (): ImagePreprocessor => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingTask>();
+
+  const runOnMainThread = (task: PreprocessTask) => runPreprocessTask(task, canvasCodec);
+
+  // Stop using the worker and finish its outstanding tasks on the main thread
+  const fallBackToMainThread = (reason: unknown) => {
+    console.warn('Preprocessing worker failed, continuing on the main thread', reason);
+    worker?.terminate();
+    worker = null;
+    const tasks = [...pending.values()];
+    pending.clear();
+    tasks.forEach(({ task, resolve, reject }) => runOnMainThread(task).then(resolve, reject));
+  };
+
+  if (supportsWorkerPreprocessing()) {
+    try {
+      worker = new Worker(new URL('./preprocessWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+        const response = event.data;
+        const entry = pending.get(response.id);
+        if (!entry) return;
+        pending.delete(response.id);
+        if ('error' in response) {
+          entry.reject(new Error(response.error));
+        } else {
+          entry.resolve(response.result);
+        }
+      };
+      // Raised when the worker script fails to load, e.g. without module worker support
+      worker.onerror = (event) => {
+        event.preventDefault();
+        fallBackToMainThread(event.message);
+      };
+    } catch (error) {
+      console.warn('Could not start the preprocessing worker', error);
+      worker = null;
+    }
+  } else {
+    console.log('OffscreenCanvas not available, preprocessing on the main thread');
+  }
+
+  return {
+    run: <T extends PreprocessTask>(task: T) => {
+      if (!worker) {
+        return runOnMainThread(task) as Promise<PreprocessResults[T['type']]>;
+      }
+      const activeWorker = worker;
+      return new Promise<PreprocessResults[T['type']]>((resolve, reject) => {
+        const id = nextId++;
+        pending.set(id, { task, resolve: resolve as PendingTask['resolve'], reject });
+        const request: PreprocessRequest = { id, task };
+        activeWorker.postMessage(request);
+      });
+    },
+    usesWorker: () => worker !== null,
+    terminate: () => {
+      worker?.terminate();
+      worker = null;
+      pending.forEach(({ reject }) => reject(new Error('Preprocessor terminated')));
+      pending.clear();
+    },
+  };
+};
+
+let sharedPreprocessor: ImagePreprocessor | null = null;
+
+// The app-wide preprocessor, started on first use
+export const getImagePreprocessor = (): ImagePreprocessor => {
+  if (!sharedPreprocessor) {
+    sharedPreprocessor = createImagePreprocessor();
+  }
+  return sharedPreprocessor;
+};
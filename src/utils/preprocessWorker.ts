@@ -0,0 +1,64 @@
+import { dataUrlToBlob, type RasterImage } from './imageUtils';
+import {
+  runPreprocessTask,
+  type PreprocessRequest,
+  type PreprocessResponse,
+  type RasterCodec,
+} from './preprocessing';
+
+// Worker entry for image preprocessing and text parsing. Started by
+// preprocessClient, which runs the same tasks on the main thread when
+// this worker is not available.
+
+const getContext = (canvas: OffscreenCanvas): OffscreenCanvasRenderingContext2D => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('OffscreenCanvas 2D context not available');
+  }
+  return ctx;
+};
+
+const offscreenCodec: RasterCodec = {
+  decode: async (imageData: string, maxDimension?: number): Promise<RasterImage> => {
+    // Like <img>, createImageBitmap applies the EXIF orientation with 'from-image'
+    const bitmap = await createImageBitmap(await dataUrlToBlob(imageData), { imageOrientation: 'from-image' });
+    const scale = maxDimension ? Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height)) : 1;
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const ctx = getContext(new OffscreenCanvas(width, height));
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    return ctx.getImageData(0, 0, width, height);
+  },
+
+  encode: async (raster: RasterImage, type: string, quality?: number, maxWidth?: number): Promise<Blob> => {
+    const source = new OffscreenCanvas(raster.width, raster.height);
+    getContext(source).putImageData(new ImageData(new Uint8ClampedArray(raster.data), raster.width, raster.height), 0, 0);
+
+    let canvas = source;
+    const scale = maxWidth ? Math.min(1, maxWidth / raster.width) : 1;
+    if (scale < 1) {
+      canvas = new OffscreenCanvas(
+        Math.max(1, Math.floor(raster.width * scale)),
+        Math.max(1, Math.floor(raster.height * scale))
+      );
+      getContext(canvas).drawImage(source, 0, 0, canvas.width, canvas.height);
+    }
+    return canvas.convertToBlob({ type, quality });
+  },
+};
+
+// DedicatedWorkerGlobalScope is not part of the DOM lib this project compiles against
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (event: MessageEvent<PreprocessRequest>) => {
+  const { id, task } = event.data;
+  let response: PreprocessResponse;
+  try {
+    response = { id, result: await runPreprocessTask(task, offscreenCodec) };
+  } catch (error) {
+    response = { id, error: (error as Error).message || 'Preprocessing failed' };
+  }
+  scope.postMessage(response);
+};
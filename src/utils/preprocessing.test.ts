@@ -0,0 +1,45 @@
+import { createRaster, type RasterImage } from './imageUtils';
+import { runPreprocessTask, type PreprocessResults, type RasterCodec } from './preprocessing';
+
+// Codec that hands out a fixed raster and records the size of everything it encodes
+const fakeCodec = (raster: RasterImage, encoded: string[]): RasterCodec => ({
+  decode: async () => raster,
+  encode: async (image, type) => {
+    encoded.push(`${image.width}x${image.height}`);
+    return new Blob([], { type });
+  },
+});
+
+describe('runPreprocessTask', () => {
+  test('renders upright and upside-down previews for landscape images', async () => {
+    const encoded: string[] = [];
+    const result = await runPreprocessTask(
+      { type: 'rotationPreviews', imageData: 'data:image/jpeg;base64,', maxDimension: 800 },
+      fakeCodec(createRaster(40, 20), encoded)
+    ) as PreprocessResults['rotationPreviews'];
+
+    expect(result.previews.map(preview => preview.rotation)).toEqual([0, 180]);
+    expect(encoded).toEqual(['40x20', '40x20']);
+  });
+
+  test('tries both sideways rotations for portrait images', async () => {
+    const encoded: string[] = [];
+    const result = await runPreprocessTask(
+      { type: 'rotationPreviews', imageData: 'data:image/jpeg;base64,', maxDimension: 800 },
+      fakeCodec(createRaster(20, 40), encoded)
+    ) as PreprocessResults['rotationPreviews'];
+
+    expect(result.previews.map(preview => preview.rotation)).toEqual([0, 90, 270]);
+    expect(encoded).toEqual(['20x40', '40x20', '40x20']);
+  });
+
+  test('parses text without an image', async () => {
+    const result = await runPreprocessTask(
+      { type: 'parse', text: 'Jane Doe\njane@example.com' },
+      fakeCodec(createRaster(1, 1), [])
+    ) as PreprocessResults['parse'];
+
+    expect(result.email).toBe('jane@example.com');
+    expect(result.imageData).toBe('');
+  });
+});
@@ -0,0 +1,161 @@
+import { MAX_CROP_DIMENSION, cropToCard } from './cardDetection';
+import { parseCardData } from './cardParser';
+import type { CountryCode } from './phoneNumbers';
+import { enhanceRaster, type EnhancementDebugImage, type EnhancementOptions } from './imageEnhancement';
+import { rotateRightAngle } from './imageFilters';
+import { blobToDataUrl, dataUrlToBlob, type RasterImage } from './imageUtils';
+import { readQrCardData, type QrCardData } from './qrCode';
+import type { CardData } from './ocrProcessor';
+
+// The CPU-heavy steps between capture and OCR. They run in the preprocessing
+// worker when OffscreenCanvas is available and on the main thread otherwise,
+// so everything here goes through a RasterCodec instead of touching the DOM.
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Decoding and encoding need a canvas: a <canvas> element on the main thread, an OffscreenCanvas in the worker
+export interface RasterCodec {
+  // Decode to upright pixels (EXIF orientation applied), scaled down to fit maxDimension
+  decode: (imageData: string, maxDimension?: number) => Promise<RasterImage>;
+  // Encode, optionally scaling down to maxWidth
+  encode: (raster: RasterImage, type: string, quality?: number, maxWidth?: number) => Promise<Blob>;
+}
+
+export type PreprocessTask =
+  | { type: 'prepare'; imageData: string }
+  | { type: 'rotationPreviews'; imageData: string; maxDimension: number }
+  | { type: 'enhance'; imageData: string; rotation: Rotation; options: EnhancementOptions }
+  | { type: 'parse'; text: string; defaultCountry?: CountryCode };
+
+export type PreprocessTaskType = PreprocessTask['type'];
+
+export interface PreprocessResults {
+  prepare: { imageData: string }; // Upright, cropped to the card and sized for OCR
+  rotationPreviews: { previews: { rotation: Rotation; image: Blob }[] };
+  enhance: {
+    imageData: string; // Geometry-corrected colour image to keep on the card
+    ocrImage: Blob; // Filtered image to run OCR on
+    debugImages: EnhancementDebugImage[];
+    qr: QrCardData | null;
+  };
+  parse: Omit<CardData, 'id'>; // imageData is left empty
+}
+
+// Messages exchanged with the preprocessing worker
+export interface PreprocessRequest {
+  id: number;
+  task: PreprocessTask;
+}
+
+export type PreprocessResponse =
+  | { id: number; result: PreprocessResults[PreprocessTaskType] }
+  | { id: number; error: string };
+
+// Max width of the image OCR runs on, for performance
+const OCR_MAX_WIDTH = 1280;
+
+// Find the card in a photo, flatten its perspective, crop away the background
+// and resize for OCR, all from a single decode
+const prepareImage = async (imageData: string, codec: RasterCodec): Promise<PreprocessResults['prepare']> => {
+  if (!imageData.startsWith('data:image/')) {
+    console.warn('Invalid image data provided to prepare step');
+    return { imageData };
+  }
+
+  const raster = await codec.decode(imageData, MAX_CROP_DIMENSION);
+  let card = raster;
+  try {
+    const cropped = cropToCard(raster);
+    if (cropped) {
+      console.log(`Card detected and cropped to ${cropped.width}x${cropped.height}`);
+      card = cropped;
+    } else {
+      console.log('No card outline detected, using the full image');
+    }
+  } catch (cropError) {
+    console.warn('Card detection failed, using full image', cropError);
+  }
+
+  return { imageData: await blobToDataUrl(await codec.encode(card, 'image/jpeg', 0.85, OCR_MAX_WIDTH)) };
+};
+
+// Small copies of the image in each likely orientation, for scoring by OCR
+const renderRotationPreviews = async (
+  imageData: string,
+  maxDimension: number,
+  codec: RasterCodec
+): Promise<PreprocessResults['rotationPreviews']> => {
+  const raster = await codec.decode(imageData, maxDimension);
+  // Landscape cards are at most upside down; portrait images may be sideways or vertical cards
+  const rotations: Rotation[] = raster.height > raster.width ? [0, 90, 270] : [0, 180];
+  const previews: PreprocessResults['rotationPreviews']['previews'] = [];
+  for (const rotation of rotations) {
+    const rotated = rotation === 0 ? raster : rotateRightAngle(raster, rotation);
+    previews.push({ rotation, image: await codec.encode(rotated, 'image/jpeg', 0.85) });
+  }
+  return { previews };
+};
+
+// Rotate the card upright, run the enhancement filters and look for a QR code
+const enhanceImage = async (
+  imageData: string,
+  rotation: Rotation,
+  options: EnhancementOptions,
+  codec: RasterCodec
+): Promise<PreprocessResults['enhance']> => {
+  const decoded = await codec.decode(imageData);
+  const raster = rotation === 0 ? decoded : rotateRightAngle(decoded, rotation);
+  const result = enhanceRaster(raster, options);
+  console.log('Image enhancement:', { rotation, skewAngle: result.skewAngle, inverted: result.inverted });
+
+  const cardImageData = result.image === decoded
+    ? imageData
+    : await blobToDataUrl(await codec.encode(result.image, 'image/jpeg', 0.85));
+  const ocrImage = result.ocrImage === result.image
+    ? await dataUrlToBlob(cardImageData)
+    // PNG keeps thresholded text edges crisp
+    : await codec.encode(result.ocrImage, 'image/png');
+
+  // Look for a QR code on the filtered image first, then on the colour image.
+  // Both have the same geometry, so the QR location maps onto the card image.
+  let qr: QrCardData | null = null;
+  try {
+    for (const candidate of new Set([result.ocrImage, result.image])) {
+      qr = readQrCardData(candidate);
+      if (qr) {
+        console.log('QR code found on card:', qr.payload.slice(0, 40));
+        break;
+      }
+    }
+  } catch (qrError) {
+    console.warn('QR code decoding failed, using OCR only', qrError);
+  }
+
+  const debugImages: EnhancementDebugImage[] = [];
+  for (const step of result.steps) {
+    debugImages.push({
+      id: step.id,
+      label: step.label,
+      detail: step.detail,
+      imageData: await blobToDataUrl(await codec.encode(step.raster, 'image/jpeg', 0.8)),
+    });
+  }
+
+  return { imageData: cardImageData, ocrImage, debugImages, qr };
+};
+
+export const runPreprocessTask = async (
+  task: PreprocessTask,
+  codec: RasterCodec
+): Promise<PreprocessResults[PreprocessTaskType]> => {
+  switch (task.type) {
+    case 'prepare':
+      return prepareImage(task.imageData, codec);
+    case 'rotationPreviews':
+      return renderRotationPreviews(task.imageData, task.maxDimension, codec);
+    case 'enhance':
+      return enhanceImage(task.imageData, task.rotation, task.options, codec);
+    case 'parse':
+      return parseCardData(task.text, '', { defaultCountry: task.defaultCountry });
+  }
+};
@@ -0,0 +1,197 @@
+import { applyQrCardData, parseQrPayload } from './qrCode';
+import type { CardData } from './ocrProcessor';
+
+describe('QR code payloads', () => {
+  test('should parse a vCard payload', () => {
+    const payload = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Smith;John;;Dr.;',
+      'ORG:ABC Corporation;Research',
+      'TITLE:Senior Software Engineer',
+      'TEL;TYPE=WORK,VOICE:+1 555 123 4567',
+      'TEL;TYPE=CELL:+1 555 987 6543',
+      'EMAIL;TYPE=INTERNET:john.smith@abccorp.com',
+      'URL:https://www.abccorp.com',
+      'ADR;TYPE=WORK:;;123 Main St\\, Suite 400;New York;NY;10001;USA',
+      'END:VCARD',
+    ].join('\r\n');
+
+    expect(parseQrPayload(payload)).toEqual({
+      name: 'Dr. John Smith',
+      company: 'ABC Corporation',
+      designation: 'Senior Software Engineer',
+      phone: '+1 555 123 4567',
+      phones: [
+        { value: '+1 555 123 4567', type: 'work' },
+        { value: '+1 555 987 6543', type: 'mobile' },
+      ],
+      email: 'john.smith@abccorp.com',
+      emails: [{ value: 'john.smith@abccorp.com', type: 'work' }],
+      website: 'https://www.abccorp.com',
+      websites: [{ value: 'https://www.abccorp.com', type: 'work' }],
+      address: '123 Main St, Suite 400, New York, NY 10001, USA',
+      addressParts: {
+        street: '123 Main St, Suite 400',
+        city: 'New York',
+        region: 'NY',
+        postalCode: '10001',
+        country: 'USA',
+        countryCode: 'US',
+      },
+    });
+  });
+
+  test('should take the address parts of a vCard as they are', () => {
+    const payload = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Jane Doe',
+      'ADR;TYPE=WORK:;Haus B;Friedrichstraße 12\\nHinterhof;Berlin;;10117;Germany',
+      'END:VCARD',
+    ].join('\r\n');
+    const card: CardData = {
+      id: '1',
+      name: 'Jane Doe',
+      company: '',
+      designation: '',
+      email: '',
+      phone: '',
+      website: '',
+      address: 'Friedrichstr. 12 Berlin',
+      imageData: '',
+    };
+    const location = { x0: 0, y0: 0, x1: 10, y1: 10 };
+    const updated = applyQrCardData(card, { payload, fields: parseQrPayload(payload), location });
+
+    expect(updated.address).toBe('Friedrichstraße 12, Hinterhof, Haus B, 10117 Berlin, Germany');
+    expect(updated.addressParts).toEqual({
+      street: 'Friedrichstraße 12, Hinterhof, Haus B',
+      city: 'Berlin',
+      region: '',
+      postalCode: '10117',
+      country: 'Germany',
+      countryCode: 'DE',
+    });
+  });
+
+  test('should keep every number, email and website of a vCard with its type', () => {
+    const payload = [
+      'BEGIN:VCARD',
+      'VERSION:2.1',
+      'FN:Jane Doe',
+      'TEL;WORK;VOICE:+49 30 1234560',
+      'TEL;WORK;FAX:+49 30 1234569',
+      'TEL;CELL;PREF:+49 170 1234567',
+      'EMAIL;INTERNET;WORK:jane@acme.de',
+      'EMAIL;INTERNET;HOME:jane.doe@mail.de',
+      'URL;WORK:https://www.acme.de',
+      'END:VCARD',
+    ].join('\r\n');
+    const fields = parseQrPayload(payload);
+
+    expect(fields.phone).toBe('+49 170 1234567');
+    expect(fields.phones).toEqual([
+      { value: '+49 170 1234567', type: 'mobile' },
+      { value: '+49 30 1234560', type: 'work' },
+      { value: '+49 30 1234569', type: 'fax' },
+    ]);
+    expect(fields.emails).toEqual([
+      { value: 'jane@acme.de', type: 'work' },
+      { value: 'jane.doe@mail.de', type: 'other' },
+    ]);
+
+    const card: CardData = {
+      id: '1',
+      name: 'Jane Doe',
+      company: '',
+      designation: '',
+      email: 'jane@acme.de',
+      phone: '+49 170 l234567',
+      website: '',
+      address: '',
+      imageData: '',
+      phones: [
+        { value: '+49 170 l234567', type: 'mobile' },
+        { value: '+49 30 1234599', type: 'direct' },
+      ],
+    };
+    const updated = applyQrCardData(card, { payload, fields, location: { x0: 0, y0: 0, x1: 10, y1: 10 } });
+    // The misread first number gives way to the QR numbers; the direct line only OCR read stays
+    expect(updated.phones?.map(entry => entry.value)).toEqual([
+      '+49 170 1234567',
+      '+49 30 1234560',
+      '+49 30 1234569',
+      '+49 30 1234599',
+    ]);
+    expect(updated.emails).toEqual(fields.emails);
+  });
+
+  test('should parse a MeCard payload', () => {
+    expect(parseQrPayload('MECARD:N:Doe,Jane;TEL:+4930123456;EMAIL:jane@example.de;URL:http\\://example.de;;')).toEqual({
+      name: 'Jane Doe',
+      phone: '+4930123456',
+      phones: [{ value: '+4930123456', type: 'work' }],
+      email: 'jane@example.de',
+      emails: [{ value: 'jane@example.de', type: 'work' }],
+      website: 'http://example.de',
+      websites: [{ value: 'http://example.de', type: 'work' }],
+    });
+  });
+
+  test('should read profile links as social profiles and other URLs as the website', () => {
+    expect(parseQrPayload('https://www.linkedin.com/in/janedoe')).toEqual({
+      socialProfiles: [{ network: 'linkedin', handle: 'in/janedoe' }],
+    });
+    expect(parseQrPayload('https://www.acme.com')).toEqual({ website: 'https://www.acme.com' });
+    expect(parseQrPayload('some unrelated text')).toEqual({});
+
+    const vcard = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Jane Doe',
+      'URL:https://www.acme.com',
+      'URL:https://www.instagram.com/janedoe',
+      'X-SOCIALPROFILE;TYPE=linkedin:https://www.linkedin.com/in/janedoe',
+      'X-SOCIALPROFILE;type=twitter:janedoe',
+      'IMPP;X-SERVICE-TYPE=WeChat:x-apple:jane_doe',
+      'IMPP;X-SERVICE-TYPE=Skype:skype:jane.doe',
+      'END:VCARD',
+    ].join('\r\n');
+    expect(parseQrPayload(vcard)).toEqual({
+      name: 'Jane Doe',
+      website: 'https://www.acme.com',
+      websites: [{ value: 'https://www.acme.com', type: 'work' }],
+      socialProfiles: [
+        { network: 'instagram', handle: 'janedoe' },
+        { network: 'linkedin', handle: 'in/janedoe' },
+        { network: 'x', handle: 'janedoe' },
+        { network: 'wechat', handle: 'jane_doe' },
+        { network: 'skype', handle: 'jane.doe' },
+      ],
+    });
+  });
+
+  test('should let QR values replace OCR values', () => {
+    const card: CardData = {
+      id: '1',
+      name: 'J0hn Smlth',
+      company: '',
+      designation: '',
+      email: '',
+      phone: '+1 555 l23 4567',
+      website: '',
+      address: '',
+      imageData: '',
+      confidence: { name: 45, phone: 60 },
+    };
+    const location = { x0: 10, y0: 10, x1: 90, y1: 90 };
+    const updated = applyQrCardData(card, { payload: '', fields: { name: 'John Smith' }, location });
+
+    expect(updated.name).toBe('John Smith');
+    expect(updated.phone).toBe('+1 555 l23 4567');
+    expect(updated.qrFields).toEqual(['name']);
+    expect(updated.confidence).toEqual({ name: 100, phone: 60 });
+    expect(updated.sources?.name?.boxes).toEqual([location]);
+  });
+});
@@ -0,0 +1,335 @@
+import jsQR from 'jsqr';
+import { CARD_FIELDS, type CardField, type FieldConfidence, type FieldSources, type OcrBox } from './fieldConfidence';
+import type { RasterImage } from './imageUtils';
+import type { CardData } from './ocrProcessor';
+import {
+  CONTACT_FIELDS,
+  CONTACT_LIST_KEYS,
+  CONTACT_TYPES,
+  getContactList,
+  isContactField,
+  mergeContactLists,
+  setContactList,
+  setPrimaryContactValue,
+  type ContactField,
+  type ContactType,
+  type ContactValue,
+} from './contactValues';
+import { setAddressParts, setAddressText } from './postalAddress';
+import { setNameText } from './personName';
+import {
+  extractSocialProfiles,
+  isSocialProfileUrl,
+  mergeSocialProfiles,
+  readVcfSocialProfile,
+  type SocialProfile,
+} from './socialProfiles';
+
+// What a QR payload holds: card fields with every email, phone number and website, and the
+// social profiles linked from it
+export type QrFields = Partial<
+  Pick<CardData, CardField | 'addressParts' | 'emails' | 'phones' | 'websites' | 'socialProfiles'>
+>;
+
+// Card fields read from a QR code, with where the code sits in the image
+export interface QrCardData {
+  payload: string;
+  fields: QrFields;
+  location: OcrBox;
+}
+
+// Find and decode a QR code in the image. Returns null when there is none.
+export const decodeQrCode = (raster: RasterImage): { payload: string; location: OcrBox } | null => {
+  const code = jsQR(raster.data, raster.width, raster.height, { inversionAttempts: 'attemptBoth' });
+  if (!code || !code.data) return null;
+
+  const { topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner } = code.location;
+  const corners = [topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner];
+  return {
+    payload: code.data,
+    location: {
+      x0: Math.min(...corners.map(p => p.x)),
+      y0: Math.min(...corners.map(p => p.y)),
+      x1: Math.max(...corners.map(p => p.x)),
+      y1: Math.max(...corners.map(p => p.y)),
+    },
+  };
+};
+
+// Split on a separator that is not escaped with a backslash
+const splitUnescaped = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const unescapeValue = (value: string): string =>
+  value.replace(/\\([nN]|.)/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char)).trim();
+
+const decodeQuotedPrintable = (value: string): string => {
+  const bytes: number[] = [];
+  const text = value.replace(/=\r?\n/g, '');
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9A-F]{2}$/i.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+// Join the non-empty parts of a structured address or name
+const joinParts = (parts: string[], separator: string): string =>
+  parts.map(unescapeValue).filter(Boolean).join(separator);
+
+// Value of a property parameter such as TYPE=twitter
+const paramValue = (params: string[], key: string): string =>
+  params.find(param => param.toUpperCase().startsWith(`${key}=`))?.slice(key.length + 1) ?? '';
+
+type ContactLists = Record<ContactField, ContactValue[]>;
+
+// vCard types of a value, e.g. from "TYPE=WORK,VOICE", "type=cell;type=pref" or vCard 2.1's bare "CELL"
+const vcfTypes = (params: string[]): string[] =>
+  params.flatMap(param => param.replace(/^TYPE=/i, '').split(',')).map(type => type.trim().toUpperCase());
+
+// The first match wins, so a work fax is a fax and a work mobile is a mobile
+const VCF_CONTACT_TYPES: [string, ContactType][] = [
+  ['FAX', 'fax'],
+  ['CELL', 'mobile'],
+  ['MOBILE', 'mobile'],
+  ['IPHONE', 'mobile'],
+  ['MAIN', 'main'],
+  ['WORK', 'work'],
+  ['HOME', 'other'],
+];
+
+// Add a value to its list. A preferred value goes first, like the PREF number exported with the card.
+const addContactValue = (lists: ContactLists, field: ContactField, value: string, types: string[] = []) => {
+  const type = VCF_CONTACT_TYPES.find(([vcfType]) => types.includes(vcfType))?.[1] ?? 'work';
+  const entry = { value, type: CONTACT_TYPES[field].includes(type) ? type : 'work' };
+  if (types.some(type => type === 'PREF' || type.startsWith('PREF='))) {
+    lists[field].unshift(entry);
+  } else {
+    lists[field].push(entry);
+  }
+};
+
+// A URL is a website unless it links to a social profile
+const addUrl = (lists: ContactLists, profiles: SocialProfile[], url: string, types: string[] = []) => {
+  const linked = isSocialProfileUrl(url) ? extractSocialProfiles(url) : [];
+  if (linked.length > 0) {
+    profiles.push(...linked);
+  } else {
+    addContactValue(lists, 'website', url, types);
+  }
+};
+
+// Put the lists on the fields, each with its first value as the single field
+const setContactLists = (fields: QrFields, lists: ContactLists) => {
+  CONTACT_FIELDS.forEach(field => {
+    const list = mergeContactLists(field, lists[field], []);
+    if (list.length > 0) {
+      Object.assign(fields, setContactList(field, list));
+    }
+  });
+};
+
+export const parseVCard = (payload: string): QrFields => {
+  const fields: QrFields = {};
+  const lists: ContactLists = { email: [], phone: [], website: [] };
+  const profiles: SocialProfile[] = [];
+  // Continuation lines start with a space or tab
+  const lines = payload.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  let structuredName = '';
+
+  lines.forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon === -1) return;
+    const [property, ...params] = line.slice(0, colon).split(';');
+    const name = property.replace(/^item\d+\./i, '').toUpperCase();
+    let value = line.slice(colon + 1);
+    if (params.some(param => /ENCODING=QUOTED-PRINTABLE/i.test(param))) {
+      value = decodeQuotedPrintable(value);
+    }
+
+    // Every email, phone number and website is kept; of other properties the first value wins
+    switch (name) {
+      case 'FN':
+        fields.name = fields.name || unescapeValue(value);
+        break;
+      case 'N': {
+        const [last = '', first = '', middle = '', prefix = '', suffix = ''] = splitUnescaped(value, ';');
+        structuredName = structuredName || joinParts([prefix, first, middle, last, suffix], ' ');
+        break;
+      }
+      case 'ORG':
+        fields.company = fields.company || unescapeValue(splitUnescaped(value, ';')[0]);
+        break;
+      case 'TITLE':
+        fields.designation = fields.designation || unescapeValue(value);
+        break;
+      case 'EMAIL':
+        addContactValue(lists, 'email', unescapeValue(value), vcfTypes(params));
+        break;
+      case 'TEL':
+        addContactValue(lists, 'phone', unescapeValue(value.replace(/^tel:/i, '')), vcfTypes(params));
+        break;
+      case 'URL':
+        addUrl(lists, profiles, unescapeValue(value), vcfTypes(params));
+        break;
+      case 'X-SOCIALPROFILE':
+      case 'IMPP': {
+        const service = paramValue(params, name === 'IMPP' ? 'X-SERVICE-TYPE' : 'TYPE');
+        const profile = readVcfSocialProfile(service, unescapeValue(value));
+        if (profile) profiles.push(profile);
+        break;
+      }
+      case 'ADR': {
+        if (fields.address) break;
+        // PO box; extended; street; city; region; postal code; country. A part can span lines.
+        const [poBox = '', extended = '', street = '', city = '', region = '', postalCode = '', country = ''] =
+          splitUnescaped(value, ';').map(part => unescapeValue(part).replace(/\s*\n\s*/g, ', '));
+        const parts = { street: [street, extended, poBox].filter(Boolean).join(', '), city, region, postalCode, country };
+        if (Object.values(parts).some(Boolean)) {
+          Object.assign(fields, setAddressParts(parts));
+        }
+        break;
+      }
+    }
+  });
+
+  if (!fields.name && structuredName) {
+    fields.name = structuredName;
+  }
+  setContactLists(fields, lists);
+  if (profiles.length > 0) {
+    fields.socialProfiles = mergeSocialProfiles(profiles);
+  }
+  return fields;
+};
+
+export const parseMeCard = (payload: string): QrFields => {
+  const fields: QrFields = {};
+  const lists: ContactLists = { email: [], phone: [], website: [] };
+  const profiles: SocialProfile[] = [];
+  const body = payload.replace(/^MECARD:/i, '');
+
+  splitUnescaped(body, ';').forEach(entry => {
+    const colon = entry.indexOf(':');
+    if (colon === -1) return;
+    const key = entry.slice(0, colon).toUpperCase();
+    const value = entry.slice(colon + 1);
+
+    switch (key) {
+      case 'N': {
+        // "Last,First"
+        const [last = '', first = ''] = splitUnescaped(value, ',');
+        fields.name = fields.name || joinParts([first, last], ' ');
+        break;
+      }
+      case 'ORG':
+        fields.company = fields.company || unescapeValue(value);
+        break;
+      case 'TITLE':
+        fields.designation = fields.designation || unescapeValue(value);
+        break;
+      case 'EMAIL':
+        addContactValue(lists, 'email', unescapeValue(value));
+        break;
+      case 'TEL':
+        addContactValue(lists, 'phone', unescapeValue(value));
+        break;
+      case 'URL':
+        addUrl(lists, profiles, unescapeValue(value));
+        break;
+      case 'ADR':
+        fields.address = fields.address || joinParts(splitUnescaped(value, ','), ', ');
+        break;
+    }
+  });
+
+  setContactLists(fields, lists);
+  if (profiles.length > 0) {
+    fields.socialProfiles = mergeSocialProfiles(profiles);
+  }
+  return fields;
+};
+
+// Turn a QR payload into card fields. Unknown payloads give no fields.
+export const parseQrPayload = (payload: string): QrFields => {
+  const text = payload.trim();
+
+  if (/^BEGIN:VCARD/i.test(text)) return parseVCard(text);
+  if (/^MECARD:/i.test(text)) return parseMeCard(text);
+  if (/^mailto:/i.test(text)) return { email: decodeURIComponent(text.replace(/^mailto:/i, '').split('?')[0]) };
+  if (/^tel:/i.test(text)) return { phone: text.replace(/^tel:/i, '') };
+  // Profile links such as LinkedIn are the most common plain URL on cards
+  if (/^(https?:\/\/|www\.)\S+$/i.test(text)) {
+    const profiles = isSocialProfileUrl(text) ? extractSocialProfiles(text) : [];
+    return profiles.length > 0 ? { socialProfiles: profiles } : { website: text };
+  }
+
+  return {};
+};
+
+export const readQrCardData = (raster: RasterImage): QrCardData | null => {
+  const decoded = decodeQrCode(raster);
+  if (!decoded) return null;
+  return { ...decoded, fields: parseQrPayload(decoded.payload) };
+};
+
+// QR data is exact, so it replaces whatever OCR read for the same fields. Its profiles
+// are added to the ones OCR found.
+export const applyQrCardData = (card: CardData, qr: QrCardData): CardData => {
+  const qrFields = CARD_FIELDS.filter(field => qr.fields[field]);
+  const qrProfiles = qr.fields.socialProfiles || [];
+  if (qrFields.length === 0 && qrProfiles.length === 0) return card;
+
+  const confidence: FieldConfidence = { ...card.confidence };
+  const sources: FieldSources = { ...card.sources };
+  const updated: CardData = {
+    ...card,
+    confidence,
+    sources,
+    qrFields,
+    qrPayload: qr.payload,
+    socialProfiles: mergeSocialProfiles(qrProfiles, card.socialProfiles || []),
+  };
+  qrFields.forEach(field => {
+    if (isContactField(field)) {
+      // The QR values lead the list, the first in place of the value OCR read for it;
+      // other values OCR found stay in the list
+      const primary = setPrimaryContactValue(card, field, qr.fields[field] as string);
+      const qrList = qr.fields[CONTACT_LIST_KEYS[field]] || [];
+      Object.assign(updated, setContactList(field, mergeContactLists(field, qrList, getContactList(primary, field))));
+    } else if (field === 'name') {
+      Object.assign(updated, setNameText(qr.fields.name as string));
+    } else if (field === 'address') {
+      // A vCard gives the parts of its address, other payloads only the text
+      Object.assign(
+        updated,
+        qr.fields.addressParts ? setAddressParts(qr.fields.addressParts) : setAddressText(qr.fields.address as string)
+      );
+    } else {
+      updated[field] = qr.fields[field] as string;
+    }
+    confidence[field] = 100;
+    sources[field] = { side: 'front', boxes: [{ ...qr.location }] };
+  });
+  return updated;
+};
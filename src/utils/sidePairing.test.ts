@@ -0,0 +1,27 @@
+import { createSidePairer } from './sidePairing';
+
+describe('createSidePairer', () => {
+  test('pairs front and back by file order, not by the order the files are ready in', () => {
+    const cards: (string | null)[][] = [];
+    const pairer = createSidePairer(5, sides => cards.push(sides));
+
+    pairer.add(3, ['back-2']);
+    pairer.add(1, ['back-1']);
+    expect(cards).toEqual([]);
+
+    pairer.add(4, ['front-3']);
+    pairer.add(2, ['front-2']);
+    pairer.add(0, ['front-1']);
+    expect(cards).toEqual([['front-1', 'back-1'], ['front-2', 'back-2'], ['front-3']]);
+  });
+
+  test('keeps the place of images that were set aside and of files with several images', () => {
+    const cards: (string | null)[][] = [];
+    const pairer = createSidePairer(3, sides => cards.push(sides));
+
+    pairer.add(2, ['front-2', 'back-2']);
+    pairer.add(0, ['front-1']);
+    pairer.add(1, [null]);
+    expect(cards).toEqual([['front-1', null], ['front-2', 'back-2']]);
+  });
+});
@@ -0,0 +1,37 @@
+export interface SidePairer {
+  // Hand over the images read from the file at `index`: null for an image that was set aside,
+  // e.g. for poor quality, and none for a file that gave no images
+  add: (index: number, images: (string | null)[]) => void;
+}
+
+// Pairs the images of a two-sided batch by the order of its files, however long each file takes
+// to read and check: the first and second image are the front and back of one card, the third
+// and fourth of the next. `onCard` gets both sides, with null for a side that was set aside, or
+// only the front for the last image of an odd batch.
+export const createSidePairer = (fileCount: number, onCard: (sides: (string | null)[]) => void): SidePairer => {
+  const files: (string | null)[][] = [];
+  let nextFile = 0;
+  let front: string | null | undefined;
+
+  return {
+    add: (index, images) => {
+      files[index] = images;
+      // Hand on the files in order, up to the first one that is not ready yet
+      while (nextFile < fileCount && files[nextFile]) {
+        files[nextFile].forEach(image => {
+          if (front === undefined) {
+            front = image;
+          } else {
+            onCard([front, image]);
+            front = undefined;
+          }
+        });
+        nextFile++;
+      }
+      if (nextFile === fileCount && front !== undefined) {
+        onCard([front]);
+        front = undefined;
+      }
+    },
+  };
+};
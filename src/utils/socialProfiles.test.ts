@@ -0,0 +1,37 @@
+import { extractSocialProfiles, isSocialProfileUrl, normalizeSocialProfiles } from './socialProfiles';
+import { parseCardData } from './cardParser';
+
+describe('Social profile extraction', () => {
+  test('recognizes profile links, labelled handles and LinkedIn short forms', () => {
+    const profiles = extractSocialProfiles(`https://www.linkedin.com/in/JaneDoe
+Twitter: @jane_doe
+WhatsApp: +91 98201 23456
+Skype: jane.doe
+WeChat ID: jane_doe88
+jane@acme.com`);
+
+    expect(profiles).toEqual([
+      { network: 'linkedin', handle: 'in/janedoe' },
+      { network: 'x', handle: 'jane_doe' },
+      { network: 'whatsapp', handle: '+91 98201 23456' },
+      { network: 'skype', handle: 'jane.doe' },
+      { network: 'wechat', handle: 'jane_doe88' },
+    ]);
+    expect(extractSocialProfiles('in/ravi-kumar')).toEqual([{ network: 'linkedin', handle: 'in/ravi-kumar' }]);
+    expect(normalizeSocialProfiles([{ network: 'whatsapp', handle: '98201 23456' }], 'IN')).toEqual([
+      { network: 'whatsapp', handle: '+919820123456' },
+    ]);
+  });
+
+  test('keeps profile links out of the website', () => {
+    expect(isSocialProfileUrl('www.linkedin.com/in/janedoe')).toBe(true);
+    expect(isSocialProfileUrl('www.acme.com')).toBe(false);
+
+    const result = parseCardData(`Jane Doe
+jane@acme.com
+www.linkedin.com/in/janedoe
+www.acme.com`);
+    expect(result.website).toBe('www.acme.com');
+    expect(result.socialProfiles).toEqual([{ network: 'linkedin', handle: 'in/janedoe' }]);
+  });
+});
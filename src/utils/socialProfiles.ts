@@ -0,0 +1,143 @@
+import { normalizePhoneNumber, type CountryCode } from './phoneNumbers';
+
+export type SocialNetwork = 'linkedin' | 'x' | 'facebook' | 'instagram' | 'whatsapp' | 'skype' | 'wechat' | 'telegram';
+
+export interface SocialProfile {
+  network: SocialNetwork;
+  handle: string; // "in/janedoe" for LinkedIn, the E.164 number for WhatsApp, the bare name elsewhere
+}
+
+interface SocialNetworkInfo {
+  label: string;
+  // Profiles export as X-SOCIALPROFILE with this TYPE; messengers export as IMPP
+  profileType?: string;
+  url?: (handle: string) => string; // Link to open the profile or chat, when the network has one
+  impp?: (handle: string) => string;
+}
+
+export const SOCIAL_NETWORKS: Record<SocialNetwork, SocialNetworkInfo> = {
+  linkedin: { label: 'LinkedIn', profileType: 'linkedin', url: handle => `https://www.linkedin.com/${handle}` },
+  x: { label: 'X', profileType: 'twitter', url: handle => `https://x.com/${handle}` },
+  facebook: { label: 'Facebook', profileType: 'facebook', url: handle => `https://www.facebook.com/${handle}` },
+  instagram: { label: 'Instagram', profileType: 'instagram', url: handle => `https://www.instagram.com/${handle}` },
+  whatsapp: {
+    label: 'WhatsApp',
+    url: handle => `https://wa.me/${handle.replace(/\D/g, '')}`,
+    impp: handle => `https://wa.me/${handle.replace(/\D/g, '')}`,
+  },
+  skype: { label: 'Skype', url: handle => `skype:${handle}?chat`, impp: handle => `skype:${handle}` },
+  // WeChat IDs have no public link; x-apple: is what address books use for such services
+  wechat: { label: 'WeChat', impp: handle => `x-apple:${handle}` },
+  telegram: { label: 'Telegram', url: handle => `https://t.me/${handle}`, impp: handle => `https://t.me/${handle}` },
+};
+
+export const SOCIAL_NETWORK_ORDER = Object.keys(SOCIAL_NETWORKS) as SocialNetwork[];
+
+// Links to the profile pages of each network. The handle is the first group.
+const PROFILE_URL_PATTERNS: { network: SocialNetwork; pattern: RegExp; handle?: (match: RegExpMatchArray) => string }[] = [
+  {
+    network: 'linkedin',
+    pattern: /(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/(in|company|pub)\/([\w\-%.]+)/gi,
+    handle: match => `${match[1].toLowerCase()}/${match[2].replace(/\.$/, '').toLowerCase()}`,
+  },
+  { network: 'x', pattern: /(?:https?:\/\/)?(?:www\.)?(?:twitter|x)\.com\/@?(\w{1,15})\b/gi },
+  { network: 'facebook', pattern: /(?:https?:\/\/)?(?:www\.|m\.)?(?:facebook|fb)\.com\/([\w.-]+)/gi },
+  { network: 'instagram', pattern: /(?:https?:\/\/)?(?:www\.)?instagram\.com\/([\w.]+)/gi },
+  { network: 'whatsapp', pattern: /(?:https?:\/\/)?(?:wa\.me\/|(?:api\.)?whatsapp\.com\/send\?phone=)\+?(\d{7,15})/gi },
+  { network: 'telegram', pattern: /(?:https?:\/\/)?(?:t\.me|telegram\.me)\/(\w{5,32})/gi },
+  { network: 'skype', pattern: /\bskype:([\w.,:-]{3,32})(?:\?\w+)?/gi },
+];
+
+// A label followed by the handle, e.g. "LinkedIn: in/janedoe", "WhatsApp +91 98201 23456" or "微信: jane_doe"
+const LABEL_PATTERNS: { network: SocialNetwork; pattern: RegExp }[] = [
+  { network: 'linkedin', pattern: /\blinked\s?in\b\s*[:：|-]?\s*((?:in|company)\/[\w\-%.]+|[\w-]{3,100})/gi },
+  { network: 'x', pattern: /(?:\btwitter\b|(?<![\w.])x(?=\s*[:：]))\s*[:：|-]?\s*@?([A-Za-z_]\w{0,14})\b/gi },
+  { network: 'facebook', pattern: /\b(?:facebook|fb)\b\s*[:：|-]?\s*@?([\w.]{3,50})/gi },
+  { network: 'instagram', pattern: /\b(?:instagram|insta|ig)\b\s*[:：|-]?\s*@?([\w.]{2,30})/gi },
+  { network: 'whatsapp', pattern: /\bwhats\s?app\b\s*[:：|-]?\s*(\+?[\d\s().-]{7,20}\d)/gi },
+  { network: 'skype', pattern: /\bskype\b(?:\s*id)?\s*[:：|-]?\s*([\w.,:-]{3,32})/gi },
+  { network: 'wechat', pattern: /(?:\bwe\s?chat\b|微信)(?:\s*id)?\s*[:：|-]?\s*([a-zA-Z][\w-]{5,19})/gi },
+  { network: 'telegram', pattern: /\btelegram\b\s*[:：|-]?\s*@?(\w{5,32})/gi },
+];
+
+// LinkedIn's short form "in/janedoe" is printed without a label on many cards
+const LINKEDIN_SHORT_PATTERN = /(?<![\w./])(in\/[\w-]{3,100})/gi;
+
+// A bare @handle that is not part of an email address, usually next to an X logo
+const BARE_HANDLE_PATTERN = /(?<![\w.@])@(\w{1,15})\b(?![.@]\w)/g;
+
+const SOCIAL_DOMAINS = /(?:^|[/.])(?:linkedin\.com|twitter\.com|x\.com|facebook\.com|fb\.com|instagram\.com|wa\.me|whatsapp\.com|t\.me|telegram\.me)(?:[/?]|$)/i;
+
+// Whether a web address points at a social profile rather than the company's site
+export const isSocialProfileUrl = (url: string): boolean => SOCIAL_DOMAINS.test(url.replace(/^https?:\/\//i, ''));
+
+export const hasSocialProfile = (line: string): boolean => extractSocialProfiles(line).length > 0;
+
+const profileKey = (profile: SocialProfile): string =>
+  `${profile.network}:${profile.network === 'whatsapp' ? profile.handle.replace(/\D/g, '') : profile.handle.toLowerCase()}`;
+
+// Combine profile lists, dropping the same handle on the same network
+export const mergeSocialProfiles = (...lists: SocialProfile[][]): SocialProfile[] => {
+  const seen = new Set<string>();
+  return lists.flat().filter(profile => {
+    const key = profileKey(profile);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Every social profile and messaging handle in the card text, in the order of the networks
+export const extractSocialProfiles = (text: string): SocialProfile[] => {
+  const found: SocialProfile[] = [];
+  const add = (network: SocialNetwork, handle: string) => {
+    const cleaned = handle.trim().replace(/[.,;:]+$/, '');
+    if (cleaned) found.push({ network, handle: cleaned });
+  };
+
+  PROFILE_URL_PATTERNS.forEach(({ network, pattern, handle }) => {
+    for (const match of text.matchAll(pattern)) add(network, handle ? handle(match) : match[1]);
+  });
+  text.split('\n').forEach(line => {
+    // A line that already holds a link is not read again for labels
+    if (PROFILE_URL_PATTERNS.some(({ pattern }) => line.search(pattern) !== -1)) return;
+    let labelled = false;
+    LABEL_PATTERNS.forEach(({ network, pattern }) => {
+      for (const match of line.matchAll(pattern)) {
+        // "LinkedIn: janedoe" is a personal profile
+        add(network, network === 'linkedin' ? match[1].toLowerCase().replace(/^(?!in\/|company\/)/, 'in/') : match[1]);
+        labelled = true;
+      }
+    });
+    for (const match of line.matchAll(LINKEDIN_SHORT_PATTERN)) add('linkedin', match[1].toLowerCase());
+    if (!labelled) {
+      for (const match of line.matchAll(BARE_HANDLE_PATTERN)) add('x', match[1]);
+    }
+  });
+
+  const profiles = mergeSocialProfiles(found);
+  return SOCIAL_NETWORK_ORDER.flatMap(network => profiles.filter(profile => profile.network === network));
+};
+
+// WhatsApp numbers in E.164 form, read in the card's country when printed without a country code
+export const normalizeSocialProfiles = (profiles: SocialProfile[], country?: CountryCode): SocialProfile[] =>
+  mergeSocialProfiles(
+    profiles.map(profile =>
+      profile.network === 'whatsapp' ? { ...profile, handle: normalizePhoneNumber(profile.handle, country).value } : profile
+    )
+  );
+
+// A profile from a vCard: X-SOCIALPROFILE with the network as its TYPE, or IMPP with the
+// X-SERVICE-TYPE, e.g. "twitter" and "https://twitter.com/janedoe" or "WeChat" and "x-apple:jane_doe"
+export const readVcfSocialProfile = (service: string, value: string): SocialProfile | undefined => {
+  const [linked] = /^(?:[a-z][\w+.-]*:|www\.)/i.test(value) ? extractSocialProfiles(value) : [];
+  if (linked) return linked;
+  const key = service.toLowerCase();
+  const network = SOCIAL_NETWORK_ORDER.find(
+    network => network === key || SOCIAL_NETWORKS[network].profileType === key || SOCIAL_NETWORKS[network].label.toLowerCase() === key
+  );
+  const handle = value.replace(/^[a-z][\w+.-]*:/i, '').replace(/^@/, '').trim();
+  return network && handle ? { network, handle } : undefined;
+};
+
+export const socialProfileUrl = (profile: SocialProfile): string | undefined => SOCIAL_NETWORKS[profile.network].url?.(profile.handle);
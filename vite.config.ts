@@ -1,6 +1,8 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { VitePWA } from "vite-plugin-pwa";
+import { viteStaticCopy } from "vite-plugin-static-copy";
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -14,7 +16,56 @@ export default defineConfig({
       "Cross-Origin-Resource-Policy": "cross-origin"
     }
   },
-  plugins: [react()],
+  plugins: [
+    react(),
+    // Serve the OCR engine and the bundled language data from the app instead of the CDN
+    viteStaticCopy({
+      targets: [
+        { src: "node_modules/tesseract.js/dist/worker.min.js", dest: "tesseract" },
+        { src: "node_modules/tesseract.js-core/tesseract-core*.wasm.js", dest: "tesseract/core" },
+        { src: "node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz", dest: "tesseract/lang" },
+        // Orientation and script detection runs on the legacy engine
+        { src: "node_modules/@tesseract.js-data/osd/4.0.0/osd.traineddata.gz", dest: "tesseract/lang" },
+      ],
+    }),
+    VitePWA({
+      registerType: "autoUpdate",
+      includeAssets: ["favicon.ico", "app-icon.svg"],
+      manifest: {
+        name: "Business Card Scanner",
+        short_name: "Card Scanner",
+        description: "Scan business cards and export the contacts, online or offline",
+        start_url: "/app",
+        display: "standalone",
+        theme_color: "#2563eb",
+        background_color: "#ffffff",
+        icons: [{ src: "/app-icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any maskable" }],
+      },
+      workbox: {
+        // App shell. The OCR core builds are several MB each and only one is used
+        // per device, so they are cached on first use below instead.
+        globPatterns: ["**/*.{js,mjs,css,html,ico,svg,png,woff2}"],
+        globIgnores: ["tesseract/core/**"],
+        navigateFallback: "/index.html",
+        runtimeCaching: [
+          {
+            urlPattern: ({ url }) => url.pathname.startsWith("/tesseract/"),
+            handler: "CacheFirst",
+            options: { cacheName: "tesseract-assets" },
+          },
+          {
+            // Language data for languages that are not bundled
+            urlPattern: /^https:\/\/cdn\.jsdelivr\.net\/npm\/@tesseract\.js-data\//,
+            handler: "CacheFirst",
+            options: {
+              cacheName: "tesseract-languages",
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+        ],
+      },
+    }),
+  ],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),